@@ -24,6 +24,15 @@ fi
 # Create .git/hooks if it doesn't exist
 mkdir -p "$GIT_HOOKS_DIR"
 
+# Install pre-commit hook
+if [ -f "$HOOKS_DIR/pre-commit" ]; then
+    cp "$HOOKS_DIR/pre-commit" "$GIT_HOOKS_DIR/pre-commit"
+    chmod +x "$GIT_HOOKS_DIR/pre-commit"
+    echo "✓ Installed pre-commit hook"
+else
+    echo "⚠️  Warning: pre-commit hook not found in .githooks"
+fi
+
 # Install pre-push hook
 if [ -f "$HOOKS_DIR/pre-push" ]; then
     cp "$HOOKS_DIR/pre-push" "$GIT_HOOKS_DIR/pre-push"
@@ -40,6 +49,8 @@ echo "✓ Configured git to use .githooks directory"
 echo ""
 echo "✅ Git hooks installed successfully!"
 echo ""
+echo "Staged changes are scanned for secrets before each commit."
+echo ""
 echo "The following checks will run before pushing to main/master:"
 echo "  1. Secret scanning (blocks critical secrets)"
 echo "  2. Build validation"
@@ -47,4 +58,5 @@ echo "  3. Test execution"
 echo "  4. Folder structure check"
 echo ""
 echo "To bypass hooks (not recommended):"
+echo "  git commit --no-verify"
 echo "  git push --no-verify"
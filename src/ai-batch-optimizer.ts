@@ -370,7 +370,7 @@ JSON: [{i,cat,conf,repo,why}]`;
 
     return {
       contextUtilization: maxPossibleTokens > 0 ? totalTokensUsed / maxPossibleTokens : 0,
-      avgBatchSize: totalFiles / batches.length,
+      avgBatchSize: batches.length > 0 ? totalFiles / batches.length : 0,
       totalApiCalls: batches.length,
       estimatedTimeSeconds: batches.length * 2.5, // ~2.5s per API call
     };
@@ -1,5 +1,9 @@
 import * as path from 'path';
 import type { FileClassification, FileCategory } from './types.js';
+import type { AIProviderName } from './ai-model-config.js';
+import type { OpenAICompatibleEndpoint } from './ai-key-manager.js';
+import { batchResponseSchema, parseJsonAnswer, validateBatchResults } from './ai-response-validator.js';
+import { getTransport, type AITransport } from './ai-transport.js';
 
 export interface RepositorySuggestion {
   repositoryName: string;
@@ -21,10 +25,36 @@ export interface BatchClassificationResult {
   suggestedRepo?: string;
 }
 
+export interface RejectedClassification {
+  fileName: string;
+  reason: string;
+}
+
+export interface BatchClassificationOutcome {
+  results: BatchClassificationResult[];  // Validated, at most one per file
+  rejected: RejectedClassification[];    // Files still without a valid answer after re-asking
+  requests: number;                      // API calls, re-asks included
+}
+
+export interface BatchRequestOptions {
+  signal?: AbortSignal;  // Cancels the batch, including waits for rate limits
+}
+
+// How often the files a batch answer got wrong are asked about again
+const MAX_REASKS = 2;
+
+// Tool Anthropic models are made to call with the batch answer
+const BATCH_TOOL = 'record_classifications';
+
 export interface AIProvider {
   name: string;
+  modelId: string;
   classify(filePath: string, content: string): Promise<FileClassification>;
-  classifyBatch?(files: BatchFileInfo[], repositories: Array<{ name: string; path: string; isRoot: boolean }>): Promise<BatchClassificationResult[]>;
+  classifyBatch?(
+    files: BatchFileInfo[],
+    repositories: Array<{ name: string; path: string; isRoot: boolean }>,
+    options?: BatchRequestOptions
+  ): Promise<BatchClassificationOutcome>;
   suggestRepository(
     filePath: string,
     content: string,
@@ -35,103 +65,86 @@ export interface AIProvider {
 export class AnthropicClassifier implements AIProvider {
   name = 'anthropic';
   private apiUrl = 'https://api.anthropic.com/v1/messages';
-  private modelId: string;
+  readonly modelId: string;
 
-  constructor(private apiKey: string, modelId?: string) {
+  constructor(
+    private apiKey: string,
+    modelId?: string,
+    private transport: AITransport = getTransport('anthropic')
+  ) {
     // Default to Haiku (cheapest) if not specified
     this.modelId = modelId || process.env.AI_MODEL_ID || 'claude-3-haiku-20240307';
   }
 
   async classifyBatch(
     files: BatchFileInfo[],
-    repositories: Array<{ name: string; path: string; isRoot: boolean }>
-  ): Promise<BatchClassificationResult[]> {
-    const repoList = repositories
-      .map(r => `- ${r.name} (${r.isRoot ? 'root' : 'sub-repo'})`)
-      .join('\n');
-
-    const filesList = files.map((f, idx) => {
-      return `FILE ${idx + 1}: ${f.fileName}
-Path: ${f.filePath}
-Content preview (first 500 chars):
-${f.contentPreview}
----`;
-    }).join('\n\n');
-
-    const prompt = `Analyze these ${files.length} files from a monorepo and classify each one.
-
-Available repositories:
-${repoList}
-
-FILES TO ANALYZE:
-${filesList}
-
-For each file, determine:
-1. Category: documentation, script, test, source, config, or asset
-2. Which repository it belongs to (based on content, not just filename)
-3. Confidence level (0.0-1.0)
-4. Brief reasoning
-
-IMPORTANT:
-- Look for technology mentions (iOS/Swift → iOS repo, API/Express → API repo, React/web → web repo)
-- Test scripts (test-*, check-*, debug-*) are usually test utilities
-- Documentation about a specific tech should go to that repo's documents/ folder
-- If it's general project-wide documentation, it stays at root
-
-Respond in JSON array format with one object per file:
-[
-  {
-    "fileName": "exact filename",
-    "category": "documentation|script|test|source|config|asset",
-    "confidence": 0.0-1.0,
-    "reasoning": "brief explanation",
-    "suggestedRepo": "repo name from list or root"
-  },
-  ...
-]`;
-
+    repositories: Array<{ name: string; path: string; isRoot: boolean }>,
+    options: BatchRequestOptions = {}
+  ): Promise<BatchClassificationOutcome> {
     try {
-      const response = await fetch(this.apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': this.apiKey,
-          'anthropic-version': '2023-06-01',
-        },
-        body: JSON.stringify({
-          model: this.modelId,
-          max_tokens: 4000, // Larger for batch response
-          messages: [
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Anthropic API error: ${response.status}`);
-      }
-
-      const data: any = await response.json();
-      const jsonMatch = data.content[0].text.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        throw new Error('No JSON array in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      return parsed;
+      return await classifyBatchWithReask(files, repositories, (pending, corrections) =>
+        this.requestBatch(buildBatchPrompt(pending, repositories, corrections), repositories, options.signal)
+      );
     } catch (error: any) {
       throw new Error(`Batch AI classification failed: ${error.message}`);
     }
   }
 
+  /**
+   * Ask through a forced tool call, so the answer arrives as tool input
+   * shaped by the schema
+   */
+  private async requestBatch(
+    prompt: string,
+    repositories: Array<{ name: string; path: string; isRoot: boolean }>,
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    const response = await this.transport.request(this.apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: this.modelId,
+        max_tokens: 4000, // Larger for batch response
+        tools: [
+          {
+            name: BATCH_TOOL,
+            description: 'Record the classification of every file',
+            input_schema: batchResponseSchema(repositories),
+          },
+        ],
+        tool_choice: { type: 'tool', name: BATCH_TOOL },
+        messages: [
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+      }),
+    }, signal);
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error: ${response.status}`);
+    }
+
+    const data: any = await response.json();
+    const toolUse = data.content?.find((block: any) => block.type === 'tool_use');
+    if (toolUse) {
+      return toolUse.input;
+    }
+
+    const text = data.content?.find((block: any) => block.type === 'text')?.text;
+    return typeof text === 'string' ? parseJsonAnswer(text) : undefined;
+  }
+
   async classify(filePath: string, content: string): Promise<FileClassification> {
-    const prompt = this.buildPrompt(filePath, content);
+    const prompt = buildClassifyPrompt(filePath, content);
 
     try {
-      const response = await fetch(this.apiUrl, {
+      const response = await this.transport.request(this.apiUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -155,7 +168,7 @@ Respond in JSON array format with one object per file:
       }
 
       const data: any = await response.json();
-      const result = this.parseResponse(data.content[0].text, filePath);
+      const result = parseClassification(data.content[0].text, filePath);
 
       return result;
     } catch (error: any) {
@@ -163,73 +176,15 @@ Respond in JSON array format with one object per file:
     }
   }
 
-  private buildPrompt(filePath: string, content: string): string {
-    const truncatedContent = content.substring(0, 2000); // Limit content size
-
-    return `Classify this file into ONE category: source, config, documentation, script, test, or asset.
-
-File: ${path.basename(filePath)}
-Content (first 2000 chars):
-${truncatedContent}
-
-Respond in JSON format:
-{
-  "category": "source|config|documentation|script|test|asset",
-  "confidence": 0.0-1.0,
-  "reasoning": "brief explanation"
-}`;
-  }
-
   async suggestRepository(
     filePath: string,
     content: string,
     repositories: Array<{ name: string; path: string; isRoot: boolean }>
   ): Promise<RepositorySuggestion> {
-    const truncatedContent = content.substring(0, 3000);
-    const fileName = path.basename(filePath);
-    const ext = path.extname(filePath);
-
-    const repoList = repositories
-      .map(r => `- ${r.name} (${r.isRoot ? 'root' : 'sub-repo'})`)
-      .join('\n');
-
-    const prompt = `Analyze this file and determine which repository it belongs to in this monorepo.
-
-File: ${fileName}
-Content (first 3000 chars):
-${truncatedContent}
-
-Available repositories:
-${repoList}
-
-IMPORTANT ANALYSIS GUIDELINES:
-${ext === '.md' ? `
-- This is a MARKDOWN file. Look for:
-  * Mentions of specific technologies (iOS, Swift, Android, API, React, etc.)
-  * References to specific sub-projects or components
-  * If it discusses iOS/Swift implementation → belongs in iOS repo
-  * If it discusses API/backend → belongs in API repo
-  * If it discusses web/frontend → belongs in web/UI repo
-  * If it's a general project summary or documentation → keep at root
-` : ''}
-${ext === '.js' || ext === '.ts' ? `
-- This is a SCRIPT file. Look for:
-  * Test scripts (test-*, check-*, debug-*) → should go to tests/ directory
-  * Import statements and dependencies
-  * Which codebase it's testing or interacting with
-` : ''}
-
-Based on the file's content, imports, purpose, and context clues, determine which repository this file should belong to.
-
-Respond in JSON format:
-{
-  "repositoryName": "exact name from list above",
-  "confidence": 0.0-1.0,
-  "reasoning": "brief explanation of why this file belongs to this repo"
-}`;
+    const prompt = buildRepositoryPrompt(filePath, content, repositories);
 
     try {
-      const response = await fetch(this.apiUrl, {
+      const response = await this.transport.request(this.apiUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -274,55 +229,88 @@ Respond in JSON format:
       };
     }
   }
-
-  private parseResponse(text: string, filePath: string): FileClassification {
-    try {
-      // Extract JSON from response
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-
-      return {
-        path: filePath,
-        category: parsed.category as FileCategory,
-        confidence: parsed.confidence,
-        reasoning: `AI: ${parsed.reasoning}`,
-      };
-    } catch (error) {
-      // Fallback to pattern matching
-      return {
-        path: filePath,
-        category: 'unknown',
-        confidence: 0.3,
-        reasoning: 'AI parsing failed',
-      };
-    }
-  }
 }
 
 export class OpenAIClassifier implements AIProvider {
   name = 'openai';
-  private apiUrl = 'https://api.openai.com/v1/chat/completions';
-  private modelId: string;
-
-  constructor(private apiKey: string, modelId?: string) {
+  readonly modelId: string;
+
+  constructor(
+    private apiKey: string,
+    modelId?: string,
+    private apiUrl: string = 'https://api.openai.com/v1/chat/completions',
+    private transport: AITransport = getTransport('openai')
+  ) {
     // Default to GPT-4o Mini (cheapest) if not specified
     this.modelId = modelId || process.env.AI_MODEL_ID || 'gpt-4o-mini';
   }
 
+  async classifyBatch(
+    files: BatchFileInfo[],
+    repositories: Array<{ name: string; path: string; isRoot: boolean }>,
+    options: BatchRequestOptions = {}
+  ): Promise<BatchClassificationOutcome> {
+    try {
+      return await classifyBatchWithReask(files, repositories, (pending, corrections) =>
+        this.requestBatch(buildBatchPrompt(pending, repositories, corrections), repositories, options.signal)
+      );
+    } catch (error: any) {
+      throw new Error(`Batch AI classification failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Ask with a strict JSON schema response format
+   */
+  private async requestBatch(
+    prompt: string,
+    repositories: Array<{ name: string; path: string; isRoot: boolean }>,
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    const response = await this.transport.request(this.apiUrl, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        model: this.modelId,
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a file classification expert. Respond only with valid JSON.',
+          },
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: 'file_classifications',
+            strict: true,
+            schema: batchResponseSchema(repositories),
+          },
+        },
+        temperature: 0.1,
+        max_tokens: 4000, // Larger for batch response
+      }),
+    }, signal);
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API error: ${response.status}`);
+    }
+
+    const data: any = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+    return typeof content === 'string' ? parseJsonAnswer(content) : undefined;
+  }
+
   async classify(filePath: string, content: string): Promise<FileClassification> {
     const prompt = this.buildPrompt(filePath, content);
 
     try {
-      const response = await fetch(this.apiUrl, {
+      const response = await this.transport.request(this.apiUrl, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
+        headers: this.headers(),
         body: JSON.stringify({
           model: this.modelId,
           messages: [
@@ -422,12 +410,9 @@ Respond with JSON only:
 }`;
 
     try {
-      const response = await fetch(this.apiUrl, {
+      const response = await this.transport.request(this.apiUrl, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
+        headers: this.headers(),
         body: JSON.stringify({
           model: this.modelId,
           messages: [
@@ -472,6 +457,17 @@ Respond with JSON only:
     }
   }
 
+  /**
+   * Self-hosted servers often run without a key, and some reject an empty
+   * bearer token
+   */
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+    };
+  }
+
   private parseResponse(text: string, filePath: string): FileClassification {
     try {
       const jsonMatch = text.match(/\{[\s\S]*\}/);
@@ -498,8 +494,164 @@ Respond with JSON only:
   }
 }
 
+/**
+ * A self-hosted model behind an OpenAI-compatible API (Ollama, llama.cpp
+ * server, vLLM), so file contents never leave the network
+ */
+export class OpenAICompatibleClassifier extends OpenAIClassifier {
+  name = 'openai-compatible';
+
+  constructor(endpoint: OpenAICompatibleEndpoint, modelId?: string) {
+    super(
+      endpoint.apiKey ?? '',
+      modelId || endpoint.model,
+      `${endpoint.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+      getTransport('openai-compatible')
+    );
+  }
+}
+
+export class GoogleClassifier implements AIProvider {
+  name = 'google';
+  readonly modelId: string;
+
+  constructor(
+    private apiKey: string,
+    modelId?: string,
+    private apiUrl: string = 'https://generativelanguage.googleapis.com/v1beta/models',
+    private transport: AITransport = getTransport('google')
+  ) {
+    // Default to Gemini 1.5 Flash (cheapest) if not specified
+    this.modelId = modelId || process.env.AI_MODEL_ID || 'gemini-1.5-flash';
+  }
+
+  async classifyBatch(
+    files: BatchFileInfo[],
+    repositories: Array<{ name: string; path: string; isRoot: boolean }>,
+    options: BatchRequestOptions = {}
+  ): Promise<BatchClassificationOutcome> {
+    const schema = toGeminiSchema(batchResponseSchema(repositories));
+
+    try {
+      return await classifyBatchWithReask(files, repositories, async (pending, corrections) => {
+        const prompt = buildBatchPrompt(pending, repositories, corrections);
+        const text = await this.generateContent(prompt, 4000, schema, options.signal);
+        return parseJsonAnswer(text);
+      });
+    } catch (error: any) {
+      throw new Error(`Batch AI classification failed: ${error.message}`);
+    }
+  }
+
+  async classify(filePath: string, content: string): Promise<FileClassification> {
+    const prompt = buildClassifyPrompt(filePath, content);
+
+    try {
+      const text = await this.generateContent(prompt, 500);
+      return parseClassification(text, filePath);
+    } catch (error: any) {
+      throw new Error(`AI classification failed: ${error.message}`);
+    }
+  }
+
+  async suggestRepository(
+    filePath: string,
+    content: string,
+    repositories: Array<{ name: string; path: string; isRoot: boolean }>
+  ): Promise<RepositorySuggestion> {
+    const prompt = buildRepositoryPrompt(filePath, content, repositories);
+
+    try {
+      const text = await this.generateContent(prompt, 500);
+      const jsonMatch = text.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        throw new Error('No JSON in response');
+      }
+
+      const parsed = JSON.parse(jsonMatch[0]);
+      return {
+        repositoryName: parsed.repositoryName,
+        confidence: parsed.confidence,
+        reasoning: parsed.reasoning,
+      };
+    } catch (error: any) {
+      // Fallback: use root repository
+      const rootRepo = repositories.find(r => r.isRoot);
+      return {
+        repositoryName: rootRepo?.name || repositories[0]?.name || '',
+        confidence: 0.3,
+        reasoning: 'AI analysis failed, defaulting to root',
+      };
+    }
+  }
+
+  /**
+   * Send one prompt to generateContent and return the text of the first
+   * candidate, constrained to the response schema when one is given
+   */
+  private async generateContent(
+    prompt: string,
+    maxOutputTokens: number,
+    responseSchema?: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const url = `${this.apiUrl}/${encodeURIComponent(this.modelId)}:generateContent`;
+    const response = await this.transport.request(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.apiKey,
+      },
+      body: JSON.stringify({
+        contents: [
+          {
+            role: 'user',
+            parts: [{ text: prompt }],
+          },
+        ],
+        generationConfig: {
+          temperature: 0.1,
+          maxOutputTokens,
+          responseMimeType: 'application/json',
+          ...(responseSchema && { responseSchema }),
+        },
+      }),
+    }, signal);
+
+    if (!response.ok) {
+      throw new Error(`Gemini API error: ${response.status}`);
+    }
+
+    const data: any = await response.json();
+    const candidate = data.candidates?.[0];
+    if (!candidate?.content?.parts) {
+      // Blocked prompts come back without candidates, blocked answers without content
+      const reason = data.promptFeedback?.blockReason || candidate?.finishReason || 'no candidates';
+      throw new Error(`Gemini returned no content (${reason})`);
+    }
+
+    return candidate.content.parts.map((part: { text?: string }) => part.text ?? '').join('');
+  }
+}
+
 export class AIClassifierFactory {
-  static async create(provider: 'anthropic' | 'openai' = 'anthropic', modelId?: string): Promise<AIProvider | null> {
+  /**
+   * A classifier for the provider, or for the preferred provider when none
+   * is given. Returns null when the provider has no key.
+   */
+  static async create(provider?: AIProviderName, modelId?: string): Promise<AIProvider | null> {
+    if (!provider) {
+      provider = (await this.getPreferredProvider()) || 'anthropic';
+    }
+
+    // A model picked with AI_MODEL applies when it belongs to this provider;
+    // a self-hosted endpoint names its own model
+    if (!modelId && process.env.AI_MODEL && provider !== 'openai-compatible') {
+      const { AVAILABLE_MODELS } = await import('./ai-model-config.js');
+      const model = AVAILABLE_MODELS[process.env.AI_MODEL];
+      if (model?.provider === provider) modelId = model.id;
+    }
+
     // Try to get key from stored keys first, then environment
     const { getKeyManager } = await import('./ai-key-manager.js');
     const keyManager = getKeyManager();
@@ -516,10 +668,16 @@ export class AIClassifierFactory {
       return new OpenAIClassifier(openaiKey, modelId);
     }
 
-    // TODO: Add Google Gemini classifier
-    // if (provider === 'google' && googleKey) {
-    //   return new GoogleClassifier(googleKey, modelId);
-    // }
+    if (provider === 'google' && googleKey) {
+      return new GoogleClassifier(googleKey, modelId);
+    }
+
+    if (provider === 'openai-compatible') {
+      const endpoint = await keyManager.getEndpointWithFallback();
+      if (endpoint) {
+        return new OpenAICompatibleClassifier(endpoint, modelId);
+      }
+    }
 
     return null;
   }
@@ -530,12 +688,17 @@ export class AIClassifierFactory {
     const providers = await keyManager.getConfiguredProviders();
 
     // Also check environment variables
-    const hasEnvKeys = !!(process.env.ANTHROPIC_API_KEY || process.env.OPENAI_API_KEY || process.env.GOOGLE_API_KEY);
+    const hasEnvKeys = !!(
+      process.env.ANTHROPIC_API_KEY ||
+      process.env.OPENAI_API_KEY ||
+      process.env.GOOGLE_API_KEY ||
+      process.env.OPENAI_COMPATIBLE_BASE_URL
+    );
 
     return providers.length > 0 || hasEnvKeys;
   }
 
-  static async getPreferredProvider(): Promise<'anthropic' | 'openai' | 'google' | null> {
+  static async getPreferredProvider(): Promise<AIProviderName | null> {
     // Check environment variable for model selection
     const selectedModel = process.env.AI_MODEL;
     if (selectedModel) {
@@ -549,12 +712,15 @@ export class AIClassifierFactory {
     const keyManager = getKeyManager();
     const providers = await keyManager.getConfiguredProviders();
 
-    // Prefer Google (cheapest), then Anthropic, then OpenAI
+    // Prefer a self-hosted endpoint (nothing leaves the network), then
+    // Google (cheapest), then Anthropic, then OpenAI
+    if (providers.includes('openai-compatible')) return 'openai-compatible';
     if (providers.includes('google')) return 'google';
     if (providers.includes('anthropic')) return 'anthropic';
     if (providers.includes('openai')) return 'openai';
 
     // Fallback to environment variables
+    if (process.env.OPENAI_COMPATIBLE_BASE_URL && process.env.OPENAI_COMPATIBLE_MODEL) return 'openai-compatible';
     if (process.env.ANTHROPIC_API_KEY) return 'anthropic';
     if (process.env.OPENAI_API_KEY) return 'openai';
     if (process.env.GOOGLE_API_KEY) return 'google';
@@ -565,16 +731,20 @@ export class AIClassifierFactory {
   /**
    * Get the specific model to use based on config/environment
    */
-  static async getModelConfig(): Promise<{ provider: 'anthropic' | 'openai' | 'google', modelId: string } | null> {
+  static async getModelConfig(): Promise<{ provider: AIProviderName, modelId: string } | null> {
     const { getModelConfig } = await import('./ai-model-config.js');
     const config = getModelConfig();
 
     // Check if we have a key for this provider
     const { getKeyManager } = await import('./ai-key-manager.js');
     const keyManager = getKeyManager();
-    const key = await keyManager.getKeyWithFallback(config.provider);
 
-    if (!key) {
+    if (config.provider === 'openai-compatible') {
+      const endpoint = await keyManager.getEndpointWithFallback();
+      if (endpoint) return { provider: config.provider, modelId: endpoint.model };
+    }
+
+    if (!(await keyManager.isConfigured(config.provider))) {
       // Try to find another available provider
       const provider = await this.getPreferredProvider();
       if (!provider) return null;
@@ -588,3 +758,204 @@ export class AIClassifierFactory {
     return { provider: config.provider, modelId: config.id };
   }
 }
+
+/**
+ * Ask for a batch, then re-ask for only the files whose answers were
+ * invalid or missing, telling the model what was wrong with them
+ */
+async function classifyBatchWithReask(
+  files: BatchFileInfo[],
+  repositories: Array<{ name: string }>,
+  ask: (pending: BatchFileInfo[], corrections: RejectedClassification[]) => Promise<unknown>
+): Promise<BatchClassificationOutcome> {
+  const results: BatchClassificationResult[] = [];
+  let pending = files;
+  let rejected: RejectedClassification[] = [];
+  let requests = 0;
+
+  while (pending.length > 0 && requests <= MAX_REASKS) {
+    requests++;
+    let answer: unknown;
+    try {
+      answer = await ask(pending, rejected);
+    } catch (error: any) {
+      // Without a first answer the batch failed; a failed re-ask keeps what was valid
+      if (requests === 1) throw error;
+      rejected = pending.map(f => ({ fileName: f.fileName, reason: `re-ask failed: ${error.message}` }));
+      break;
+    }
+
+    const validation = validateBatchResults(answer, pending, repositories);
+    results.push(...validation.valid);
+    rejected = validation.rejected;
+    pending = pending.filter(f => rejected.some(r => r.fileName === f.fileName));
+  }
+
+  return { results, rejected, requests };
+}
+
+/**
+ * Gemini takes an OpenAPI-style subset of JSON schema: upper-case types
+ * and no additionalProperties
+ */
+function toGeminiSchema(schema: Record<string, any>): Record<string, unknown> {
+  const converted: Record<string, unknown> = { type: String(schema.type).toUpperCase() };
+  if (schema.enum) converted.enum = schema.enum;
+  if (schema.required) converted.required = schema.required;
+  if (schema.items) converted.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value as Record<string, any>)])
+    );
+  }
+  return converted;
+}
+
+function buildBatchPrompt(
+  files: BatchFileInfo[],
+  repositories: Array<{ name: string; path: string; isRoot: boolean }>,
+  corrections: RejectedClassification[] = []
+): string {
+  const repoList = repositories
+    .map(r => `- ${r.name} (${r.isRoot ? 'root' : 'sub-repo'})`)
+    .join('\n');
+
+  const filesList = files.map((f, idx) => {
+    return `FILE ${idx + 1}: ${f.fileName}
+Path: ${f.filePath}
+Content preview (first 500 chars):
+${f.contentPreview}
+---`;
+  }).join('\n\n');
+
+  return `Analyze these ${files.length} files from a monorepo and classify each one.
+
+Available repositories:
+${repoList}
+
+FILES TO ANALYZE:
+${filesList}
+
+For each file, determine:
+1. Category: documentation, script, test, source, config, or asset
+2. Which repository it belongs to (based on content, not just filename)
+3. Confidence level (0.0-1.0)
+4. Brief reasoning
+
+IMPORTANT:
+- Look for technology mentions (iOS/Swift → iOS repo, API/Express → API repo, React/web → web repo)
+- Test scripts (test-*, check-*, debug-*) are usually test utilities
+- Documentation about a specific tech should go to that repo's documents/ folder
+- If it's general project-wide documentation, it stays at root
+${corrections.length > 0 ? `
+Your previous answers for these files were rejected:
+${corrections.map(c => `- ${c.fileName}: ${c.reason}`).join('\n')}
+Use only the categories and repositories listed above, and answer for every file.
+` : ''}
+Respond in JSON format with one object per file:
+{
+  "classifications": [
+    {
+      "fileName": "exact filename",
+      "category": "documentation|script|test|source|config|asset",
+      "confidence": 0.0-1.0,
+      "reasoning": "brief explanation",
+      "suggestedRepo": "repo name from list or root"
+    },
+    ...
+  ]
+}`;
+}
+
+function buildClassifyPrompt(filePath: string, content: string): string {
+  const truncatedContent = content.substring(0, 2000); // Limit content size
+
+  return `Classify this file into ONE category: source, config, documentation, script, test, or asset.
+
+File: ${path.basename(filePath)}
+Content (first 2000 chars):
+${truncatedContent}
+
+Respond in JSON format:
+{
+  "category": "source|config|documentation|script|test|asset",
+  "confidence": 0.0-1.0,
+  "reasoning": "brief explanation"
+}`;
+}
+
+function buildRepositoryPrompt(
+  filePath: string,
+  content: string,
+  repositories: Array<{ name: string; path: string; isRoot: boolean }>
+): string {
+  const truncatedContent = content.substring(0, 3000);
+  const fileName = path.basename(filePath);
+  const ext = path.extname(filePath);
+
+  const repoList = repositories
+    .map(r => `- ${r.name} (${r.isRoot ? 'root' : 'sub-repo'})`)
+    .join('\n');
+
+  return `Analyze this file and determine which repository it belongs to in this monorepo.
+
+File: ${fileName}
+Content (first 3000 chars):
+${truncatedContent}
+
+Available repositories:
+${repoList}
+
+IMPORTANT ANALYSIS GUIDELINES:
+${ext === '.md' ? `
+- This is a MARKDOWN file. Look for:
+  * Mentions of specific technologies (iOS, Swift, Android, API, React, etc.)
+  * References to specific sub-projects or components
+  * If it discusses iOS/Swift implementation → belongs in iOS repo
+  * If it discusses API/backend → belongs in API repo
+  * If it discusses web/frontend → belongs in web/UI repo
+  * If it's a general project summary or documentation → keep at root
+` : ''}
+${ext === '.js' || ext === '.ts' ? `
+- This is a SCRIPT file. Look for:
+  * Test scripts (test-*, check-*, debug-*) → should go to tests/ directory
+  * Import statements and dependencies
+  * Which codebase it's testing or interacting with
+` : ''}
+
+Based on the file's content, imports, purpose, and context clues, determine which repository this file should belong to.
+
+Respond in JSON format:
+{
+  "repositoryName": "exact name from list above",
+  "confidence": 0.0-1.0,
+  "reasoning": "brief explanation of why this file belongs to this repo"
+}`;
+}
+
+function parseClassification(text: string, filePath: string): FileClassification {
+  try {
+    // Extract JSON from response
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('No JSON found in response');
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]);
+
+    return {
+      path: filePath,
+      category: parsed.category as FileCategory,
+      confidence: parsed.confidence,
+      reasoning: `AI: ${parsed.reasoning}`,
+    };
+  } catch (error) {
+    // Fallback to pattern matching
+    return {
+      path: filePath,
+      category: 'unknown',
+      confidence: 0.3,
+      reasoning: 'AI parsing failed',
+    };
+  }
+}
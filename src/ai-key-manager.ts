@@ -9,11 +9,24 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
 import * as crypto from 'crypto';
+import type { AIProviderName } from './ai-model-config.js';
+
+export type ApiKeyProvider = Exclude<AIProviderName, 'openai-compatible'>;
+
+/**
+ * A self-hosted server that speaks the OpenAI chat completions API
+ */
+export interface OpenAICompatibleEndpoint {
+  baseUrl: string;   // e.g. http://localhost:11434/v1
+  model: string;     // e.g. llama3.1
+  apiKey?: string;   // Most local servers need none
+}
 
 export interface StoredKeys {
   anthropic?: string;
   openai?: string;
   google?: string;
+  'openai-compatible'?: OpenAICompatibleEndpoint;
 }
 
 export class AIKeyManager {
@@ -102,7 +115,7 @@ export class AIKeyManager {
   /**
    * Add or update an API key
    */
-  async setKey(provider: 'anthropic' | 'openai' | 'google', apiKey: string): Promise<void> {
+  async setKey(provider: ApiKeyProvider, apiKey: string): Promise<void> {
     const keys = await this.loadKeys();
     keys[provider] = apiKey;
     await this.saveKeys(keys);
@@ -111,7 +124,7 @@ export class AIKeyManager {
   /**
    * Get a specific API key
    */
-  async getKey(provider: 'anthropic' | 'openai' | 'google'): Promise<string | undefined> {
+  async getKey(provider: ApiKeyProvider): Promise<string | undefined> {
     const keys = await this.loadKeys();
     return keys[provider];
   }
@@ -119,24 +132,64 @@ export class AIKeyManager {
   /**
    * Remove an API key
    */
-  async removeKey(provider: 'anthropic' | 'openai' | 'google'): Promise<void> {
+  async removeKey(provider: AIProviderName): Promise<void> {
     const keys = await this.loadKeys();
     delete keys[provider];
     await this.saveKeys(keys);
   }
 
+  /**
+   * Add or update the self-hosted endpoint
+   */
+  async setEndpoint(endpoint: OpenAICompatibleEndpoint): Promise<void> {
+    const keys = await this.loadKeys();
+    keys['openai-compatible'] = endpoint;
+    await this.saveKeys(keys);
+  }
+
+  /**
+   * Get the stored self-hosted endpoint
+   */
+  async getEndpoint(): Promise<OpenAICompatibleEndpoint | undefined> {
+    const keys = await this.loadKeys();
+    return keys['openai-compatible'];
+  }
+
   /**
    * Check which providers have keys configured
    */
-  async getConfiguredProviders(): Promise<Array<'anthropic' | 'openai' | 'google'>> {
+  async getConfiguredProviders(): Promise<AIProviderName[]> {
     const keys = await this.loadKeys();
-    return Object.keys(keys).filter(k => keys[k as keyof StoredKeys]) as Array<'anthropic' | 'openai' | 'google'>;
+    return Object.keys(keys).filter(k => keys[k as keyof StoredKeys]) as AIProviderName[];
+  }
+
+  /**
+   * Whether the provider has a key or endpoint, in the environment or stored
+   */
+  async isConfigured(provider: AIProviderName): Promise<boolean> {
+    if (provider === 'openai-compatible') {
+      return !!(await this.getEndpointWithFallback());
+    }
+    return !!(await this.getKeyWithFallback(provider));
+  }
+
+  /**
+   * What is stored for a provider, safe to display: the masked key, or the
+   * endpoint's model and URL
+   */
+  async describeStored(provider: AIProviderName): Promise<string | undefined> {
+    if (provider === 'openai-compatible') {
+      const endpoint = await this.getEndpoint();
+      return endpoint && `${endpoint.model} at ${endpoint.baseUrl}`;
+    }
+    const key = await this.getKey(provider);
+    return key && this.maskKey(key);
   }
 
   /**
    * Validate an API key format (basic check)
    */
-  validateKeyFormat(provider: 'anthropic' | 'openai' | 'google', key: string): boolean {
+  validateKeyFormat(provider: ApiKeyProvider, key: string): boolean {
     switch (provider) {
       case 'anthropic':
         // sk-ant-api03-...
@@ -193,7 +246,7 @@ export class AIKeyManager {
   /**
    * Get key from environment or stored config
    */
-  async getKeyWithFallback(provider: 'anthropic' | 'openai' | 'google'): Promise<string | undefined> {
+  async getKeyWithFallback(provider: ApiKeyProvider): Promise<string | undefined> {
     // First check environment variables
     const envKey = this.getKeyFromEnv(provider);
     if (envKey) return envKey;
@@ -202,10 +255,17 @@ export class AIKeyManager {
     return await this.getKey(provider);
   }
 
+  /**
+   * Get the self-hosted endpoint from environment or stored config
+   */
+  async getEndpointWithFallback(): Promise<OpenAICompatibleEndpoint | undefined> {
+    return getEndpointFromEnv() || await this.getEndpoint();
+  }
+
   /**
    * Get key from environment variable
    */
-  private getKeyFromEnv(provider: 'anthropic' | 'openai' | 'google'): string | undefined {
+  private getKeyFromEnv(provider: ApiKeyProvider): string | undefined {
     switch (provider) {
       case 'anthropic':
         return process.env.ANTHROPIC_API_KEY;
@@ -217,6 +277,22 @@ export class AIKeyManager {
   }
 }
 
+/**
+ * The self-hosted endpoint set by OPENAI_COMPATIBLE_BASE_URL and
+ * OPENAI_COMPATIBLE_MODEL (plus OPENAI_COMPATIBLE_API_KEY if it needs one)
+ */
+export function getEndpointFromEnv(): OpenAICompatibleEndpoint | undefined {
+  const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+  const model = process.env.OPENAI_COMPATIBLE_MODEL;
+  if (!baseUrl || !model) return undefined;
+
+  return {
+    baseUrl,
+    model,
+    ...(process.env.OPENAI_COMPATIBLE_API_KEY && { apiKey: process.env.OPENAI_COMPATIBLE_API_KEY }),
+  };
+}
+
 // Singleton instance
 let keyManagerInstance: AIKeyManager | null = null;
 
@@ -5,10 +5,12 @@
  * based on cost, context window, and quality requirements.
  */
 
+export type AIProviderName = 'anthropic' | 'openai' | 'google' | 'openai-compatible';
+
 export interface ModelConfig {
   id: string;
   name: string;
-  provider: 'anthropic' | 'openai' | 'google';
+  provider: AIProviderName;
   contextWindow: number;
   inputPricePerMillion: number;
   outputPricePerMillion: number;
@@ -108,6 +110,21 @@ export const AVAILABLE_MODELS: Record<string, ModelConfig> = {
     quality: 'good',
     speed: 'very-fast',
   },
+
+  // Self-hosted server with an OpenAI-compatible API (Ollama, llama.cpp, vLLM).
+  // The model id and URL come from the configured endpoint.
+  'openai-compatible': {
+    id: 'local',
+    name: 'Self-hosted endpoint',
+    provider: 'openai-compatible',
+    contextWindow: 8192,
+    inputPricePerMillion: 0,
+    outputPricePerMillion: 0,
+    recommendedBatchSize: 20,
+    apiUrl: 'http://localhost:11434/v1',
+    quality: 'good',
+    speed: 'fast',
+  },
 };
 
 export type ModelSelector =
@@ -133,8 +150,9 @@ export function selectModel(
 
   switch (criteria) {
     case 'cheapest':
-      // Lowest total cost (input + output)
-      return models.reduce((cheapest, model) => {
+      // Lowest total cost (input + output) of the hosted models; a
+      // self-hosted endpoint is free per token but has to be set up first
+      return models.filter(m => m.provider !== 'openai-compatible').reduce((cheapest, model) => {
         const currentCost = model.inputPricePerMillion + model.outputPricePerMillion;
         const cheapestCost = cheapest.inputPricePerMillion + cheapest.outputPricePerMillion;
         return currentCost < cheapestCost ? model : cheapest;
@@ -193,26 +211,32 @@ export function getModelConfig(): ModelConfig {
 }
 
 /**
- * Compare models side-by-side
+ * Compare models side-by-side. Files already in the classification cache
+ * for a model (cachedFiles, by the model's id in AVAILABLE_MODELS) cost
+ * nothing and need no API call.
  */
 export function compareModels(
   fileCount: number,
   avgInputTokensPerFile: number = 400,
-  avgOutputTokensPerFile: number = 100
+  avgOutputTokensPerFile: number = 100,
+  cachedFiles: Record<string, number> = {}
 ): Array<{
   model: string;
   batchCount: number;
   totalCost: number;
   costPerFile: number;
   apiCalls: number;
+  cachedFiles: number;
 }> {
   return Object.entries(AVAILABLE_MODELS).map(([key, config]) => {
+    const cached = Math.min(fileCount, cachedFiles[config.id] ?? 0);
+    const billableFiles = fileCount - cached;
     const filesPerBatch = config.recommendedBatchSize;
-    const batchCount = Math.ceil(fileCount / filesPerBatch);
+    const batchCount = Math.ceil(billableFiles / filesPerBatch);
     const apiCalls = batchCount;
 
-    const totalInputTokens = fileCount * avgInputTokensPerFile;
-    const totalOutputTokens = fileCount * avgOutputTokensPerFile;
+    const totalInputTokens = billableFiles * avgInputTokensPerFile;
+    const totalOutputTokens = billableFiles * avgOutputTokensPerFile;
     const totalCost = estimateCost(config, totalInputTokens, totalOutputTokens);
 
     return {
@@ -221,6 +245,7 @@ export function compareModels(
       totalCost: parseFloat(totalCost.toFixed(4)),
       costPerFile: parseFloat((totalCost / fileCount).toFixed(6)),
       apiCalls,
+      cachedFiles: cached,
     };
   }).sort((a, b) => a.totalCost - b.totalCost); // Sort by cost
 }
@@ -228,7 +253,7 @@ export function compareModels(
 /**
  * Get API key for a provider
  */
-export function getApiKey(provider: 'anthropic' | 'openai' | 'google'): string | undefined {
+export function getApiKey(provider: AIProviderName): string | undefined {
   switch (provider) {
     case 'anthropic':
       return process.env.ANTHROPIC_API_KEY;
@@ -236,6 +261,9 @@ export function getApiKey(provider: 'anthropic' | 'openai' | 'google'): string |
       return process.env.OPENAI_API_KEY;
     case 'google':
       return process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY;
+    case 'openai-compatible':
+      // Self-hosted servers usually need no key, only a base URL
+      return process.env.OPENAI_COMPATIBLE_BASE_URL && (process.env.OPENAI_COMPATIBLE_API_KEY || 'none');
     default:
       return undefined;
   }
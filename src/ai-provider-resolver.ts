@@ -7,14 +7,20 @@
  * 3. Model selection (AI_MODEL env var or config)
  */
 
-import { getKeyManager } from './ai-key-manager.js';
-import { AVAILABLE_MODELS, type ModelConfig } from './ai-model-config.js';
+import {
+  getEndpointFromEnv,
+  getKeyManager,
+  type ApiKeyProvider,
+  type OpenAICompatibleEndpoint,
+} from './ai-key-manager.js';
+import { AVAILABLE_MODELS, type AIProviderName, type ModelConfig } from './ai-model-config.js';
 
 export interface ResolvedProvider {
-  provider: 'anthropic' | 'openai' | 'google';
+  provider: AIProviderName;
   model: ModelConfig;
-  apiKey: string;
+  apiKey: string;  // Empty for a self-hosted endpoint without a key
   source: 'devibe-config' | 'environment' | 'default';
+  endpoint?: OpenAICompatibleEndpoint;
 }
 
 export class AIProviderResolver {
@@ -30,18 +36,26 @@ export class AIProviderResolver {
     if (explicitModel && explicitModel in AVAILABLE_MODELS) {
       const model = AVAILABLE_MODELS[explicitModel];
 
-      // Try devibe-stored key first
-      let apiKey = await keyManager.getKey(model.provider);
-      let source: 'devibe-config' | 'environment' = 'devibe-config';
-
-      // Fallback to environment
-      if (!apiKey) {
-        apiKey = this.getEnvKey(model.provider);
-        source = 'environment';
-      }
+      if (model.provider === 'openai-compatible') {
+        const stored = await keyManager.getEndpoint();
+        const endpoint = stored || getEndpointFromEnv();
+        if (endpoint) {
+          return this.resolveEndpoint(endpoint, stored ? 'devibe-config' : 'environment');
+        }
+      } else {
+        // Try devibe-stored key first
+        let apiKey = await keyManager.getKey(model.provider);
+        let source: 'devibe-config' | 'environment' = 'devibe-config';
+
+        // Fallback to environment
+        if (!apiKey) {
+          apiKey = this.getEnvKey(model.provider);
+          source = 'environment';
+        }
 
-      if (apiKey) {
-        return { provider: model.provider, model, apiKey, source };
+        if (apiKey) {
+          return { provider: model.provider, model, apiKey, source };
+        }
       }
     }
 
@@ -49,8 +63,13 @@ export class AIProviderResolver {
     const configuredProviders = await keyManager.getConfiguredProviders();
 
     if (configuredProviders.length > 0) {
-      // Prioritize: Google (cheapest) > Anthropic > OpenAI
-      const preferredOrder: Array<'google' | 'anthropic' | 'openai'> = ['google', 'anthropic', 'openai'];
+      // Prioritize: self-hosted (nothing leaves the network) > Google (cheapest) > Anthropic > OpenAI
+      const endpoint = configuredProviders.includes('openai-compatible') && await keyManager.getEndpoint();
+      if (endpoint) {
+        return this.resolveEndpoint(endpoint, 'devibe-config');
+      }
+
+      const preferredOrder: ApiKeyProvider[] = ['google', 'anthropic', 'openai'];
 
       for (const provider of preferredOrder) {
         if (configuredProviders.includes(provider)) {
@@ -65,7 +84,12 @@ export class AIProviderResolver {
     }
 
     // Step 3: Fallback to environment variables
-    const envProviders: Array<'anthropic' | 'openai' | 'google'> = ['anthropic', 'openai', 'google'];
+    const envEndpoint = getEndpointFromEnv();
+    if (envEndpoint) {
+      return this.resolveEndpoint(envEndpoint, 'environment');
+    }
+
+    const envProviders: ApiKeyProvider[] = ['anthropic', 'openai', 'google'];
 
     for (const provider of envProviders) {
       const apiKey = this.getEnvKey(provider);
@@ -79,10 +103,28 @@ export class AIProviderResolver {
     return null;
   }
 
+  /**
+   * The self-hosted model: the endpoint's model id and URL on the
+   * openai-compatible entry of AVAILABLE_MODELS
+   */
+  private resolveEndpoint(
+    endpoint: OpenAICompatibleEndpoint,
+    source: 'devibe-config' | 'environment'
+  ): ResolvedProvider {
+    const template = AVAILABLE_MODELS['openai-compatible'];
+    return {
+      provider: 'openai-compatible',
+      model: { ...template, id: endpoint.model, name: `${template.name} (${endpoint.model})`, apiUrl: endpoint.baseUrl },
+      apiKey: endpoint.apiKey ?? '',
+      source,
+      endpoint,
+    };
+  }
+
   /**
    * Get environment variable for provider
    */
-  private getEnvKey(provider: 'anthropic' | 'openai' | 'google'): string | undefined {
+  private getEnvKey(provider: ApiKeyProvider): string | undefined {
     switch (provider) {
       case 'anthropic':
         return process.env.ANTHROPIC_API_KEY;
@@ -0,0 +1,146 @@
+/**
+ * AI Response Validator
+ * The JSON schema batch classifications are requested with, and strict
+ * validation of what comes back: every entry must name a file that was
+ * sent, a known category, a confidence between 0 and 1 and a repository
+ * from the list. Nothing the model invents reaches a FileClassification.
+ */
+
+import type { FileCategory } from './types.js';
+import type { BatchClassificationResult, BatchFileInfo, RejectedClassification } from './ai-classifier.js';
+
+// The categories the batch prompt offers; 'unknown' is not an answer
+export const BATCH_CATEGORIES: FileCategory[] = ['documentation', 'script', 'test', 'source', 'config', 'asset'];
+
+// suggestedRepo for files that stay in the root repository
+export const ROOT_REPOSITORY = 'root';
+
+export interface BatchValidation {
+  valid: BatchClassificationResult[];
+  rejected: RejectedClassification[];  // Only files that were sent
+}
+
+/**
+ * JSON schema of a batch answer: an object with a classifications array,
+ * since structured output APIs want an object at the top level
+ */
+export function batchResponseSchema(repositories: Array<{ name: string }>): Record<string, unknown> {
+  const repositoryNames = [...new Set([...repositories.map(r => r.name), ROOT_REPOSITORY])];
+
+  return {
+    type: 'object',
+    properties: {
+      classifications: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            fileName: { type: 'string' },
+            category: { type: 'string', enum: BATCH_CATEGORIES },
+            confidence: { type: 'number' },
+            reasoning: { type: 'string' },
+            suggestedRepo: { type: 'string', enum: repositoryNames },
+          },
+          required: ['fileName', 'category', 'confidence', 'reasoning', 'suggestedRepo'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['classifications'],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Split an answer into valid classifications and the files it failed to
+ * classify. Entries for files that were not sent are dropped; the first
+ * valid entry for a file wins.
+ */
+export function validateBatchResults(
+  answer: unknown,
+  files: BatchFileInfo[],
+  repositories: Array<{ name: string }>
+): BatchValidation {
+  const entries = Array.isArray(answer)
+    ? answer
+    : Array.isArray((answer as { classifications?: unknown })?.classifications)
+      ? (answer as { classifications: unknown[] }).classifications
+      : null;
+
+  if (!entries) {
+    const reason = answer === undefined ? 'response was not valid JSON' : 'response had no classifications list';
+    return { valid: [], rejected: files.map(f => ({ fileName: f.fileName, reason })) };
+  }
+
+  const requested = new Set(files.map(f => f.fileName));
+  const repositoryNames = new Set([...repositories.map(r => r.name), ROOT_REPOSITORY]);
+  const valid = new Map<string, BatchClassificationResult>();
+  const problems = new Map<string, string>();
+
+  for (const entry of entries) {
+    if (!entry || typeof entry !== 'object') continue;
+    const item = entry as Record<string, unknown>;
+    if (typeof item.fileName !== 'string' || !requested.has(item.fileName) || valid.has(item.fileName)) continue;
+
+    const problem = findProblem(item, repositoryNames);
+    if (problem) {
+      problems.set(item.fileName, problem);
+      continue;
+    }
+
+    valid.set(item.fileName, {
+      fileName: item.fileName,
+      category: item.category as FileCategory,
+      confidence: item.confidence as number,
+      reasoning: item.reasoning as string,
+      ...(typeof item.suggestedRepo === 'string' && { suggestedRepo: item.suggestedRepo }),
+    });
+  }
+
+  const rejected = files
+    .filter(f => !valid.has(f.fileName))
+    .map(f => ({ fileName: f.fileName, reason: problems.get(f.fileName) ?? 'missing from the response' }));
+
+  return { valid: [...valid.values()], rejected };
+}
+
+function findProblem(item: Record<string, unknown>, repositoryNames: Set<string>): string | null {
+  if (typeof item.category !== 'string' || !BATCH_CATEGORIES.includes(item.category as FileCategory)) {
+    return `unknown category ${JSON.stringify(item.category)}`;
+  }
+  if (typeof item.confidence !== 'number' || !(item.confidence >= 0 && item.confidence <= 1)) {
+    return `confidence ${JSON.stringify(item.confidence)} is not between 0 and 1`;
+  }
+  if (typeof item.reasoning !== 'string') {
+    return 'no reasoning';
+  }
+  if (item.suggestedRepo != null && (typeof item.suggestedRepo !== 'string' || !repositoryNames.has(item.suggestedRepo))) {
+    return `unknown repository ${JSON.stringify(item.suggestedRepo)}`;
+  }
+  return null;
+}
+
+/**
+ * The JSON in a model's text answer, or undefined when there is none
+ */
+export function parseJsonAnswer(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Prose around the JSON; fall back to the outermost object or array
+  }
+
+  // Whichever opens first is the outermost
+  const candidates = [text.match(/\{[\s\S]*\}/), text.match(/\[[\s\S]*\]/)]
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .sort((a, b) => a.index! - b.index!);
+
+  for (const match of candidates) {
+    try {
+      return JSON.parse(match[0]);
+    } catch {
+      continue;
+    }
+  }
+  return undefined;
+}
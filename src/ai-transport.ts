@@ -0,0 +1,236 @@
+/**
+ * AI Transport
+ *
+ * The HTTP layer every AI provider sends through. Retries rate limits,
+ * overloads, server errors and network failures with exponential backoff
+ * and jitter, honoring retry-after. Limits each provider's concurrent
+ * requests and tokens per minute, times requests out and lets callers
+ * cancel them with an AbortSignal.
+ */
+
+import type { AIProviderName } from './ai-model-config.js';
+
+export interface TransportOptions {
+  maxRetries?: number;       // Retries after the first attempt (default 4)
+  baseDelayMs?: number;      // First backoff step (default 1s)
+  maxDelayMs?: number;       // Longest wait between attempts (default 60s)
+  timeoutMs?: number;        // Per attempt (default 120s)
+  maxConcurrency?: number;   // Requests in flight at once
+  tokensPerMinute?: number;  // Estimated request tokens per rolling minute; unset means no limit
+  fetch?: typeof fetch;
+  random?: () => number;
+}
+
+// Conservative entry-tier limits. AI_MAX_CONCURRENCY and AI_TOKENS_PER_MINUTE
+// override them; a self-hosted server usually serves one request at a time.
+const PROVIDER_LIMITS: Record<AIProviderName, { maxConcurrency: number; tokensPerMinute?: number }> = {
+  anthropic: { maxConcurrency: 4, tokensPerMinute: 40_000 },
+  openai: { maxConcurrency: 4, tokensPerMinute: 200_000 },
+  google: { maxConcurrency: 4, tokensPerMinute: 1_000_000 },
+  'openai-compatible': { maxConcurrency: 1 },
+};
+
+// 529 is Anthropic's "overloaded"
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+const WINDOW_MS = 60_000;
+
+export class AITransport {
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private timeoutMs: number;
+  private maxConcurrency: number;
+  private tokensPerMinute?: number;
+  private fetchImpl: typeof fetch;
+  private random: () => number;
+
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private spent: Array<{ at: number; tokens: number }> = [];
+
+  constructor(options: TransportOptions = {}) {
+    this.maxRetries = options.maxRetries ?? 4;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 60_000;
+    this.timeoutMs = options.timeoutMs ?? 120_000;
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? 4);
+    this.tokensPerMinute = options.tokensPerMinute;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.random = options.random ?? Math.random;
+  }
+
+  static forProvider(provider: AIProviderName): AITransport {
+    const limits = PROVIDER_LIMITS[provider];
+    const concurrency = parseInt(process.env.AI_MAX_CONCURRENCY || '', 10);
+    const tokensPerMinute = parseInt(process.env.AI_TOKENS_PER_MINUTE || '', 10);
+
+    return new AITransport({
+      maxConcurrency: concurrency > 0 ? concurrency : limits.maxConcurrency,
+      tokensPerMinute: tokensPerMinute > 0 ? tokensPerMinute : limits.tokensPerMinute,
+    });
+  }
+
+  /**
+   * Send a request, waiting for a free slot and token budget first. Returns
+   * the last response once it succeeds, fails for good, or retries run out;
+   * throws on timeouts, network failures and cancellation.
+   */
+  async request(url: string, init: RequestInit, signal?: AbortSignal): Promise<Response> {
+    const tokens = estimateTokens(init.body);
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      await this.acquire(tokens, signal);
+      try {
+        response = await this.attempt(url, init, signal);
+      } catch (error) {
+        this.release();
+        if (signal?.aborted || attempt >= this.maxRetries) throw error;
+        await sleep(this.backoff(attempt), signal);
+        continue;
+      }
+      this.release();
+
+      if (response.ok || !RETRYABLE_STATUSES.has(response.status) || attempt >= this.maxRetries) {
+        return response;
+      }
+
+      // Free the connection before waiting
+      await response.body?.cancel().catch(() => undefined);
+      await sleep(this.retryAfter(response) ?? this.backoff(attempt), signal);
+    }
+  }
+
+  private async attempt(url: string, init: RequestInit, signal?: AbortSignal): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => controller.abort(new Error(`request timed out after ${this.timeoutMs}ms`)),
+      this.timeoutMs
+    );
+    const cancel = () => controller.abort(signal!.reason ?? new Error('request cancelled'));
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    try {
+      if (signal?.aborted) cancel();
+      return await this.fetchImpl(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      // fetch reports every abort as an AbortError; say why instead
+      throw controller.signal.aborted ? controller.signal.reason : error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  /**
+   * Full jitter: anywhere from zero to the exponential step
+   */
+  private backoff(attempt: number): number {
+    return Math.round(this.random() * Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt));
+  }
+
+  /**
+   * retry-after-ms, or retry-after in seconds or as an HTTP date
+   */
+  private retryAfter(response: Response): number | null {
+    const milliseconds = Number(response.headers.get('retry-after-ms'));
+    if (milliseconds > 0) return Math.min(milliseconds, this.maxDelayMs);
+
+    const header = response.headers.get('retry-after');
+    if (!header) return null;
+
+    const seconds = Number(header);
+    const delay = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+    return Number.isFinite(delay) ? Math.min(Math.max(0, delay), this.maxDelayMs) : null;
+  }
+
+  private async acquire(tokens: number, signal?: AbortSignal): Promise<void> {
+    while (this.active >= this.maxConcurrency) {
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          this.waiting = this.waiting.filter((next) => next !== wake);
+          reject(signal!.reason ?? new Error('request cancelled'));
+        };
+        const wake = () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        };
+        if (signal?.aborted) return onAbort();
+        signal?.addEventListener('abort', onAbort, { once: true });
+        this.waiting.push(wake);
+      });
+    }
+    this.active++;
+
+    try {
+      await this.reserveTokens(tokens, signal);
+    } catch (error) {
+      this.release();
+      throw error;
+    }
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+
+  /**
+   * Wait until the rolling minute has room for the request; a request larger
+   * than the whole budget goes once the window is empty
+   */
+  private async reserveTokens(tokens: number, signal?: AbortSignal): Promise<void> {
+    if (!this.tokensPerMinute) return;
+
+    for (;;) {
+      const now = Date.now();
+      this.spent = this.spent.filter((entry) => now - entry.at < WINDOW_MS);
+      const used = this.spent.reduce((sum, entry) => sum + entry.tokens, 0);
+      if (this.spent.length === 0 || used + tokens <= this.tokensPerMinute) {
+        this.spent.push({ at: now, tokens });
+        return;
+      }
+      await sleep(this.spent[0].at + WINDOW_MS - now, signal);
+    }
+  }
+}
+
+const transports = new Map<AIProviderName, AITransport>();
+
+/**
+ * The transport a provider's classifiers share, so limits hold across them
+ */
+export function getTransport(provider: AIProviderName): AITransport {
+  let transport = transports.get(provider);
+  if (!transport) {
+    transport = AITransport.forProvider(provider);
+    transports.set(provider, transport);
+  }
+  return transport;
+}
+
+/**
+ * About four characters per token
+ */
+function estimateTokens(body: RequestInit['body']): number {
+  return typeof body === 'string' ? Math.ceil(body.length / 4) : 0;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new Error('request cancelled'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason ?? new Error('request cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -14,6 +14,7 @@
 
 import type { GitRepository, FileOperation } from './types.js';
 import { IntelligentClassifier } from './intelligent-classifier.js';
+import { ClassificationCache } from './classification-cache.js';
 import { OperationPlanner, OperationExecutor } from './operation-executor.js';
 import { GitDetector } from './git-detector.js';
 import { BackupManager } from './backup-manager.js';
@@ -21,6 +22,7 @@ import { AIClassifierFactory } from './ai-classifier.js';
 import { GitIgnoreManager } from './gitignore-manager.js';
 import { getPreferencesManager } from './user-preferences.js';
 import { ProjectConventionAnalyzer, type ProjectConventions } from './project-convention-analyzer.js';
+import { UsageDetector } from './usage-detector.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
@@ -30,6 +32,7 @@ export interface AutoExecutorOptions {
   verbose?: boolean;
   skipBackup?: boolean;
   consolidateDocs?: 'safe' | 'aggressive' | 'none';
+  cache?: boolean;  // Reuse cached AI classifications of unchanged files (default true)
   onProgress?: (current: number, total: number, message: string) => void;
 }
 
@@ -49,6 +52,8 @@ export class AutoExecutor {
   private classifier = new IntelligentClassifier();
   private gitignoreManager = new GitIgnoreManager();
   private conventionAnalyzer = new ProjectConventionAnalyzer();
+  // Planners of every run share it, so the reference index is built once
+  private usageDetector = new UsageDetector();
   private projectConventions?: ProjectConventions;
 
   /**
@@ -153,6 +158,8 @@ export class AutoExecutor {
 
       // Set conventions on classifier so it can use them for smarter classification
       this.classifier.setProjectConventions(this.projectConventions);
+      const cache = options.cache === false ? null : await ClassificationCache.forProject(options.path);
+      this.classifier.setCache(cache);
 
       await this.classifier.classifyBatch([], repositoriesToProcess);
 
@@ -162,7 +169,7 @@ export class AutoExecutor {
       const planner = new OperationPlanner(
         this.detector,
         this.classifier,
-        undefined // Skip usage detection for auto mode (faster)
+        this.usageDetector
       );
 
       const plan = await planner.planRootFileDistribution(
@@ -176,6 +183,7 @@ export class AutoExecutor {
           );
         }
       );
+      await cache?.save();
 
       // Initialize result variables
       let executionResult = {
@@ -195,9 +203,7 @@ export class AutoExecutor {
           `Executing ${plan.operations.length} operations...`
         );
 
-        const backupManager = new BackupManager(
-          path.join(options.path, '.unvibe', 'backups')
-        );
+        const backupManager = await BackupManager.forProject(options.path);
         const executor = new OperationExecutor(backupManager);
 
         const execResult = await executor.execute(
@@ -330,6 +336,8 @@ export class AutoExecutor {
     }
 
     this.reportProgress(options, 1, 3, 'Analyzing project structure...');
+    const cache = options.cache === false ? null : await ClassificationCache.forProject(options.path);
+    this.classifier.setCache(cache);
     await this.classifier.classifyBatch([], repositoriesToProcess);
 
     // Create plan
@@ -338,7 +346,7 @@ export class AutoExecutor {
     const planner = new OperationPlanner(
       this.detector,
       this.classifier,
-      undefined
+      this.usageDetector
     );
 
     const plan = await planner.planRootFileDistribution(
@@ -352,6 +360,7 @@ export class AutoExecutor {
         );
       }
     );
+    await cache?.save();
 
     this.reportProgress(options, 3, 3, 'Preview ready!');
 
@@ -788,9 +797,7 @@ export class AutoExecutor {
       const { BackupManager } = await import('./backup-manager.js');
 
       // Get AI provider (optional)
-      const preferredProvider = await AIClassifierFactory.getPreferredProvider();
-      const providerToUse = (preferredProvider === 'google' ? 'anthropic' : preferredProvider) || 'anthropic';
-      const aiProvider = await AIClassifierFactory.create(providerToUse);
+      const aiProvider = await AIClassifierFactory.create();
 
       // Initialize components
       const scanner = new MarkdownScanner();
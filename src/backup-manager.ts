@@ -1,75 +1,234 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { randomUUID } from 'crypto';
+import { BlobStore, hashBuffer } from './blob-store.js';
+import { ConfigManager } from './config.js';
 import type {
   BackupEntry,
   BackupManifest,
+  BackupStorageStats,
   ICanBackupFiles,
   ICanRestoreFiles,
+  PruneOptions,
+  PruneResult,
+  RestoreConflict,
+  RestoreOptions,
+  RestoreResult,
 } from './types.js';
 
+export interface BackupManagerOptions {
+  compress?: boolean;      // gzip stored file contents
+  retentionDays?: number;  // Default for prune(): remove backups older than this
+  maxBackups?: number;     // Default for prune(): keep only this many backups
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export class BackupManager implements ICanBackupFiles, ICanRestoreFiles {
-  constructor(private backupDir: string) {}
+  private blobs: BlobStore;
+
+  constructor(private backupDir: string, private options: BackupManagerOptions = {}) {
+    this.blobs = new BlobStore(path.join(backupDir, 'objects'), { compress: options.compress });
+  }
+
+  /**
+   * The backup manager for a project's .unvibe/backups, honoring the
+   * backup settings in .unvibe.config.js
+   */
+  static async forProject(projectPath: string): Promise<BackupManager> {
+    const config = await ConfigManager.load(projectPath);
+    return new BackupManager(path.join(projectPath, '.unvibe', 'backups'), {
+      compress: config.backup?.compress,
+      retentionDays: config.backup?.retentionDays,
+      maxBackups: config.backup?.maxBackups,
+    });
+  }
 
+  /**
+   * Store the file's exact bytes in the object store. The entry only holds
+   * the content hash, so manifests stay small and binaries survive intact.
+   */
   async backupFile(
     filePath: string,
-    operation: 'move' | 'delete' | 'modify'
+    operation: 'move' | 'delete' | 'modify',
+    targetPath?: string
   ): Promise<BackupEntry> {
     await this.ensureBackupDir();
 
-    const content = await fs.readFile(filePath, 'utf-8');
+    const content = await fs.readFile(filePath);
     const stats = await fs.stat(filePath);
-    const id = randomUUID();
 
-    const entry: BackupEntry = {
-      id,
+    return {
+      id: randomUUID(),
       timestamp: new Date(),
       operation,
       sourcePath: filePath,
-      content,
+      ...(targetPath && { targetPath }),
+      contentHash: await this.blobs.put(content),
       metadata: {
         size: stats.size,
         mode: stats.mode,
       },
     };
+  }
 
-    // Store backup on disk
-    const backupPath = path.join(this.backupDir, id);
-    await fs.writeFile(backupPath, content);
-
-    return entry;
+  /**
+   * Back up a file that is about to be rewritten in place. The entry records
+   * where the file is when it is rewritten and a hash of the new content, so
+   * a restore can tell the rewrite apart from edits made after it.
+   */
+  async backupModification(
+    filePath: string,
+    newContent: string | Buffer,
+    rewrittenPath: string = filePath
+  ): Promise<BackupEntry> {
+    const entry = await this.backupFile(filePath, 'modify');
+    return { ...entry, sourcePath: rewrittenPath, resultHash: hashBuffer(Buffer.from(newContent)) };
   }
 
-  async createManifest(operations: BackupEntry[]): Promise<BackupManifest> {
+  async createManifest(
+    operations: BackupEntry[],
+    createdDirectories: string[] = []
+  ): Promise<BackupManifest> {
     await this.ensureBackupDir();
 
     const manifest: BackupManifest = {
       id: randomUUID(),
       timestamp: new Date(),
       operations,
+      createdDirectories,
       reversible: true,
     };
 
-    // Persist manifest
-    const manifestPath = path.join(this.backupDir, `${manifest.id}.json`);
-    await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+    await this.writeManifest(manifest);
 
     return manifest;
   }
 
-  async restore(manifestId: string): Promise<void> {
+  /**
+   * Persist changes to a manifest, e.g. directories created while its
+   * operations ran
+   */
+  async updateManifest(manifest: BackupManifest): Promise<void> {
+    await this.ensureBackupDir();
+    await this.writeManifest(manifest);
+  }
+
+  /**
+   * Undo a manifest: replay its operations in reverse, putting each file
+   * back at its original path and removing the copy a move left at its
+   * target, then remove the directories the operations created if they are
+   * empty. Paths that changed since the backup abort the restore before
+   * anything is touched, unless forced.
+   */
+  async restore(manifestId: string, options: RestoreOptions = {}): Promise<RestoreResult> {
     const manifestPath = path.join(this.backupDir, `${manifestId}.json`);
     const manifestContent = await fs.readFile(manifestPath, 'utf-8');
     const manifest: BackupManifest = JSON.parse(manifestContent);
+    const operations = manifest.operations
+      .filter((operation) => !options.entryIds || options.entryIds.includes(operation.id))
+      .reverse();
+
+    // Fail on missing or corrupt backups before any file is touched
+    for (const operation of operations) {
+      await this.readBackup(operation);
+    }
+
+    // A file rewritten after it moved is expected at its target with the
+    // rewritten content
+    const rewrittenHashes = new Map<string, string>();
+    for (const operation of operations) {
+      if (operation.operation === 'modify' && operation.resultHash) {
+        rewrittenHashes.set(operation.sourcePath, operation.resultHash);
+      }
+    }
+
+    const conflicts: RestoreConflict[] = [];
+    for (const operation of operations) {
+      conflicts.push(...(await this.findConflicts(operation, rewrittenHashes)));
+    }
 
-    for (const operation of manifest.operations) {
-      await this.restoreOperation(operation);
+    if (conflicts.length > 0 && !options.force) {
+      throw new Error(
+        `Restore aborted: ${conflicts.length} path(s) changed since the backup:\n` +
+        conflicts.map((c) => `  - ${c.path}: ${c.reason}`).join('\n') +
+        '\nResolve them, or restore with --force to overwrite them.'
+      );
     }
+
+    const result: RestoreResult = { restored: [], removed: [], removedDirectories: [], conflicts };
+
+    for (const operation of operations) {
+      await this.restoreOperation(operation, result);
+    }
+
+    // Children were recorded after their parents, so remove in reverse
+    for (const dir of [...(manifest.createdDirectories ?? [])].reverse()) {
+      try {
+        await fs.rmdir(dir);
+        result.removedDirectories.push(dir);
+      } catch {
+        // Not empty (holds files the backup doesn't know about) or already gone
+      }
+    }
+
+    return result;
+  }
+
+  private async findConflicts(
+    operation: BackupEntry,
+    rewrittenHashes: Map<string, string>
+  ): Promise<RestoreConflict[]> {
+    const conflicts: RestoreConflict[] = [];
+    const backedUp = operation.contentHash;
+    if (!backedUp) {
+      // Manifests written before hashes were recorded cannot be checked
+      return conflicts;
+    }
+
+    if (operation.operation === 'move' && operation.targetPath && !this.isSamePath(operation)) {
+      const targetHash = await this.readHash(operation.targetPath);
+      const expected = rewrittenHashes.get(operation.targetPath) ?? backedUp;
+      if (targetHash !== null && targetHash !== expected) {
+        conflicts.push({ path: operation.targetPath, reason: 'modified after it was moved' });
+      }
+
+      const sourceHash = await this.readHash(operation.sourcePath);
+      if (sourceHash !== null && sourceHash !== backedUp) {
+        conflicts.push({ path: operation.sourcePath, reason: 'a different file now exists at the original path' });
+      }
+    }
+
+    if (operation.operation === 'modify' && operation.resultHash) {
+      const currentHash = await this.readHash(operation.sourcePath);
+      if (currentHash !== null && currentHash !== operation.resultHash) {
+        conflicts.push({ path: operation.sourcePath, reason: 'modified after it was rewritten' });
+      }
+    }
+
+    if (operation.operation === 'delete') {
+      const sourceHash = await this.readHash(operation.sourcePath);
+      if (sourceHash !== null && sourceHash !== backedUp) {
+        conflicts.push({ path: operation.sourcePath, reason: 'recreated with different content after it was deleted' });
+      }
+    }
+
+    return conflicts;
   }
 
-  private async restoreOperation(operation: BackupEntry): Promise<void> {
-    const backupPath = path.join(this.backupDir, operation.id);
-    const content = await fs.readFile(backupPath, 'utf-8');
+  private async restoreOperation(operation: BackupEntry, result: RestoreResult): Promise<void> {
+    const content = await this.readBackup(operation);
+
+    // Remove the moved copy first: for a case-only rename on a
+    // case-insensitive file system it is the same file as the source
+    if (operation.operation === 'move' && operation.targetPath && operation.targetPath !== operation.sourcePath) {
+      try {
+        await fs.unlink(operation.targetPath);
+        result.removed.push(operation.targetPath);
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    }
 
     // Ensure parent directory exists
     const parentDir = path.dirname(operation.sourcePath);
@@ -80,6 +239,41 @@ export class BackupManager implements ICanBackupFiles, ICanRestoreFiles {
 
     // Restore permissions
     await fs.chmod(operation.sourcePath, operation.metadata.mode);
+
+    result.restored.push(operation.sourcePath);
+  }
+
+  /**
+   * The backed-up bytes, verified against the entry's hash. Entries written
+   * before the object store keep their content in a file named by entry id.
+   */
+  private async readBackup(operation: BackupEntry): Promise<Buffer> {
+    if (operation.contentHash && (await this.blobs.has(operation.contentHash))) {
+      return this.blobs.get(operation.contentHash);
+    }
+
+    try {
+      return await fs.readFile(path.join(this.backupDir, operation.id));
+    } catch {
+      throw new Error(`Backup content for ${operation.sourcePath} is missing (entry ${operation.id})`);
+    }
+  }
+
+  private isSamePath(operation: BackupEntry): boolean {
+    return operation.targetPath!.toLowerCase() === operation.sourcePath.toLowerCase();
+  }
+
+  private async readHash(filePath: string): Promise<string | null> {
+    try {
+      return hashBuffer(await fs.readFile(filePath));
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeManifest(manifest: BackupManifest): Promise<void> {
+    const manifestPath = path.join(this.backupDir, `${manifest.id}.json`);
+    await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2));
   }
 
   async listBackups(): Promise<BackupManifest[]> {
@@ -116,6 +310,118 @@ export class BackupManager implements ICanBackupFiles, ICanRestoreFiles {
     }
   }
 
+  /**
+   * Remove backups older than olderThanDays or beyond the newest keep, then
+   * collect the stored contents no remaining backup refers to. Without
+   * either limit the configured retentionDays and maxBackups apply.
+   */
+  async prune(options: PruneOptions = {}): Promise<PruneResult> {
+    const useConfigured = options.olderThanDays === undefined && options.keep === undefined;
+    const olderThanDays = useConfigured ? this.options.retentionDays : options.olderThanDays;
+    const keep = useConfigured ? this.options.maxBackups : options.keep;
+
+    if (olderThanDays !== undefined && !(olderThanDays >= 0)) {
+      throw new Error(`Invalid backup age: ${olderThanDays}. Use a number of days of 0 or more`);
+    }
+    if (keep !== undefined && !(Number.isInteger(keep) && keep >= 0)) {
+      throw new Error(`Invalid backup count: ${keep}. Use a whole number of 0 or more`);
+    }
+
+    // Preserved first, then newest first, so the first `keep` are retained
+    const preserve = new Set(options.preserve ?? []);
+    const listed = await this.listBackups();
+    const manifests = [
+      ...listed.filter((manifest) => preserve.has(manifest.id)),
+      ...listed.filter((manifest) => !preserve.has(manifest.id)),
+    ];
+    const cutoff = olderThanDays === undefined ? undefined : Date.now() - olderThanDays * DAY_MS;
+    const removed = manifests.filter((manifest, index) =>
+      !preserve.has(manifest.id) && (
+        (keep !== undefined && index >= keep) ||
+        (cutoff !== undefined && manifest.timestamp.getTime() < cutoff)
+      )
+    );
+    const kept = manifests.filter((manifest) => !removed.includes(manifest));
+
+    const result: PruneResult = { removed, kept: kept.length, objectsRemoved: 0, bytesFreed: 0 };
+
+    for (const manifest of removed) {
+      result.bytesFreed += await this.removeManifest(manifest, options.dryRun);
+    }
+
+    const collected = await this.collectGarbage(kept, options.dryRun);
+    result.objectsRemoved = collected.objects;
+    result.bytesFreed += collected.bytes;
+
+    return result;
+  }
+
+  /**
+   * Disk usage of the backup store
+   */
+  async getStorageStats(): Promise<BackupStorageStats> {
+    const manifests = await this.listBackups();
+    const blobs = await this.blobs.list();
+
+    let bytes = blobs.reduce((total, blob) => total + blob.size, 0);
+    for (const manifest of manifests) {
+      bytes += (await fs.stat(path.join(this.backupDir, `${manifest.id}.json`))).size;
+    }
+
+    return { backups: manifests.length, objects: blobs.length, bytes };
+  }
+
+  /**
+   * Delete a manifest and any legacy per-entry content files, returning
+   * the bytes freed (or that would be, in a dry run). Its objects are left to garbage collection, since
+   * other manifests may share them.
+   */
+  private async removeManifest(manifest: BackupManifest, dryRun = false): Promise<number> {
+    let bytes = 0;
+    const files = [
+      `${manifest.id}.json`,
+      ...manifest.operations.filter((op) => !op.contentHash).map((op) => op.id),
+    ];
+
+    for (const file of files) {
+      const filePath = path.join(this.backupDir, file);
+      try {
+        const stats = await fs.stat(filePath);
+        if (!dryRun) await fs.unlink(filePath);
+        bytes += stats.size;
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    }
+
+    return bytes;
+  }
+
+  /**
+   * Delete stored objects that none of the given manifests refer to
+   */
+  private async collectGarbage(
+    manifests: BackupManifest[],
+    dryRun = false
+  ): Promise<{ objects: number; bytes: number }> {
+    const referenced = new Set<string>();
+    for (const manifest of manifests) {
+      for (const operation of manifest.operations) {
+        if (operation.contentHash) referenced.add(operation.contentHash);
+      }
+    }
+
+    let objects = 0;
+    let bytes = 0;
+    for (const blob of await this.blobs.list()) {
+      if (referenced.has(blob.hash)) continue;
+      objects++;
+      bytes += dryRun ? blob.size : await this.blobs.delete(blob.hash);
+    }
+
+    return { objects, bytes };
+  }
+
   private async ensureBackupDir(): Promise<void> {
     await fs.mkdir(this.backupDir, { recursive: true });
   }
@@ -0,0 +1,150 @@
+/**
+ * Blob Store
+ * Content-addressed storage for backup contents. Each blob is the exact
+ * bytes of a file, stored once under its SHA-256 (objects/ab/cdef...), so
+ * identical files are deduplicated across runs.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { gzip, gunzip } from 'zlib';
+import { promisify } from 'util';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export interface BlobStoreOptions {
+  compress?: boolean;  // gzip new blobs; existing blobs are read either way
+}
+
+export interface StoredBlob {
+  hash: string;
+  size: number;  // Bytes on disk, after compression
+}
+
+export function hashBuffer(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export class BlobStore {
+  constructor(
+    private objectsDir: string,
+    private options: BlobStoreOptions = {}
+  ) {}
+
+  /**
+   * Store content and return its hash. Content already in the store is not
+   * written again.
+   */
+  async put(content: Buffer): Promise<string> {
+    const hash = hashBuffer(content);
+    if (await this.find(hash)) {
+      return hash;
+    }
+
+    const filePath = this.blobPath(hash, this.options.compress ?? false);
+    const data = this.options.compress ? await gzipAsync(content) : content;
+
+    // Write then rename, so an interrupted backup never leaves a partial blob
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+
+    return hash;
+  }
+
+  /**
+   * Read a blob and check it still matches its hash
+   */
+  async get(hash: string): Promise<Buffer> {
+    const filePath = await this.find(hash);
+    if (!filePath) {
+      throw new Error(`Backup object ${hash} is missing from ${this.objectsDir}`);
+    }
+
+    let content = await fs.readFile(filePath);
+    if (filePath.endsWith('.gz')) {
+      try {
+        content = await gunzipAsync(content);
+      } catch (error: any) {
+        throw new Error(`Backup object ${hash} is corrupt: ${error.message}`);
+      }
+    }
+
+    if (hashBuffer(content) !== hash) {
+      throw new Error(`Backup object ${hash} is corrupt: content does not match its hash`);
+    }
+
+    return content;
+  }
+
+  async has(hash: string): Promise<boolean> {
+    return (await this.find(hash)) !== null;
+  }
+
+  /**
+   * Every stored blob with its size on disk
+   */
+  async list(): Promise<StoredBlob[]> {
+    const blobs: StoredBlob[] = [];
+
+    let prefixes: string[];
+    try {
+      prefixes = await fs.readdir(this.objectsDir);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return blobs;
+      throw error;
+    }
+
+    for (const prefix of prefixes) {
+      const dir = path.join(this.objectsDir, prefix);
+      const names = await fs.readdir(dir).catch(() => [] as string[]);
+      for (const name of names) {
+        const hash = prefix + name.replace(/\.gz$/, '');
+        // Skips in-progress temp files and anything else that isn't a blob
+        if (!/^[0-9a-f]{64}$/.test(hash)) continue;
+        const stats = await fs.stat(path.join(dir, name));
+        blobs.push({ hash, size: stats.size });
+      }
+    }
+
+    return blobs;
+  }
+
+  /**
+   * Remove a blob, returning the bytes freed (0 if it was not stored)
+   */
+  async delete(hash: string): Promise<number> {
+    const filePath = await this.find(hash);
+    if (!filePath) return 0;
+
+    const { size } = await fs.stat(filePath);
+    await fs.unlink(filePath);
+    // Drop the prefix directory once its last blob is gone
+    await fs.rmdir(path.dirname(filePath)).catch(() => {});
+
+    return size;
+  }
+
+  private async find(hash: string): Promise<string | null> {
+    for (const compressed of [false, true]) {
+      const filePath = this.blobPath(hash, compressed);
+      try {
+        await fs.access(filePath);
+        return filePath;
+      } catch {
+        // Try the other encoding
+      }
+    }
+    return null;
+  }
+
+  private blobPath(hash: string, compressed: boolean): string {
+    if (!/^[0-9a-f]{64}$/.test(hash)) {
+      throw new Error(`Invalid backup object hash: ${hash}`);
+    }
+    return path.join(this.objectsDir, hash.slice(0, 2), hash.slice(2) + (compressed ? '.gz' : ''));
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Classification Cache
+ *
+ * AI classifications of a project's files, kept in .devibe/cache so files
+ * that have not changed are not sent to the model again. An entry is keyed
+ * by the model id and a hash of the file's name and content, and the whole
+ * cache is dropped when the classification prompts change.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { FileCategory, FileClassification } from './types.js';
+
+// Bump when the classification prompts change, so older answers are not reused
+export const CLASSIFICATION_PROMPT_VERSION = 1;
+
+export const CLASSIFICATION_CACHE_DIR = path.join('.devibe', 'cache');
+
+interface CachedClassification {
+  path: string;  // Relative to the project root, where the file was last classified
+  modelId: string;
+  category: FileCategory;
+  confidence: number;
+  reasoning: string;
+}
+
+interface ClassificationCacheData {
+  promptVersion: number;
+  entries: Record<string, CachedClassification>;
+}
+
+export class ClassificationCache {
+  private changed = false;
+
+  private constructor(
+    private rootPath: string,
+    private cachePath: string,
+    private entries: Map<string, CachedClassification>
+  ) {}
+
+  /**
+   * The cache of a project, in .devibe/cache/classifications.json
+   */
+  static async forProject(rootPath: string): Promise<ClassificationCache> {
+    const root = path.resolve(rootPath);
+    const cachePath = path.join(root, CLASSIFICATION_CACHE_DIR, 'classifications.json');
+    return new ClassificationCache(root, cachePath, await readCache(cachePath));
+  }
+
+  /**
+   * Remove a project's cached classifications; returns how many there were.
+   * Other caches in .devibe/cache, such as the reference index, are left alone.
+   */
+  static async clear(rootPath: string): Promise<number> {
+    const cache = await ClassificationCache.forProject(rootPath);
+    await fs.rm(cache.cachePath, { force: true });
+    return cache.entries.size;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * The cached classification of this content by this model, for filePath
+   */
+  get(filePath: string, content: string, modelId: string): FileClassification | null {
+    const entry = this.entries.get(cacheKey(filePath, content, modelId));
+    if (!entry) return null;
+
+    return {
+      path: filePath,
+      category: entry.category,
+      confidence: entry.confidence,
+      reasoning: entry.reasoning,
+    };
+  }
+
+  set(classification: FileClassification, content: string, modelId: string): void {
+    this.entries.set(cacheKey(classification.path, content, modelId), {
+      path: toRelative(this.rootPath, classification.path),
+      modelId,
+      category: classification.category,
+      confidence: classification.confidence,
+      reasoning: classification.reasoning,
+    });
+    this.changed = true;
+  }
+
+  /**
+   * Write new entries to disk; a read-only checkout just goes uncached
+   */
+  async save(): Promise<void> {
+    if (!this.changed) return;
+
+    const data: ClassificationCacheData = {
+      promptVersion: CLASSIFICATION_PROMPT_VERSION,
+      entries: Object.fromEntries(this.entries),
+    };
+    try {
+      await fs.mkdir(path.dirname(this.cachePath), { recursive: true });
+      await fs.writeFile(this.cachePath, JSON.stringify(data));
+      this.changed = false;
+    } catch {
+      // Not writable: classify again next time
+    }
+  }
+
+  /**
+   * Per model id, how many cached files are still unchanged on disk and
+   * would be answered from the cache
+   */
+  async countUnchanged(): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    const contents = new Map<string, string | null>();
+
+    for (const entry of this.entries.values()) {
+      const filePath = path.join(this.rootPath, ...entry.path.split('/'));
+      if (!contents.has(filePath)) {
+        contents.set(filePath, await fs.readFile(filePath, 'utf-8').catch(() => null));
+      }
+
+      const content = contents.get(filePath);
+      if (content != null && this.entries.has(cacheKey(filePath, content, entry.modelId))) {
+        counts.set(entry.modelId, (counts.get(entry.modelId) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }
+}
+
+/**
+ * The model sees the file name as well as the content, so both are hashed
+ */
+function cacheKey(filePath: string, content: string, modelId: string): string {
+  const hash = createHash('sha256').update(path.basename(filePath)).update('\0').update(content).digest('hex');
+  return `${modelId}:${hash}`;
+}
+
+async function readCache(cachePath: string): Promise<Map<string, CachedClassification>> {
+  try {
+    const data: ClassificationCacheData = JSON.parse(await fs.readFile(cachePath, 'utf-8'));
+    if (data.promptVersion === CLASSIFICATION_PROMPT_VERSION && data.entries) {
+      return new Map(Object.entries(data.entries));
+    }
+  } catch {
+    // Missing or unreadable: start empty
+  }
+  return new Map();
+}
+
+function toRelative(rootPath: string, filePath: string): string {
+  return path.relative(rootPath, path.resolve(filePath)).split(path.sep).join('/');
+}
@@ -1,22 +1,42 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
 import { GitDetector } from './git-detector.js';
-import { SecretScanner } from './secret-scanner.js';
+import { SecretScanner, ALLOW_SECRET_MARKER } from './secret-scanner.js';
+import { SecretsBaseline, SECRETS_BASELINE_FILE } from './secrets-baseline.js';
 import { FileClassifier } from './file-classifier.js';
 import { OperationPlanner, OperationExecutor } from './operation-executor.js';
 import { BackupManager } from './backup-manager.js';
+import { ClassificationCache, CLASSIFICATION_CACHE_DIR } from './classification-cache.js';
+import { PlanFile } from './plan-file.js';
+import { PlanReviewer, createInquirerPrompter } from './plan-reviewer.js';
 import { BuildDetector, BuildValidationService } from './build-validator.js';
 import { YoloMode } from './yolo-mode.js';
-import { ConfigManager } from './config.js';
+import { ConfigManager, type UnVibeConfig } from './config.js';
 import { AIClassifierFactory } from './ai-classifier.js';
 import { TestOrganizer, createTestOrganizer } from './test-organizer.js';
 import { RulePackValidator, formatValidationResult } from './rulepack-validator.js';
+import { parseRulePackContent } from './rulepack-loader.js';
+import { RulePackEngine } from './rulepack-engine.js';
+import { RulePackComposer, formatProvenance } from './rulepack-composer.js';
+import { RulePackManager } from './rulepack-manager.js';
+import { CustomRuleRunner } from './custom-rules.js';
+import { NamingConventionChecker } from './naming-convention-checker.js';
 import { RepoBestPracticesAnalyzer, formatBestPracticesReport } from './repo-best-practices.js';
 import { getKeyManager } from './ai-key-manager.js';
 import { getPreferencesManager } from './user-preferences.js';
 import { AVAILABLE_MODELS, selectModel, compareModels, estimateCost, type ModelConfig } from './ai-model-config.js';
+import {
+  REPORT_FORMATS,
+  parseReportFormat,
+  serializeReport,
+  type CheckPrReport,
+  type MachineReport,
+  type ReportFormat,
+} from './report-formatter.js';
+import type { ExecutionResult, GitExecutionOptions, OperationPlan, SecretScanResult } from './types.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import yaml from 'js-yaml';
 
 const program = new Command();
 
@@ -218,20 +238,81 @@ program
   .command('scan')
   .description('Scan for secrets in files')
   .option('-p, --path <path>', 'Path to scan', process.cwd())
+  .option('--update-baseline', `Accept all current findings into ${SECRETS_BASELINE_FILE}`)
+  .option('--history', 'Scan lines added by every commit (git log -p)')
+  .option('--since <date>', 'With --history, only scan commits after this date')
+  .option('--staged', 'Scan only staged changes (for pre-commit hooks)')
+  .option('--format <format>', `Output format: ${REPORT_FORMATS.join(', ')}`, 'text')
+  .option('--output <file>', 'Write the json, sarif or junit report to a file')
   .action(async (options) => {
-    const scanner = new SecretScanner();
-    const files = await findSourceFiles(options.path);
+    let format: ReportFormat;
+    let scanner: SecretScanner;
+    let baseline: SecretsBaseline;
+    try {
+      format = resolveReportFormat(options);
+      scanner = await SecretScanner.forProject(options.path);
+      baseline = await SecretsBaseline.load(options.path);
+    } catch (error: any) {
+      console.error(`\n❌ ${error.message}\n`);
+      process.exit(1);
+    }
 
-    if (files.length === 0) {
-      console.log('\n⚠️  No source files found to scan.');
+    // Machine-readable formats keep stdout clean for the report
+    const log = format === 'text' ? console.log : () => {};
+    let fullResult: SecretScanResult;
+
+    if (options.history || options.staged) {
+      const { GitSecretScanner } = await import('./git-secret-scanner.js');
+      const gitScanner = new GitSecretScanner(scanner);
+
+      log(options.staged
+        ? '\nScanning staged changes for secrets...\n'
+        : '\nScanning git history for secrets...\n');
+
+      try {
+        fullResult = options.staged
+          ? await gitScanner.scanStaged(options.path)
+          : await gitScanner.scanHistory(options.path, { since: options.since });
+      } catch (error: any) {
+        console.error(`❌ ${error.message}\n`);
+        process.exit(1);
+      }
+    } else {
+      const files = await findSourceFiles(options.path);
+
+      if (files.length === 0 && format === 'text') {
+        console.log('\n⚠️  No source files found to scan.');
+        return;
+      }
+
+      log(`\nScanning ${files.length} files for secrets...\n`);
+
+      fullResult = await scanner.scanFiles(files);
+    }
+
+    log(`✓ Scanned ${fullResult.filesScanned} files in ${fullResult.duration}ms\n`);
+
+    if (options.updateBaseline) {
+      const updated = await SecretsBaseline.save(options.path, fullResult.findings);
+      console.log(`✓ Recorded ${updated.size} finding(s) in ${SECRETS_BASELINE_FILE}`);
+      console.log('   Review them, then commit the baseline (it lives in .devibe/, so use git add -f).\n');
       return;
     }
 
-    console.log(`\nScanning ${files.length} files for secrets...\n`);
+    const result = baseline.apply(fullResult);
 
-    const result = await scanner.scanFiles(files);
+    if (format !== 'text') {
+      await emitReport({ kind: 'scan', result, patterns: scanner.getPatterns() }, format, options);
+      // Hooks rely on the exit code to block the commit or push
+      if ((options.staged || options.history) && result.summary.critical > 0) {
+        process.exit(1);
+      }
+      return;
+    }
 
-    console.log(`✓ Scanned ${result.filesScanned} files in ${result.duration}ms\n`);
+    if (result.baselined) {
+      console.log(`ℹ️  ${result.baselined} known finding(s) hidden by ${SECRETS_BASELINE_FILE}\n`);
+    }
 
     if (result.secretsFound === 0) {
       console.log('✓ No secrets detected. You\'re all good!');
@@ -247,6 +328,9 @@ program
       for (const finding of topFindings) {
         console.log(`  ${getSeverityIcon(finding.severity)} ${finding.file}:${finding.line}`);
         console.log(`     Type: ${finding.type}`);
+        if (finding.commit) {
+          console.log(`     Commit: ${finding.commit.slice(0, 8)} by ${finding.author}`);
+        }
         console.log(`     Context: ${finding.context}`);
         console.log(`     Fix: ${finding.recommendation}\n`);
       }
@@ -255,7 +339,17 @@ program
         console.log(`   ... and ${result.findings.length - 5} more findings.\n`);
       }
 
-      console.log('⚠️  Please review and remove secrets before committing.\n');
+      if (options.history) {
+        console.log('⚠️  Secrets in history stay readable after deletion. Rotate them, then rewrite history if needed.');
+      } else {
+        console.log('⚠️  Please review and remove secrets before committing.');
+      }
+      console.log(`   False positive? Add a "${ALLOW_SECRET_MARKER}" comment or run: devibe scan --update-baseline\n`);
+
+      // Hooks rely on the exit code to block the commit or push
+      if ((options.staged || options.history) && result.summary.critical > 0) {
+        process.exit(1);
+      }
     }
   });
 
@@ -328,6 +422,10 @@ program
   .option('--no-ai', 'Use heuristics only (no AI)', false)
   .option('--consolidate-docs <mode>', 'Consolidate markdown docs: safe or aggressive', 'none')
   .option('--no-usage-check', 'Skip usage detection for faster processing', false)
+  .option('--no-cache', 'Classify every file with AI again instead of reusing cached classifications')
+  .option('--rulepack <ref>', 'Apply a rule pack by name or path (repeatable)', (val, prev: string[]) => [...prev, val], [])
+  .option('--out <file>', 'Save the plan for review and "devibe execute --plan"')
+  .option('-i, --interactive', 'Accept, reject or retarget each operation', false)
   .action(async (options) => {
     // Handle --auto mode
     if (options.auto) {
@@ -352,6 +450,7 @@ program
         const preview = await autoExecutor.preview({
           path: options.path,
           verbose: options.verbose,
+          cache: options.cache,
           onProgress: (current, total, message) => {
             if (options.verbose) {
               console.log(`  [${current}/${total}] ${message}`);
@@ -406,6 +505,11 @@ program
         }
 
         console.log(`Estimated duration: ${preview.estimatedDuration}ms\n`);
+
+        if (options.out) {
+          await savePlan(options.out, { ...preview, backupRequired: true }, options.path);
+          return;
+        }
         console.log('Run "devibe execute --auto" to apply these changes.\n');
 
       } catch (error) {
@@ -416,8 +520,13 @@ program
     }
 
     // Original plan logic
+    console.log('\n📋 Planning root file distribution...\n');
+
+    const rulePackEngine = await loadRulePackEngine(options.path, options.rulepack);
     const detector = new GitDetector();
-    const classifier = new FileClassifier();
+    const classifier = new FileClassifier(rulePackEngine?.getClassificationRules(), options.path);
+    const cache = options.cache === false ? null : await ClassificationCache.forProject(options.path);
+    classifier.setCache(cache);
 
     // Conditionally create usage detector
     let usageDetector = undefined;
@@ -426,9 +535,7 @@ program
       usageDetector = new UsageDetector();
     }
 
-    const planner = new OperationPlanner(detector, classifier, usageDetector);
-
-    console.log('\n📋 Planning root file distribution...\n');
+    const planner = new OperationPlanner(detector, classifier, usageDetector, undefined, rulePackEngine ?? undefined);
 
     // Show AI startup banner if AI is available
     const aiAvailable = await AIClassifierFactory.isAvailable();
@@ -457,7 +564,7 @@ program
     const startTime = Date.now();
     let lastFileTime = startTime;
     
-    const plan = await planner.planRootFileDistribution(options.path, (current, total, file) => {
+    let plan = await planner.planRootFileDistribution(options.path, (current, total, file) => {
       const now = Date.now();
       const fileTime = now - lastFileTime;
       const avgTime = (now - startTime) / current;
@@ -481,6 +588,7 @@ program
         lastProgressLine = progressLine;
       }
     });
+    await cache?.save();
     
     // Clear progress line and move to new line
     if (!options.verbose && lastProgressLine) {
@@ -493,6 +601,10 @@ program
       return;
     }
 
+    if (options.interactive) {
+      plan = await reviewPlan(plan, options.path);
+    }
+
     // Show warnings first
     if (plan.warnings.length > 0) {
       console.log('⚠️  Warnings:\n');
@@ -533,6 +645,11 @@ program
 
     console.log(`Estimated duration: ${plan.estimatedDuration}ms`);
     console.log(`Backup required: ${plan.backupRequired ? 'Yes' : 'No'}\n`);
+
+    if (options.out) {
+      await savePlan(options.out, plan, options.path);
+      return;
+    }
     console.log('Run "devibe execute" to apply these changes.\n');
   });
 
@@ -546,7 +663,29 @@ program
   .option('--no-ai', 'Use heuristics only (no AI)', false)
   .option('--consolidate-docs <mode>', 'Consolidate markdown docs: safe or aggressive', 'none')
   .option('--no-usage-check', 'Skip usage detection for faster processing', false)
+  .option('--no-cache', 'Classify every file with AI again instead of reusing cached classifications')
+  .option('--rulepack <ref>', 'Apply a rule pack by name or path (repeatable)', (val, prev: string[]) => [...prev, val], [])
+  .option('--atomic', 'Check every operation first and undo all of them if one fails', false)
+  .option('--plan <file>', 'Apply a plan saved by "devibe plan --out" instead of planning again')
+  .option('-i, --interactive', 'Accept, reject or retarget each operation before executing', false)
+  .option('--no-rewrite-references', 'Leave imports, links and script paths to moved files as they are')
+  .option('--no-git', 'Move and delete tracked files without git mv and git rm')
+  .option('--commit', 'Commit the moves, deletions and reference updates (one commit per repository)', false)
   .action(async (options) => {
+    if (options.commit && options.git === false) {
+      console.error('❌ --commit cannot be combined with --no-git\n');
+      process.exit(1);
+    }
+
+    if (options.plan) {
+      if (options.auto) {
+        console.error('❌ --plan cannot be combined with --auto\n');
+        process.exit(1);
+      }
+      await executeSavedPlan(options);
+      return;
+    }
+
     // Handle --auto mode
     if (options.auto) {
       const { AutoExecutor } = await import('./auto-executor.js');
@@ -576,6 +715,7 @@ program
           dryRun: options.dryRun,
           verbose: options.verbose,
           consolidateDocs: options.consolidateDocs || 'none',
+          cache: options.cache,
           onProgress: (current, total, message) => {
             if (options.verbose) {
               console.log(`  [${current}/${total}] ${message}`);
@@ -623,8 +763,13 @@ program
     }
 
     // Original execute logic
+    console.log(`\n${options.dryRun ? '🔍 DRY RUN: ' : '⚡ '}Executing operations...\n`);
+
+    const rulePackEngine = await loadRulePackEngine(options.path, options.rulepack);
     const detector = new GitDetector();
-    const classifier = new FileClassifier();
+    const classifier = new FileClassifier(rulePackEngine?.getClassificationRules(), options.path);
+    const cache = options.cache === false ? null : await ClassificationCache.forProject(options.path);
+    classifier.setCache(cache);
     
     // Conditionally create usage detector
     let usageDetector = undefined;
@@ -633,12 +778,10 @@ program
       usageDetector = new UsageDetector();
     }
     
-    const planner = new OperationPlanner(detector, classifier, usageDetector);
-    const backupManager = new BackupManager(path.join(options.path, '.unvibe', 'backups'));
+    const planner = new OperationPlanner(detector, classifier, usageDetector, undefined, rulePackEngine ?? undefined);
+    const backupManager = await BackupManager.forProject(options.path);
     const executor = new OperationExecutor(backupManager);
 
-    console.log(`\n${options.dryRun ? '🔍 DRY RUN: ' : '⚡ '}Executing operations...\n`);
-
     // Show AI startup banner if AI is available
     const aiAvailable = await AIClassifierFactory.isAvailable();
     if (aiAvailable) {
@@ -670,7 +813,7 @@ program
     const startTime = Date.now();
     let lastFileTime = startTime;
     
-    const plan = await planner.planRootFileDistribution(options.path, (current, total, file) => {
+    let plan = await planner.planRootFileDistribution(options.path, (current, total, file) => {
       const now = Date.now();
       const fileTime = now - lastFileTime;
       const avgTime = (now - startTime) / current;
@@ -693,6 +836,7 @@ program
         lastProgressLine = progressLine;
       }
     });
+    await cache?.save();
     
     if (!options.verbose && lastProgressLine) {
       process.stdout.write('\r' + ' '.repeat(lastProgressLine.length) + '\r');
@@ -713,14 +857,42 @@ program
       console.log('');
     }
 
-    const result = await executor.execute(plan, options.dryRun);
+    if (options.interactive) {
+      plan = await reviewPlan(plan, options.path);
+      if (plan.operations.length === 0) {
+        console.log('\n✓ No operations accepted. Nothing to execute.\n');
+        return;
+      }
+    }
+
+    const result = await executor.execute(plan, options.dryRun, {
+      atomic: options.atomic,
+      repositories: options.atomic ? (await detector.detectRepositories(options.path)).repositories : undefined,
+      rewriteReferencesIn: options.rewriteReferences ? options.path : undefined,
+      git: await gitExecutionOptions(options, detector),
+    });
 
     if (result.success) {
       console.log(`✓ Successfully completed ${result.operationsCompleted} operations\n`);
+      printReferencesUpdated(result, options.path);
+      printCommits(result);
       if (result.backupManifestId && !options.dryRun) {
         console.log(`📦 Backup created: ${result.backupManifestId}\n`);
         console.log(`   Restore with: devibe restore ${result.backupManifestId}\n`);
       }
+    } else if (options.atomic) {
+      console.log(`❌ Atomic execution failed\n`);
+      for (const error of result.errors) {
+        console.log(`  ❌ ${error}`);
+      }
+      if (result.rollback) {
+        console.log(`\n↩️  Rolled back ${result.rollback.operations.length} completed operation(s):`);
+        for (const op of result.rollback.operations) {
+          console.log(`  ${op.type} ${op.sourcePath}${op.targetPath ? ` → ${op.targetPath}` : ''}`);
+        }
+      }
+      console.log();
+      process.exit(1);
     } else {
       console.log(`⚠️  Completed ${result.operationsCompleted}, failed ${result.operationsFailed}\n`);
       for (const error of result.errors) {
@@ -731,20 +903,32 @@ program
 
 program
   .command('enforce')
-  .description('Enforce folder structure (scripts/, documents/)')
+  .description('Enforce folder structure (scripts/, documents/ or the rule pack structure)')
   .option('-p, --path <path>', 'Repository path', process.cwd())
   .option('--dry-run', 'Show what would be done', false)
+  .option('--rulepack <ref>', 'Apply a rule pack by name or path (repeatable)', (val, prev: string[]) => [...prev, val], [])
+  .option('--no-rewrite-references', 'Leave imports, links and script paths to moved files as they are')
+  .option('--no-git', 'Move and delete tracked files without git mv and git rm')
   .action(async (options) => {
+    console.log(`\n${options.dryRun ? '🔍 DRY RUN: ' : '📁 '}Enforcing folder structure...\n`);
+
+    const rulePackEngine = await loadRulePackEngine(options.path, options.rulepack);
     const detector = new GitDetector();
-    const classifier = new FileClassifier();
-    const planner = new OperationPlanner(detector, classifier);
-    const backupManager = new BackupManager(path.join(options.path, '.unvibe', 'backups'));
+    const classifier = new FileClassifier(rulePackEngine?.getClassificationRules(), options.path);
+    const planner = new OperationPlanner(detector, classifier, undefined, undefined, rulePackEngine ?? undefined);
+    const backupManager = await BackupManager.forProject(options.path);
     const executor = new OperationExecutor(backupManager);
 
-    console.log(`\n${options.dryRun ? '🔍 DRY RUN: ' : '📁 '}Enforcing folder structure...\n`);
-
     const plan = await planner.planFolderEnforcement(options.path);
 
+    if (plan.warnings.length > 0) {
+      console.log('⚠️  Warnings:\n');
+      for (const warning of plan.warnings) {
+        console.log(`  ${warning}`);
+      }
+      console.log('');
+    }
+
     if (plan.operations.length === 0) {
       console.log('✓ Folder structure is already compliant!\n');
       return;
@@ -759,15 +943,124 @@ program
     }
     console.log();
 
-    const result = await executor.execute(plan, options.dryRun);
+    const result = await executor.execute(plan, options.dryRun, {
+      rewriteReferencesIn: options.rewriteReferences ? options.path : undefined,
+      git: await gitExecutionOptions(options, detector),
+    });
 
     if (result.success) {
       console.log(`✓ Folder structure enforced successfully!\n`);
+      printReferencesUpdated(result, options.path);
     } else {
       console.log(`⚠️  Some operations failed. See errors above.\n`);
     }
   });
 
+program
+  .command('naming')
+  .description('Check file and folder names against rule pack naming conventions')
+  .option('-p, --path <path>', 'Repository path', process.cwd())
+  .option('--fix', 'Rename violating files and folders (with backup)', false)
+  .option('--dry-run', 'With --fix, show the renames without running them', false)
+  .option('--rulepack <ref>', 'Apply a rule pack by name or path (repeatable)', (val, prev: string[]) => [...prev, val], [])
+  .option('--json', 'Output violations as JSON')
+  .option('--no-rewrite-references', 'Leave imports, links and script paths to moved files as they are')
+  .option('--no-git', 'Move and delete tracked files without git mv and git rm')
+  .action(async (options) => {
+    if (!options.json) {
+      console.log('\n🔤 Checking naming conventions...\n');
+    }
+
+    let rulePackEngine: RulePackEngine | null;
+    try {
+      rulePackEngine = await RulePackEngine.forProject(options.path, options.rulepack);
+    } catch (error: any) {
+      console.error(`❌ Failed to load rule packs: ${error.message}\n`);
+      process.exit(1);
+    }
+
+    const conventions = rulePackEngine?.getNamingConventions();
+    if (!rulePackEngine || !conventions || (!conventions.files?.length && !conventions.folders?.length)) {
+      console.log(options.json ? '[]' : 'ℹ️  No naming conventions configured. Add a rule pack with namingConventions.\n');
+      return;
+    }
+
+    let usageDetector;
+    if (options.fix) {
+      const { UsageDetector } = await import('./usage-detector.js');
+      usageDetector = new UsageDetector();
+    }
+
+    const detector = new GitDetector();
+    const checker = new NamingConventionChecker(
+      conventions,
+      detector,
+      usageDetector,
+      (file) => rulePackEngine!.isIgnored(file)
+    );
+    const violations = await checker.check(options.path);
+
+    if (options.json) {
+      console.log(JSON.stringify(violations, null, 2));
+      return;
+    }
+
+    if (violations.length === 0) {
+      console.log('✓ All names follow the configured conventions!\n');
+      return;
+    }
+
+    console.log(`Found ${violations.length} naming violation(s):\n`);
+    for (const violation of violations) {
+      console.log(`  ${violation.kind === 'folder' ? '📁' : '📄'} ${violation.relativePath}`);
+      console.log(`     ${violation.message}`);
+      console.log(`     → ${violation.suggestedName}`);
+    }
+    console.log();
+
+    if (!options.fix) {
+      console.log('💡 Run with --fix to rename them (a backup is created first)\n');
+      process.exit(1);
+    }
+
+    const plan = await checker.planRenames(options.path, violations);
+
+    if (plan.warnings.length > 0) {
+      console.log('⚠️  Warnings:\n');
+      for (const warning of plan.warnings) {
+        console.log(`  ${warning}`);
+      }
+      console.log();
+    }
+
+    if (plan.operations.length === 0) {
+      console.log('Nothing can be renamed automatically.\n');
+      return;
+    }
+
+    const backupManager = await BackupManager.forProject(options.path);
+    const executor = new OperationExecutor(backupManager);
+    const result = await executor.execute(plan, options.dryRun, {
+      rewriteReferencesIn: options.rewriteReferences ? options.path : undefined,
+      git: await gitExecutionOptions(options, detector),
+    });
+
+    if (options.dryRun) {
+      console.log(`🔍 DRY RUN: ${result.operationsCompleted} rename(s) would be made\n`);
+    } else if (result.success) {
+      console.log(`✓ Renamed ${result.operationsCompleted} file(s) and folder(s)\n`);
+      printReferencesUpdated(result, options.path);
+      if (result.backupManifestId) {
+        console.log(`   Restore with: devibe restore ${result.backupManifestId}\n`);
+      }
+    } else {
+      for (const error of result.errors) {
+        console.log(`  ❌ ${error}`);
+      }
+      console.log(`\n⚠️  ${result.operationsFailed} rename(s) failed.\n`);
+    }
+  });
+
 program
   .command('validate')
   .description('Validate build systems')
@@ -807,25 +1100,38 @@ program
   .command('restore <manifest-id>')
   .description('Restore from backup')
   .option('-p, --path <path>', 'Repository path', process.cwd())
+  .option('--force', 'Overwrite files that changed since the backup')
   .action(async (manifestId, options) => {
-    const backupManager = new BackupManager(path.join(options.path, '.unvibe', 'backups'));
+    const backupManager = await BackupManager.forProject(options.path);
 
     console.log(`\n♻️  Restoring from backup ${manifestId}...\n`);
 
     try {
-      await backupManager.restore(manifestId);
+      const result = await backupManager.restore(manifestId, { force: options.force });
+      console.log(`✓ Restored ${result.restored.length} file(s) to their original location`);
+      if (result.removed.length > 0) {
+        console.log(`✓ Removed ${result.removed.length} moved copies`);
+      }
+      if (result.removedDirectories.length > 0) {
+        console.log(`✓ Removed ${result.removedDirectories.length} created directories`);
+      }
+      for (const conflict of result.conflicts) {
+        console.log(`⚠️  Overwrote ${conflict.path} (${conflict.reason})`);
+      }
       console.log('✓ Restore completed successfully!\n');
     } catch (error: any) {
       console.log(`❌ Restore failed: ${error.message}\n`);
+      process.exit(1);
     }
   });
 
-program
+const backupsCommand = program
   .command('backups')
   .description('List all backups')
-  .option('-p, --path <path>', 'Repository path', process.cwd())
-  .action(async (options) => {
-    const backupManager = new BackupManager(path.join(options.path, '.unvibe', 'backups'));
+  .option('-p, --path <path>', 'Repository path (default: current directory)')
+  .action(async (options, command) => {
+    // The root program also defines --path and claims it wherever it appears
+    const backupManager = await BackupManager.forProject(command.optsWithGlobals().path);
 
     console.log('\n📦 Available Backups:\n');
 
@@ -836,12 +1142,52 @@ program
       return;
     }
 
+    let totalSize = 0;
     for (const backup of backups) {
+      const size = backup.operations.reduce((sum, op) => sum + op.metadata.size, 0);
+      totalSize += size;
       console.log(`  ${backup.id}`);
       console.log(`    Date: ${backup.timestamp.toLocaleString()}`);
       console.log(`    Operations: ${backup.operations.length}`);
+      console.log(`    Size: ${formatBytes(size)}`);
       console.log(`    Reversible: ${backup.reversible ? 'Yes' : 'No'}\n`);
     }
+
+    const stats = await backupManager.getStorageStats();
+    console.log(`  Total: ${stats.backups} backup(s), ${formatBytes(totalSize)} of files`);
+    console.log(`  On disk: ${formatBytes(stats.bytes)} in ${stats.objects} stored object(s)\n`);
+  });
+
+backupsCommand
+  .command('prune')
+  .description('Remove old backups and the stored files only they use')
+  .option('-p, --path <path>', 'Repository path (default: current directory)')
+  .option('--older-than <days>', 'Remove backups older than this many days (e.g. 30 or 30d)')
+  .option('--keep <n>', 'Keep only the newest n backups')
+  .option('--dry-run', 'Show what would be removed without deleting anything')
+  .action(async (options, command) => {
+    // The root program also defines --path and --dry-run and claims them wherever they appear
+    const projectPath: string = command.optsWithGlobals().path;
+    const dryRun = Boolean(command.optsWithGlobals().dryRun);
+    const backupManager = await BackupManager.forProject(projectPath);
+
+    try {
+      const result = await backupManager.prune({
+        olderThanDays: options.olderThan !== undefined ? parseDays(options.olderThan) : undefined,
+        keep: options.keep !== undefined ? Number(options.keep) : undefined,
+        dryRun,
+      });
+
+      const verb = dryRun ? 'Would remove' : 'Removed';
+      console.log(`\n🧹 ${verb} ${result.removed.length} backup(s), keeping ${result.kept}`);
+      for (const manifest of result.removed) {
+        console.log(`   ${manifest.id}  ${manifest.timestamp.toLocaleString()}`);
+      }
+      console.log(`   ${verb} ${result.objectsRemoved} unused stored object(s), freeing ${formatBytes(result.bytesFreed)}\n`);
+    } catch (error: any) {
+      console.error(`❌ Prune failed: ${error.message}\n`);
+      process.exit(1);
+    }
   });
 
 program
@@ -937,11 +1283,12 @@ program
   .option('-p, --path <path>', 'Repository path', process.cwd())
   .option('--dry-run', 'Preview changes without executing')
   .option('--report', 'Generate a report of current test organization')
+  .option('--rulepack <ref>', 'Apply a rule pack by name or path (repeatable)', (val, prev: string[]) => [...prev, val], [])
+  .option('--no-rewrite-references', 'Leave imports, links and script paths to moved files as they are')
   .action(async (options) => {
     console.log('\n🧪 Test Organization\n');
 
-    const config = await ConfigManager.load(options.path);
-    const testOrganizer = createTestOrganizer(config);
+    const testOrganizer = await loadTestOrganizer(options.path, options.rulepack);
 
     if (!testOrganizer) {
       console.log('❌ Test organization is not configured.');
@@ -998,14 +1345,17 @@ program
     }
 
     // Execute the plan
-    const backupManager = new BackupManager(path.join(options.path, '.unvibe', 'backups'));
+    const backupManager = await BackupManager.forProject(options.path);
     const executor = new OperationExecutor(backupManager);
 
     console.log('Executing test organization...\n');
-    const result = await executor.execute(plan, false);
+    const result = await executor.execute(plan, false, {
+      rewriteReferencesIn: options.rewriteReferences ? options.path : undefined,
+    });
 
     if (result.success) {
       console.log(`✅ Successfully organized ${result.operationsCompleted} test files!\n`);
+      printReferencesUpdated(result, options.path);
       if (result.backupManifestId) {
         console.log(`📦 Backup: ${result.backupManifestId}`);
         console.log(`   Restore with: devibe restore ${result.backupManifestId}\n`);
@@ -1023,11 +1373,11 @@ program
   .command('detect-tests')
   .description('Detect all test files in the repository')
   .option('-p, --path <path>', 'Repository path', process.cwd())
+  .option('--rulepack <ref>', 'Apply a rule pack by name or path (repeatable)', (val, prev: string[]) => [...prev, val], [])
   .action(async (options) => {
     console.log('\n🔍 Detecting test files...\n');
 
-    const config = await ConfigManager.load(options.path);
-    const testOrganizer = createTestOrganizer(config);
+    const testOrganizer = await loadTestOrganizer(options.path, options.rulepack);
 
     if (!testOrganizer) {
       console.log('❌ Test organization is not configured.\n');
@@ -1044,6 +1394,69 @@ program
     console.log();
   });
 
+program
+  .command('check')
+  .description('Run rule pack custom rules and report violations by severity')
+  .option('-p, --path <path>', 'Repository path', process.cwd())
+  .option('--rulepack <ref>', 'Apply a rule pack by name or path (repeatable)', (val, prev: string[]) => [...prev, val], [])
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    let engine: RulePackEngine | null;
+    try {
+      engine = await RulePackEngine.forProject(options.path, options.rulepack);
+    } catch (error: any) {
+      console.error(`❌ Failed to load rule packs: ${error.message}\n`);
+      process.exit(1);
+    }
+
+    const rules = engine?.getRulePack().customRules ?? [];
+    if (!engine || rules.length === 0) {
+      if (options.json) {
+        console.log(JSON.stringify({ filesChecked: 0, rulesRun: [], skippedRules: [], violations: [], summary: { error: 0, warning: 0, info: 0 } }, null, 2));
+      } else {
+        console.log('\nℹ️  No custom rules configured. Add customRules to a rule pack or .unvibe.config.js overrides.\n');
+      }
+      return;
+    }
+
+    const report = await new CustomRuleRunner().run(options.path, rules, (file) => engine!.isIgnored(file));
+
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      console.log('\n🔎 Running custom rules...\n');
+      console.log(`📐 Rule packs: ${engine.getSources().join(', ')}`);
+      console.log(`Checked ${report.filesChecked} files against ${report.rulesRun.length} rules\n`);
+
+      const icons: Record<string, string> = { error: '🔴', warning: '🟡', info: '🔵' };
+      for (const severity of ['error', 'warning', 'info'] as const) {
+        const found = report.violations.filter((v) => v.severity === severity);
+        if (found.length === 0) continue;
+
+        console.log(`${icons[severity]} ${severity.toUpperCase()} (${found.length}):`);
+        for (const violation of found) {
+          const location = violation.line ? `${violation.file}:${violation.line}` : violation.file;
+          console.log(`   ${location}  ${violation.message}  [${violation.ruleId}]`);
+        }
+        console.log();
+      }
+
+      for (const skipped of report.skippedRules) {
+        console.log(`⚠️  Skipped rule ${skipped.ruleId}: ${skipped.reason}`);
+      }
+      if (report.skippedRules.length > 0) console.log();
+
+      const { error, warning, info } = report.summary;
+      console.log(`Summary: ${error} errors, ${warning} warnings, ${info} info\n`);
+    }
+
+    // A rule that could not run (missing validator, a validator that threw)
+    // checked nothing, so it fails the run rather than passing silently
+    if (report.summary.error > 0 || report.skippedRules.length > 0) {
+      process.exit(1);
+    }
+  });
+
 program
   .command('validate-rulepack')
   .description('Validate a rule pack file against the specification')
@@ -1054,17 +1467,7 @@ program
     try {
       // Read and parse the rule pack
       const content = await fs.readFile(file, 'utf-8');
-      let rulePack;
-
-      if (file.endsWith('.yaml') || file.endsWith('.yml')) {
-        // For YAML, we'd need a YAML parser (js-yaml)
-        // For now, show helpful message
-        console.log('ℹ️  YAML support requires js-yaml package');
-        console.log('   For now, please use JSON format or convert YAML to JSON\n');
-        return;
-      } else {
-        rulePack = JSON.parse(content);
-      }
+      const rulePack = parseRulePackContent(content, file);
 
       // Validate
       const validator = new RulePackValidator();
@@ -1082,19 +1485,174 @@ program
     }
   });
 
+const rulepackCommand = program
+  .command('rulepack')
+  .description('Inspect and manage rule packs');
+
+rulepackCommand
+  .command('resolve')
+  .description('Print the flattened rule pack with the pack each field came from')
+  .argument('[reference]', 'Rule pack name or file (defaults to the project\'s configured packs)')
+  .option('-p, --path <path>', 'Repository path', process.cwd())
+  .option('--json', 'Output as JSON')
+  .action(async (reference, options) => {
+    try {
+      const composer = new RulePackComposer();
+      let composed;
+
+      if (reference) {
+        composed = await composer.resolve(reference, options.path);
+      } else {
+        const config = await ConfigManager.load(options.path);
+        if (!config.rulepacks || config.rulepacks.length === 0) {
+          console.log('\nℹ️  No rule packs configured. Add "rulepacks" to .unvibe.config.js or pass a reference.\n');
+          return;
+        }
+        composed = await composer.resolveAll(config.rulepacks, options.path, config.overrides);
+      }
+
+      const { _resolved, ...rulePack } = composed.rulePack;
+
+      if (options.json) {
+        console.log(JSON.stringify({ rulePack, layers: composed.layers, provenance: composed.provenance }, null, 2));
+        return;
+      }
+
+      console.log(`\n📦 Resolved rule pack: ${rulePack.metadata.name}`);
+      console.log(`   Layers: ${composed.layers.join(' → ')}\n`);
+      console.log(yaml.dump(rulePack, { lineWidth: 120 }));
+      console.log('📍 Provenance:\n');
+      console.log(formatProvenance(composed.provenance));
+      console.log();
+    } catch (error: any) {
+      console.error(`❌ Failed to resolve rule pack: ${error.message}\n`);
+      process.exit(1);
+    }
+  });
+
+rulepackCommand
+  .command('install')
+  .description('Install a rule pack from a local file, directory or tarball into ~/.devibe/rulepacks')
+  .argument('<source>', 'Path to a .yaml/.json pack, a directory or a .tgz')
+  .argument('[version]', 'Version the pack must declare')
+  .action(async (source, version) => {
+    try {
+      const pack = await new RulePackManager().install(source, version);
+      console.log(`\n✅ Installed ${pack.metadata.name}@${pack.metadata.version} (pinned)\n`);
+    } catch (error: any) {
+      console.error(`❌ Failed to install rule pack: ${error.message}\n`);
+      process.exit(1);
+    }
+  });
+
+rulepackCommand
+  .command('remove')
+  .description('Remove an installed rule pack (name or name@version)')
+  .argument('<name>', 'Rule pack name, optionally with @version')
+  .action(async (name) => {
+    try {
+      await new RulePackManager().remove(name);
+      console.log(`\n✅ Removed ${name}\n`);
+    } catch (error: any) {
+      console.error(`❌ ${error.message}\n`);
+      process.exit(1);
+    }
+  });
+
+rulepackCommand
+  .command('pin')
+  .description('Pin the version used when a rule pack is referenced without @version')
+  .argument('<name>', 'Rule pack name')
+  .argument('<version>', 'Installed version to pin')
+  .action(async (name, version) => {
+    try {
+      await new RulePackManager().pin(name, version);
+      console.log(`\n📌 ${name} pinned to ${version}\n`);
+    } catch (error: any) {
+      console.error(`❌ ${error.message}\n`);
+      process.exit(1);
+    }
+  });
+
+rulepackCommand
+  .command('list')
+  .description('List installed and bundled rule packs')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    const manager = new RulePackManager();
+    const installed = await manager.list();
+    const versions = await manager.listVersions();
+    const bundled = await manager.listBundled();
+
+    if (options.json) {
+      console.log(JSON.stringify({ installed, versions, bundled }, null, 2));
+      return;
+    }
+
+    console.log('\n📦 Installed rule packs (~/.devibe/rulepacks):\n');
+    if (installed.length === 0) {
+      console.log('   None. Install one with: devibe rulepack install <path>');
+    }
+    for (const metadata of installed) {
+      const other = versions
+        .find((v) => v.name === metadata.name)
+        ?.versions.filter((v) => v !== metadata.version) ?? [];
+      console.log(`   ${metadata.name}@${metadata.version} 📌${other.length > 0 ? ` (also: ${other.join(', ')})` : ''}`);
+      console.log(`      ${metadata.description}`);
+    }
+
+    console.log('\n📚 Bundled rule packs:\n');
+    for (const metadata of bundled) {
+      console.log(`   ${metadata.name}@${metadata.version}`);
+      console.log(`      ${metadata.description}`);
+    }
+    console.log();
+  });
+
+rulepackCommand
+  .command('search')
+  .description('Search installed and bundled rule packs by name, description or tag')
+  .argument('<query>', 'Search text')
+  .action(async (query) => {
+    const results = await new RulePackManager().search(query);
+
+    if (results.length === 0) {
+      console.log(`\nNo rule packs match "${query}"\n`);
+      return;
+    }
+
+    console.log();
+    for (const metadata of results) {
+      console.log(`   ${metadata.name}@${metadata.version} - ${metadata.description}`);
+    }
+    console.log();
+  });
+
 program
   .command('best-practices')
   .description('Analyze repository against industry best practices')
   .option('-p, --path <path>', 'Repository path', process.cwd())
-  .option('--json', 'Output as JSON')
+  .option('--json', 'Output as JSON (same as --format json)')
+  .option('--format <format>', `Output format: ${REPORT_FORMATS.join(', ')}`, 'text')
+  .option('--output <file>', 'Write the json, sarif or junit report to a file')
   .action(async (options) => {
-    console.log('\n📊 Analyzing Repository Best Practices...\n');
+    let format: ReportFormat;
+    try {
+      format = options.json ? 'json' : resolveReportFormat(options);
+    } catch (error: any) {
+      console.error(`\n❌ ${error.message}\n`);
+      process.exit(1);
+    }
+
+    if (format === 'text') {
+      console.log('\n📊 Analyzing Repository Best Practices...\n');
+    }
 
     const analyzer = new RepoBestPracticesAnalyzer();
     const report = await analyzer.analyze(options.path);
 
-    if (options.json) {
-      console.log(JSON.stringify(report, null, 2));
+    if (format !== 'text') {
+      await emitReport({ kind: 'best-practices', report }, format, options);
     } else {
       console.log(formatBestPracticesReport(report));
 
@@ -1127,22 +1685,52 @@ program
   .command('check-pr')
   .description('Check if repository is ready for PR/push to main')
   .option('-p, --path <path>', 'Repository path', process.cwd())
+  .option('--format <format>', `Output format: ${REPORT_FORMATS.join(', ')}`, 'text')
+  .option('--output <file>', 'Write the json, sarif or junit report to a file')
   .action(async (options) => {
-    console.log('\n🔍 Pre-Push Check (simulating GitHub CI)...\n');
+    let format: ReportFormat;
+    try {
+      format = resolveReportFormat(options);
+    } catch (error: any) {
+      console.error(`\n❌ ${error.message}\n`);
+      process.exit(1);
+    }
+
+    // Machine-readable formats keep stdout clean for the report
+    const log = format === 'text' ? console.log : () => {};
+    const report: CheckPrReport = { passed: true, steps: [] };
 
-    let hasErrors = false;
+    log('\n🔍 Pre-Push Check (simulating GitHub CI)...\n');
 
     // Step 1: Secret Scan
-    console.log('1️⃣  Scanning for secrets...');
-    const scanner = new SecretScanner();
+    log('1️⃣  Scanning for secrets...');
+    let scanner: SecretScanner;
+    let baseline: SecretsBaseline;
+    try {
+      scanner = await SecretScanner.forProject(options.path);
+      baseline = await SecretsBaseline.load(options.path);
+    } catch (error: any) {
+      console.error(`   ❌ ${error.message}\n`);
+      process.exit(1);
+    }
     const files = await findSourceFiles(options.path);
 
     if (files.length > 0) {
-      const scanResult = await scanner.scanFiles(files);
+      // Only findings missing from the baseline block the push
+      const scanResult = baseline.apply(await scanner.scanFiles(files));
+      report.secretScan = scanResult;
+      if (scanResult.baselined) {
+        log(`   ℹ️  ${scanResult.baselined} known finding(s) in ${SECRETS_BASELINE_FILE}`);
+      }
 
       if (scanResult.summary.critical > 0) {
-        console.log(`   ❌ CRITICAL: Found ${scanResult.summary.critical} critical secrets!\n`);
-        hasErrors = true;
+        log(`   ❌ CRITICAL: Found ${scanResult.summary.critical} new critical secrets!\n`);
+        report.steps.push({
+          id: 'secrets',
+          name: 'Secret scan',
+          status: 'failed',
+          message: `Found ${scanResult.summary.critical} new critical secrets`,
+        });
 
         // Show first 3 critical findings
         const criticalFindings = scanResult.findings
@@ -1150,52 +1738,76 @@ program
           .slice(0, 3);
 
         for (const finding of criticalFindings) {
-          console.log(`      ${finding.file}:${finding.line}`);
-          console.log(`      ${finding.type}: ${finding.context}\n`);
+          log(`      ${finding.file}:${finding.line}`);
+          log(`      ${finding.type}: ${finding.context}\n`);
         }
       } else {
-        console.log('   ✓ No critical secrets found\n');
+        log('   ✓ No new critical secrets found\n');
+        report.steps.push({ id: 'secrets', name: 'Secret scan', status: 'passed', message: 'No new critical secrets found' });
       }
+    } else {
+      report.steps.push({ id: 'secrets', name: 'Secret scan', status: 'skipped', message: 'No source files found' });
     }
 
     // Step 2: Build Check
-    console.log('2️⃣  Checking build...');
+    log('2️⃣  Checking build...');
     try {
       const { execSync } = await import('child_process');
       execSync('npm run build', { stdio: 'ignore', cwd: options.path });
-      console.log('   ✓ Build successful\n');
+      log('   ✓ Build successful\n');
+      report.steps.push({ id: 'build', name: 'Build', status: 'passed', message: 'Build successful' });
     } catch {
-      console.log('   ⚠️  Build failed or not configured\n');
+      log('   ⚠️  Build failed or not configured\n');
+      report.steps.push({ id: 'build', name: 'Build', status: 'warning', message: 'Build failed or not configured' });
     }
 
     // Step 3: Tests
-    console.log('3️⃣  Running tests...');
+    log('3️⃣  Running tests...');
     try {
       const { execSync } = await import('child_process');
       execSync('npm test', { stdio: 'ignore', cwd: options.path });
-      console.log('   ✓ All tests passed\n');
+      log('   ✓ All tests passed\n');
+      report.steps.push({ id: 'tests', name: 'Tests', status: 'passed', message: 'All tests passed' });
     } catch {
-      console.log('   ❌ Tests failed\n');
-      hasErrors = true;
+      log('   ❌ Tests failed\n');
+      report.steps.push({ id: 'tests', name: 'Tests', status: 'failed', message: 'Tests failed' });
     }
 
     // Step 4: Folder Structure
-    console.log('4️⃣  Checking folder structure...');
+    log('4️⃣  Checking folder structure...');
+    const rulePackEngine = await loadRulePackEngine(options.path, [], log);
     const detector = new GitDetector();
-    const classifier = new FileClassifier();
-    const planner = new OperationPlanner(detector, classifier);
+    const classifier = new FileClassifier(rulePackEngine?.getClassificationRules(), options.path);
+    const planner = new OperationPlanner(detector, classifier, undefined, undefined, rulePackEngine ?? undefined);
 
     const enforcePlan = await planner.planFolderEnforcement(options.path);
 
     if (enforcePlan.operations.length > 0) {
-      console.log(`   ⚠️  WARNING: ${enforcePlan.operations.length} folder structure issues\n`);
+      log(`   ⚠️  WARNING: ${enforcePlan.operations.length} folder structure issues\n`);
+      report.steps.push({
+        id: 'folder-structure',
+        name: 'Folder structure',
+        status: 'warning',
+        message: `${enforcePlan.operations.length} folder structure issues`,
+      });
     } else {
-      console.log('   ✓ Folder structure compliant\n');
+      log('   ✓ Folder structure compliant\n');
+      report.steps.push({ id: 'folder-structure', name: 'Folder structure', status: 'passed', message: 'Folder structure compliant' });
+    }
+
+    report.passed = !report.steps.some((step) => step.status === 'failed');
+
+    if (format !== 'text') {
+      await emitReport({ kind: 'check-pr', report, patterns: scanner.getPatterns() }, format, options);
+      if (!report.passed) {
+        process.exit(1);
+      }
+      return;
     }
 
     // Final Result
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    if (hasErrors) {
+    if (!report.passed) {
       console.log('❌ PUSH BLOCKED: Fix errors above before pushing to main\n');
       process.exit(1);
     } else {
@@ -1203,6 +1815,51 @@ program
     }
   });
 
+/**
+ * Load the rule packs configured for a project plus any --rulepack flags.
+ * Exits when a pack cannot be resolved or is invalid.
+ */
+async function loadRulePackEngine(
+  projectPath: string,
+  references: string[] = [],
+  log: (message: string) => void = console.log
+): Promise<RulePackEngine | null> {
+  try {
+    const engine = await RulePackEngine.forProject(projectPath, references);
+    if (engine) {
+      log(`📐 Rule packs: ${engine.getSources().join(', ')}\n`);
+    }
+    return engine;
+  } catch (error: any) {
+    console.error(`❌ Failed to load rule packs: ${error.message}\n`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Create a test organizer from the project config, with rule pack test
+ * organization rules taking precedence
+ */
+async function loadTestOrganizer(projectPath: string, references: string[] = []): Promise<TestOrganizer | null> {
+  let config: UnVibeConfig;
+  try {
+    config = await ConfigManager.load(projectPath);
+  } catch (error: any) {
+    console.error(`❌ ${error.message}\n`);
+    process.exit(1);
+  }
+  const rulePackEngine = await loadRulePackEngine(projectPath, references);
+
+  if (!rulePackEngine) {
+    return createTestOrganizer(config);
+  }
+
+  return createTestOrganizer({
+    ...config,
+    testOrganization: rulePackEngine.getTestOrganizationConfig(config.testOrganization),
+  });
+}
+
 function getSeverityIcon(severity: string): string {
   switch (severity) {
     case 'critical':
@@ -1218,6 +1875,190 @@ function getSeverityIcon(severity: string): string {
   }
 }
 
+/**
+ * Validate --format and --output. Reports other than text need a format
+ * that serializes, so --output alone is rejected.
+ */
+function resolveReportFormat(options: { format?: string; output?: string }): ReportFormat {
+  const format = parseReportFormat(options.format ?? 'text');
+  if (options.output && format === 'text') {
+    throw new Error('--output needs --format json, sarif or junit');
+  }
+  return format;
+}
+
+/**
+ * Write a machine-readable report to --output, or to stdout
+ */
+async function emitReport(
+  report: MachineReport,
+  format: Exclude<ReportFormat, 'text'>,
+  options: { path: string; output?: string }
+): Promise<void> {
+  const content = serializeReport(report, format, {
+    rootPath: path.resolve(options.path),
+    toolVersion: program.version(),
+  });
+
+  if (options.output) {
+    await fs.mkdir(path.dirname(path.resolve(options.output)), { recursive: true });
+    await fs.writeFile(options.output, content);
+    console.error(`✓ Wrote ${format} report to ${options.output}`);
+  } else {
+    process.stdout.write(content);
+  }
+}
+
+/**
+ * Walk the user through the plan and return only what they accepted
+ */
+async function reviewPlan(plan: OperationPlan, rootPath: string): Promise<OperationPlan> {
+  const reviewer = new PlanReviewer(createInquirerPrompter());
+  const review = await reviewer.review(plan, path.resolve(rootPath));
+
+  console.log(
+    `\n✓ Review complete: ${review.accepted.length} accepted, ${review.rejected.length} rejected, ` +
+    `${review.retargeted.length} retargeted`
+  );
+  if (review.retargeted.length > 0) {
+    console.log('  Retargets were recorded so future classifications learn from them.');
+  }
+  console.log('');
+
+  return review.plan;
+}
+
+async function savePlan(filePath: string, plan: OperationPlan, rootPath: string): Promise<void> {
+  try {
+    await PlanFile.save(filePath, plan, rootPath);
+  } catch (error: any) {
+    console.error(`❌ Could not save plan: ${error.message}\n`);
+    process.exit(1);
+  }
+  console.log(`✓ Saved plan to ${filePath}`);
+  console.log(`  Review it, then apply exactly this plan with: devibe execute --plan ${filePath}\n`);
+}
+
+/**
+ * Apply a saved plan as is, refusing when any of its sources changed
+ */
+async function executeSavedPlan(options: {
+  path: string;
+  plan: string;
+  dryRun: boolean;
+  atomic: boolean;
+  rewriteReferences: boolean;
+  git: boolean;
+  commit: boolean;
+}): Promise<void> {
+  let planFile: PlanFile;
+  try {
+    planFile = await PlanFile.load(options.plan, options.path);
+  } catch (error: any) {
+    console.error(`❌ ${error.message}\n`);
+    process.exit(1);
+  }
+
+  const changes = await planFile.findChangedSources();
+  if (changes.length > 0) {
+    console.error(`\n❌ ${changes.length} file(s) changed since the plan was made:\n`);
+    for (const change of changes) {
+      console.error(`  ${change.path}: ${change.reason}`);
+    }
+    console.error('\nRe-run "devibe plan --out" and review the new plan.\n');
+    process.exit(1);
+  }
+
+  const plan = planFile.toOperationPlan();
+  console.log(`\n${options.dryRun ? '🔍 DRY RUN: ' : '⚡ '}Executing ${plan.operations.length} operations from ${options.plan} (planned ${planFile.createdAt.toLocaleString()})...\n`);
+
+  const detector = new GitDetector();
+  const executor = new OperationExecutor(await BackupManager.forProject(options.path), detector);
+  const result = await executor.execute(plan, options.dryRun, {
+    atomic: options.atomic,
+    repositories: options.atomic ? (await detector.detectRepositories(options.path)).repositories : undefined,
+    rewriteReferencesIn: options.rewriteReferences ? options.path : undefined,
+    git: await gitExecutionOptions(options, detector),
+  });
+
+  if (result.success) {
+    console.log(`✓ Successfully completed ${result.operationsCompleted} operations\n`);
+    printReferencesUpdated(result, options.path);
+    printCommits(result);
+    if (result.backupManifestId && !options.dryRun) {
+      console.log(`📦 Backup created: ${result.backupManifestId}\n`);
+      console.log(`   Restore with: devibe restore ${result.backupManifestId}\n`);
+    }
+    return;
+  }
+
+  console.log(`⚠️  Completed ${result.operationsCompleted}, failed ${result.operationsFailed}\n`);
+  for (const error of result.errors) {
+    console.log(`  ❌ ${error}`);
+  }
+  if (result.rollback) {
+    console.log(`\n↩️  Rolled back ${result.rollback.operations.length} completed operation(s)`);
+  }
+  console.log();
+  process.exit(1);
+}
+
+/**
+ * Tracked files move and delete with git mv and git rm unless --no-git
+ */
+async function gitExecutionOptions(
+  options: { path: string; git: boolean; commit?: boolean },
+  detector: GitDetector
+): Promise<GitExecutionOptions | undefined> {
+  if (options.git === false) {
+    return undefined;
+  }
+  const { repositories } = await detector.detectRepositories(options.path);
+  return { repositories, commit: options.commit };
+}
+
+function printCommits(result: ExecutionResult): void {
+  for (const commit of result.commits ?? []) {
+    console.log(`📝 Committed ${commit.sha.slice(0, 7)} in ${commit.repository}: ${commit.message.split('\n')[0]}\n`);
+  }
+}
+
+/**
+ * List the files whose imports, links or script paths followed the moves
+ */
+function printReferencesUpdated(result: ExecutionResult, rootPath: string): void {
+  if (!result.referencesUpdated?.length) {
+    return;
+  }
+  console.log(`🔗 Updated references in ${result.referencesUpdated.length} file(s):`);
+  for (const file of result.referencesUpdated) {
+    console.log(`   ${path.relative(rootPath, file)}`);
+  }
+  console.log();
+}
+
+/**
+ * Parse a day count such as "30" or "30d"
+ */
+function parseDays(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)d?$/i);
+  if (!match) {
+    throw new Error(`Invalid age "${value}". Use a number of days, e.g. 30 or 30d`);
+  }
+  return parseFloat(match[1]);
+}
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
 async function findSourceFiles(dir: string): Promise<string[]> {
   const files: string[] = [];
   const extensions = ['.js', '.ts', '.jsx', '.tsx', '.py', '.go', '.java', '.env'];
@@ -1340,9 +2181,24 @@ program
   .alias('ai')
   .description('Analyze AI model options and get cost recommendations')
   .option('-f, --files <count>', 'Estimated number of files to classify', '1000')
-  .action(async (options) => {
+  .option('-p, --path <path>', 'Repository path whose classification cache is counted (default: current directory)')
+  .option('--no-cache', 'Estimate as if no file had been classified before')
+  .action(async (options, command) => {
     const fileCount = parseInt(options.files);
     const keyManager = getKeyManager();
+    // The root program also defines --path and claims it wherever it appears
+    const projectPath: string = command.optsWithGlobals().path;
+
+    // Files classified before and unchanged since are answered from the cache
+    const cachedCounts = options.cache === false
+      ? new Map<string, number>()
+      : await (await ClassificationCache.forProject(projectPath)).countUnchanged();
+    const cachedFiles: Record<string, number> = Object.fromEntries(cachedCounts);
+    // A self-hosted endpoint's answers are cached under the model it serves,
+    // which the model list only knows as 'local'
+    const endpoint = await keyManager.getEndpointWithFallback();
+    cachedFiles[AVAILABLE_MODELS['openai-compatible'].id] = endpoint ? cachedCounts.get(endpoint.model) ?? 0 : 0;
+    const billableFiles = (model: ModelConfig) => fileCount - Math.min(fileCount, cachedFiles[model.id] ?? 0);
 
     console.log('\n🤖 AI Model Cost Analysis\n');
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
@@ -1355,9 +2211,9 @@ program
       console.log('   ⚠️  No API keys configured yet\n');
     } else {
       for (const provider of configuredProviders) {
-        const key = await keyManager.getKey(provider);
-        if (key) {
-          console.log(`   ✓ ${provider.padEnd(12)} ${keyManager.maskKey(key)}`);
+        const stored = await keyManager.describeStored(provider);
+        if (stored) {
+          console.log(`   ✓ ${provider.padEnd(12)} ${stored}`);
         }
       }
       console.log('');
@@ -1366,14 +2222,14 @@ program
     // Show cost comparison
     console.log(`💰 Cost Comparison for ${fileCount.toLocaleString()} Files:\n`);
 
-    const comparison = compareModels(fileCount, 400, 100);
+    const comparison = compareModels(fileCount, 400, 100, cachedFiles);
 
     // Format as table
     console.log('┌────────────────────────┬─────────────┬──────────────┬────────────┐');
     console.log('│ Model                  │ Total Cost  │ Cost/File    │ API Calls  │');
     console.log('├────────────────────────┼─────────────┼──────────────┼────────────┤');
 
-    comparison.slice(0, 7).forEach(c => {
+    comparison.forEach(c => {
       const model = c.model.padEnd(22);
       const cost = `$${c.totalCost.toFixed(4)}`.padEnd(11);
       const perFile = `$${c.costPerFile.toFixed(6)}`.padEnd(12);
@@ -1383,13 +2239,22 @@ program
 
     console.log('└────────────────────────┴─────────────┴──────────────┴────────────┘\n');
 
+    const withCacheHits = comparison.filter(c => c.cachedFiles > 0);
+    if (withCacheHits.length > 0) {
+      console.log('💾 Cache hits (already classified, unchanged, not billed again):\n');
+      for (const c of withCacheHits) {
+        console.log(`   ${c.model.padEnd(22)} ${c.cachedFiles.toLocaleString()} file(s)`);
+      }
+      console.log('   Clear with: devibe cache clear\n');
+    }
+
     // Recommendation
     const cheapest = selectModel('cheapest');
     const currentModel = selectModel('claude-3-5-sonnet');
-    const currentCost = estimateCost(currentModel, fileCount * 400, fileCount * 100);
-    const cheapestCost = estimateCost(cheapest, fileCount * 400, fileCount * 100);
+    const currentCost = estimateCost(currentModel, billableFiles(currentModel) * 400, billableFiles(currentModel) * 100);
+    const cheapestCost = estimateCost(cheapest, billableFiles(cheapest) * 400, billableFiles(cheapest) * 100);
     const savings = currentCost - cheapestCost;
-    const savingsPercent = ((savings / currentCost) * 100).toFixed(1);
+    const savingsPercent = (currentCost > 0 ? (savings / currentCost) * 100 : 0).toFixed(1);
 
     console.log('🎯 Recommendation:\n');
     console.log(`   Use: ${cheapest.name}`);
@@ -1399,7 +2264,7 @@ program
     console.log(`   Cost: $${cheapestCost.toFixed(4)} (save $${savings.toFixed(4)} or ${savingsPercent}%)\n`);
 
     // Check if key is configured
-    const hasKey = await keyManager.getKeyWithFallback(cheapest.provider);
+    const hasKey = await keyManager.isConfigured(cheapest.provider);
 
     if (!hasKey) {
       console.log('⚡ Quick Setup:\n');
@@ -1423,7 +2288,8 @@ program
     console.log('📊 Other Options:\n');
     console.log('   • Largest context:  devibe ai-key add google <key>  (Gemini: 1M-2M tokens)');
     console.log('   • Best quality:     devibe ai-key add anthropic <key>  (Claude Opus)');
-    console.log('   • Easy to try:      devibe ai-key add anthropic <key>  (Claude Haiku - 12x cheaper)\n');
+    console.log('   • Easy to try:      devibe ai-key add anthropic <key>  (Claude Haiku - 12x cheaper)');
+    console.log('   • Self-hosted:      devibe ai-key add openai-compatible <base-url> --model <name>  (code stays on your network)\n');
 
     console.log('📖 Learn More:\n');
     console.log('   • View all models:  devibe ai-models');
@@ -1431,6 +2297,21 @@ program
     console.log('   • Set default:      export AI_MODEL=gemini-1.5-flash\n');
   });
 
+const cacheCommand = program
+  .command('cache')
+  .description('Manage the cache of AI file classifications');
+
+cacheCommand
+  .command('clear')
+  .description('Remove cached AI classifications, so every file is classified again')
+  .option('-p, --path <path>', 'Repository path (default: current directory)')
+  .action(async (options, command) => {
+    // The root program also defines --path and claims it wherever it appears
+    const projectPath: string = command.optsWithGlobals().path;
+    const removed = await ClassificationCache.clear(projectPath);
+    console.log(`\n🧹 Removed ${removed} cached classification(s) from ${path.join(projectPath, CLASSIFICATION_CACHE_DIR)}\n`);
+  });
+
 program
   .command('ai-models')
   .description('List all available AI models with details')
@@ -1441,7 +2322,7 @@ program
     const keyManager = getKeyManager();
 
     for (const [key, model] of Object.entries(AVAILABLE_MODELS)) {
-      const hasKey = await keyManager.getKeyWithFallback(model.provider);
+      const hasKey = await keyManager.isConfigured(model.provider);
       const status = hasKey ? '✓' : '○';
 
       console.log(`${status} ${model.name}`);
@@ -1450,6 +2331,9 @@ program
       console.log(`   Price: $${model.inputPricePerMillion}/M input, $${model.outputPricePerMillion}/M output`);
       console.log(`   Batch: ~${model.recommendedBatchSize} files/call`);
       console.log(`   Quality: ${model.quality}, Speed: ${model.speed}`);
+      if (model.provider === 'openai-compatible' && !hasKey) {
+        console.log('   Setup: devibe ai-key add openai-compatible <base-url> --model <name>');
+      }
       console.log(`   Command: export AI_MODEL=${key}\n`);
     }
 
@@ -1460,9 +2344,11 @@ program
   .command('ai-key')
   .description('Manage AI API keys')
   .argument('<action>', 'Action: add, remove, list, show, clear, status, or reset-prompt')
-  .argument('[provider]', 'Provider: anthropic, openai, or google')
-  .argument('[key]', 'API key value')
-  .action(async (action, provider, key) => {
+  .argument('[provider]', 'Provider: anthropic, openai, google, or openai-compatible')
+  .argument('[key]', 'API key value (the base URL for openai-compatible)')
+  .option('--model <name>', 'Model the openai-compatible endpoint serves, e.g. llama3.1')
+  .option('--api-key <key>', 'API key for an openai-compatible endpoint that needs one')
+  .action(async (action, provider, key, options) => {
     const keyManager = getKeyManager();
 
     switch (action) {
@@ -1477,20 +2363,46 @@ program
         if (!provider || !key) {
           console.error('\n❌ Error: Missing provider or key');
           console.log('\nUsage: devibe ai-key add <provider> <api-key>\n');
-          console.log('Providers: anthropic, openai, google\n');
+          console.log('Providers: anthropic, openai, google, openai-compatible\n');
           console.log('Examples:');
           console.log('  devibe ai-key add anthropic sk-ant-api03-xxx...');
           console.log('  devibe ai-key add google AIzaSyXXX...');
-          console.log('  devibe ai-key add openai sk-xxx...\n');
+          console.log('  devibe ai-key add openai sk-xxx...');
+          console.log('  devibe ai-key add openai-compatible http://localhost:11434/v1 --model llama3.1\n');
           process.exit(1);
         }
 
-        if (!['anthropic', 'openai', 'google'].includes(provider)) {
+        if (!['anthropic', 'openai', 'google', 'openai-compatible'].includes(provider)) {
           console.error(`\n❌ Error: Invalid provider "${provider}"`);
-          console.log('\nValid providers: anthropic, openai, google\n');
+          console.log('\nValid providers: anthropic, openai, google, openai-compatible\n');
           process.exit(1);
         }
 
+        if (provider === 'openai-compatible') {
+          if (!/^https?:\/\/[^/]/.test(key)) {
+            console.error(`\n❌ Error: "${key}" is not an http(s) base URL`);
+            console.log('\nExample: devibe ai-key add openai-compatible http://localhost:11434/v1 --model llama3.1\n');
+            process.exit(1);
+          }
+          if (!options.model) {
+            console.error('\n❌ Error: Missing --model for the openai-compatible endpoint');
+            console.log('\nExample: devibe ai-key add openai-compatible http://localhost:11434/v1 --model llama3.1\n');
+            process.exit(1);
+          }
+
+          await keyManager.setEndpoint({
+            baseUrl: key,
+            model: options.model,
+            ...(options.apiKey && { apiKey: options.apiKey }),
+          });
+          console.log(`\n✅ openai-compatible endpoint saved securely\n`);
+          console.log(`   Endpoint: ${key}`);
+          console.log(`   Model: ${options.model}`);
+          console.log(`   Location: ${keyManager.getStorageLocation()}\n`);
+          console.log('   Classification requests now go to this endpoint instead of a hosted API.\n');
+          break;
+        }
+
         // Validate key format
         if (!keyManager.validateKeyFormat(provider as any, key)) {
           console.error(`\n❌ Error: Invalid ${provider} API key format`);
@@ -1539,9 +2451,9 @@ program
           console.log('   Add a key: devibe ai-key add <provider> <api-key>\n');
         } else {
           for (const prov of configured) {
-            const storedKey = await keyManager.getKey(prov);
-            if (storedKey) {
-              console.log(`   ✓ ${prov.padEnd(12)} ${keyManager.maskKey(storedKey)}`);
+            const stored = await keyManager.describeStored(prov);
+            if (stored) {
+              console.log(`   ✓ ${prov.padEnd(12)} ${stored}`);
             }
           }
           console.log(`\n   Stored at: ${keyManager.getStorageLocation()}\n`);
@@ -1606,9 +2518,9 @@ program
         console.log('🔧 DevIbe Keys (Primary):\n');
         if (devibeConfigured.length > 0) {
           for (const prov of devibeConfigured) {
-            const storedKey = await keyManager.getKey(prov);
-            if (storedKey) {
-              console.log(`   ✓ ${prov.padEnd(12)} ${keyManager.maskKey(storedKey)}`);
+            const stored = await keyManager.describeStored(prov);
+            if (stored) {
+              console.log(`   ✓ ${prov.padEnd(12)} ${stored}`);
             }
           }
           console.log(`\n   Stored at: ${keyManager.getStorageLocation()}\n`);
@@ -1620,12 +2532,14 @@ program
         const envAnthropic = !!process.env.ANTHROPIC_API_KEY;
         const envOpenAI = !!process.env.OPENAI_API_KEY;
         const envGoogle = !!process.env.GOOGLE_API_KEY;
+        const envCompatible = !!process.env.OPENAI_COMPATIBLE_BASE_URL;
 
         console.log('🔑 Environment Variables (Fallback):\n');
-        if (envAnthropic || envOpenAI || envGoogle) {
+        if (envAnthropic || envOpenAI || envGoogle || envCompatible) {
           if (envAnthropic) console.log('   ✓ ANTHROPIC_API_KEY');
           if (envOpenAI) console.log('   ✓ OPENAI_API_KEY');
           if (envGoogle) console.log('   ✓ GOOGLE_API_KEY');
+          if (envCompatible) console.log('   ✓ OPENAI_COMPATIBLE_BASE_URL');
           console.log('');
         } else {
           console.log('   No environment variables set\n');
@@ -1862,9 +2776,7 @@ Safety Guidelines:
     }
     
     // Get AI provider
-    const preferredProvider = await AIClassifierFactory.getPreferredProvider();
-    const providerToUse = (preferredProvider === 'google' ? 'anthropic' : preferredProvider) || 'anthropic';
-    const aiProvider = await AIClassifierFactory.create(providerToUse);
+    const aiProvider = await AIClassifierFactory.create();
     
     if (!aiProvider) {
       console.error('❌ Failed to initialize AI provider\n');
@@ -2118,9 +3030,7 @@ Safety:
     // Get AI provider (may be null if not available)
     let aiProvider = null;
     if (aiAvailable) {
-      const preferredProvider = await AIClassifierFactory.getPreferredProvider();
-      const providerToUse = (preferredProvider === 'google' ? 'anthropic' : preferredProvider) || 'anthropic';
-      aiProvider = await AIClassifierFactory.create(providerToUse);
+      aiProvider = await AIClassifierFactory.create();
     }
 
     // Initialize components
@@ -1,7 +1,11 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import * as vm from 'vm';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
 
-import { TestOrganizationConfig } from './types.js';
+import { TestOrganizationConfig, EntropyOptions } from './types.js';
+import type { RulePack } from './rulepack-types.js';
 
 export interface UnVibeConfig {
   // Secret scanning
@@ -12,7 +16,9 @@ export interface UnVibeConfig {
       name: string;
       pattern: string;
       severity: 'critical' | 'high' | 'medium' | 'low';
+      recommendation?: string;
     }>;
+    entropy?: Partial<EntropyOptions>;
   };
 
   // File classification
@@ -35,7 +41,7 @@ export interface UnVibeConfig {
   ai?: {
     enabled?: boolean;
     autoOrganize?: boolean; // Automatically organize without prompts (trust AI)
-    provider?: 'anthropic' | 'openai' | 'google';
+    provider?: 'anthropic' | 'openai' | 'google' | 'openai-compatible';
     model?: string;
   };
 
@@ -44,7 +50,13 @@ export interface UnVibeConfig {
     enabled?: boolean;
     retentionDays?: number;
     maxBackups?: number;
+    compress?: boolean;  // gzip backed-up file contents
   };
+
+  // Rule packs (see RULE_PACK_SPEC.md)
+  rulepacks?: string[];
+  overrides?: Partial<RulePack>;
+  disabledRules?: string[];
 }
 
 export class ConfigManager {
@@ -252,13 +264,69 @@ export class ConfigManager {
 
     try {
       await fs.access(configPath);
-      // Config exists, but we can't dynamically import in this context
-      // For now, return default config
-      return this.DEFAULT_CONFIG;
     } catch {
       // No config file, use defaults
       return this.DEFAULT_CONFIG;
     }
+
+    const userConfig = await this.evaluateConfigFile(configPath);
+    if (!userConfig) {
+      return this.DEFAULT_CONFIG;
+    }
+
+    return this.mergeWithDefaults(userConfig);
+  }
+
+  /**
+   * Evaluate a config file. The template written by `create` uses
+   * module.exports, which cannot be imported from an ESM package, so
+   * CommonJS files are evaluated in a sandbox with a local require.
+   * A file that fails to evaluate is an error naming the file, not a
+   * silent fallback to the defaults.
+   */
+  private static async evaluateConfigFile(configPath: string): Promise<UnVibeConfig | null> {
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    try {
+      if (/\bmodule\.exports\b|\bexports\.\w+/.test(content)) {
+        const sandboxModule: { exports: Record<string, unknown> } = { exports: {} };
+        vm.runInNewContext(content, {
+          module: sandboxModule,
+          exports: sandboxModule.exports,
+          require: createRequire(configPath),
+          process,
+          __filename: configPath,
+          __dirname: path.dirname(configPath),
+        }, { filename: configPath });
+        return sandboxModule.exports as UnVibeConfig;
+      }
+
+      const imported = await import(pathToFileURL(configPath).href);
+      return (imported.default ?? imported) as UnVibeConfig;
+    } catch (error) {
+      throw new Error(`Failed to load ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Merge a user config over the defaults, one level deep per section
+   */
+  private static mergeWithDefaults(userConfig: UnVibeConfig): UnVibeConfig {
+    const merged: Record<string, any> = { ...this.DEFAULT_CONFIG };
+
+    for (const [key, value] of Object.entries(userConfig)) {
+      const defaultValue = merged[key];
+      if (
+        value && typeof value === 'object' && !Array.isArray(value) &&
+        defaultValue && typeof defaultValue === 'object' && !Array.isArray(defaultValue)
+      ) {
+        merged[key] = { ...defaultValue, ...value };
+      } else if (value !== undefined) {
+        merged[key] = value;
+      }
+    }
+
+    return merged as UnVibeConfig;
   }
 
   static async create(repoPath: string): Promise<void> {
@@ -355,7 +423,12 @@ export class ConfigManager {
     enabled: true,
     retentionDays: 30,
     maxBackups: 100
-  }
+  },
+
+  // Rule packs: bundled names (e.g. '@devibe/nodejs-standard') or paths
+  rulepacks: [],
+  // overrides: { testOrganization: { baseDirectory: 'test' } },
+  // disabledRules: []
 };
 `;
 
@@ -0,0 +1,351 @@
+/**
+ * Custom Rules
+ * Runs rule pack customRules through a registry of named validators
+ *
+ * A rule's `validator` is either the name of a registered validator
+ * (built-ins: must-have-header, max-lines, forbidden-import) or a path to
+ * a project-local JS/TS module whose default export (or `validate` export)
+ * is a CustomRuleValidator.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import { glob } from 'glob';
+import { globToRegExp, matchesGlob } from './glob-matcher.js';
+import type {
+  CustomRule,
+  CustomRuleContext,
+  CustomRuleFinding,
+  CustomRuleReport,
+  CustomRuleValidator,
+  CustomRuleViolation,
+} from './rulepack-types.js';
+
+const MODULE_SPECIFIER = /^(\.|\/)|\.(m?js|cjs|m?ts|cts)$/;
+const TYPESCRIPT_MODULE = /\.(m?ts|cts)$/;
+const SEVERITY_ORDER: CustomRule['severity'][] = ['error', 'warning', 'info'];
+
+// ============================================================================
+// Built-in validators
+// ============================================================================
+
+/**
+ * options.header: text the file must start with (a leading shebang is skipped)
+ * options.pattern: regex that must match within the first options.within lines (default 10)
+ */
+const mustHaveHeader: CustomRuleValidator = ({ content, lines, options }) => {
+  const header = options.header;
+  const pattern = options.pattern;
+
+  if (typeof header !== 'string' && typeof pattern !== 'string') {
+    throw new Error('must-have-header requires options.header or options.pattern');
+  }
+
+  const body = content.startsWith('#!') ? content.slice(content.indexOf('\n') + 1) : content;
+
+  if (typeof header === 'string') {
+    return body.trimStart().startsWith(header.trim())
+      ? []
+      : [{ message: 'Missing required file header', line: 1 }];
+  }
+
+  const within = typeof options.within === 'number' ? options.within : 10;
+  const regex = new RegExp(pattern as string, 'm');
+  return regex.test(lines.slice(0, within).join('\n'))
+    ? []
+    : [{ message: `No header matching /${pattern}/ in the first ${within} lines`, line: 1 }];
+};
+
+/**
+ * options.max: maximum number of lines (default 500)
+ */
+const maxLines: CustomRuleValidator = ({ lines, options }) => {
+  const max = typeof options.max === 'number' ? options.max : 500;
+  const count = lines[lines.length - 1] === '' ? lines.length - 1 : lines.length;
+
+  return count > max
+    ? [{ message: `File has ${count} lines (max ${max})`, line: max + 1 }]
+    : [];
+};
+
+const IMPORT_PATTERNS = [
+  /\bfrom\s*['"]([^'"]+)['"]/g,
+  /^\s*import\s+['"]([^'"]+)['"]/g,
+  /\bimport\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+  /\brequire\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+];
+
+/**
+ * options.modules: module specifiers that may not be imported. "lodash"
+ * also forbids "lodash/fp"; glob characters are allowed ("@internal/*").
+ * options.message: optional explanation appended to each finding
+ */
+const forbiddenImport: CustomRuleValidator = ({ lines, options }) => {
+  const modules = options.modules;
+  if (!Array.isArray(modules) || modules.length === 0) {
+    throw new Error('forbidden-import requires options.modules (list of module names)');
+  }
+
+  const findings: CustomRuleFinding[] = [];
+  const hint = typeof options.message === 'string' ? ` ${options.message}` : '';
+
+  lines.forEach((line, index) => {
+    for (const pattern of IMPORT_PATTERNS) {
+      for (const match of line.matchAll(pattern)) {
+        const specifier = match[1];
+        const forbidden = (modules as string[]).find((m) =>
+          /[*?{]/.test(m)
+            ? globToRegExp(m).test(specifier)
+            : specifier === m || specifier.startsWith(`${m}/`)
+        );
+
+        if (forbidden) {
+          findings.push({ message: `Import of "${specifier}" is forbidden.${hint}`, line: index + 1 });
+        }
+      }
+    }
+  });
+
+  return findings;
+};
+
+export const BUILT_IN_VALIDATORS: Record<string, CustomRuleValidator> = {
+  'must-have-header': mustHaveHeader,
+  'max-lines': maxLines,
+  'forbidden-import': forbiddenImport,
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export class CustomRuleRegistry {
+  private validators = new Map<string, CustomRuleValidator>();
+  private modules = new Map<string, Promise<CustomRuleValidator>>();
+
+  constructor(includeBuiltIns: boolean = true) {
+    if (includeBuiltIns) {
+      for (const [name, validator] of Object.entries(BUILT_IN_VALIDATORS)) {
+        this.register(name, validator);
+      }
+    }
+  }
+
+  register(name: string, validator: CustomRuleValidator): void {
+    this.validators.set(name, validator);
+  }
+
+  has(name: string): boolean {
+    return this.validators.has(name);
+  }
+
+  list(): string[] {
+    return Array.from(this.validators.keys()).sort();
+  }
+
+  /**
+   * Find the validator for a rule: a registered name, or a module path
+   * relative to the project root
+   */
+  async resolve(specifier: string, projectPath: string): Promise<CustomRuleValidator> {
+    const registered = this.validators.get(specifier);
+    if (registered) {
+      return registered;
+    }
+
+    if (!MODULE_SPECIFIER.test(specifier)) {
+      throw new Error(
+        `Unknown validator "${specifier}". Built-in validators: ${this.list().join(', ')}`
+      );
+    }
+
+    const filePath = path.resolve(projectPath, specifier);
+    let loading = this.modules.get(filePath);
+    if (!loading) {
+      loading = this.loadModule(filePath, projectPath);
+      this.modules.set(filePath, loading);
+    }
+
+    return loading;
+  }
+
+  private async loadModule(filePath: string, projectPath: string): Promise<CustomRuleValidator> {
+    try {
+      await fs.access(filePath);
+    } catch {
+      throw new Error(`Validator module not found: ${filePath}`);
+    }
+
+    const mod = TYPESCRIPT_MODULE.test(filePath)
+      ? await this.importTypeScript(filePath, projectPath)
+      : await import(pathToFileURL(filePath).href);
+
+    const validator = mod.default?.validate ?? mod.default ?? mod.validate;
+    if (typeof validator !== 'function') {
+      throw new Error(
+        `Validator module ${filePath} must export a function (default export or "validate")`
+      );
+    }
+
+    return validator as CustomRuleValidator;
+  }
+
+  /**
+   * Import a TypeScript module. Works natively under a TS-aware runtime;
+   * otherwise the project's own `typescript` package transpiles it.
+   */
+  private async importTypeScript(filePath: string, projectPath: string): Promise<any> {
+    try {
+      return await import(pathToFileURL(filePath).href);
+    } catch (error: any) {
+      if (error?.code !== 'ERR_UNKNOWN_FILE_EXTENSION') {
+        throw error;
+      }
+    }
+
+    let ts: any;
+    try {
+      ts = createRequire(path.join(projectPath, 'package.json'))('typescript');
+    } catch {
+      throw new Error(
+        `Cannot load ${filePath}: TypeScript validators need "typescript" installed in the project`
+      );
+    }
+
+    const source = await fs.readFile(filePath, 'utf-8');
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+      fileName: filePath,
+    });
+
+    // Written next to the source so its relative imports still resolve
+    const compiled = `${filePath}.devibe-${process.pid}.mjs`;
+    await fs.writeFile(compiled, outputText);
+    try {
+      return await import(pathToFileURL(compiled).href);
+    } finally {
+      await fs.rm(compiled, { force: true });
+    }
+  }
+}
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+export class CustomRuleRunner {
+  constructor(private registry: CustomRuleRegistry = new CustomRuleRegistry()) {}
+
+  /**
+   * Run every rule against the files matching its filePatterns.
+   * isIgnored receives paths relative to the project root (e.g. the rule
+   * pack's ignore list).
+   */
+  async run(
+    projectPath: string,
+    rules: CustomRule[],
+    isIgnored: (relativePath: string) => boolean = () => false
+  ): Promise<CustomRuleReport> {
+    const violations: CustomRuleViolation[] = [];
+    const skippedRules: CustomRuleReport['skippedRules'] = [];
+    const rulesRun: string[] = [];
+    const checkedFiles = new Set<string>();
+
+    for (const rule of rules) {
+      let validator: CustomRuleValidator;
+      try {
+        validator = await this.registry.resolve(rule.validator, projectPath);
+      } catch (error: any) {
+        skippedRules.push({ ruleId: rule.id, reason: error.message });
+        continue;
+      }
+
+      const files = (await this.findFiles(projectPath, rule.filePatterns ?? []))
+        .filter((file) => !isIgnored(file));
+
+      const ruleViolations: CustomRuleViolation[] = [];
+      let failure: string | null = null;
+
+      for (const relativePath of files) {
+        const filePath = path.join(projectPath, relativePath);
+        const content = await fs.readFile(filePath, 'utf-8').catch(() => null);
+        if (content === null || content.includes('\0')) {
+          continue;
+        }
+
+        checkedFiles.add(relativePath);
+
+        const context: CustomRuleContext = {
+          rule,
+          options: rule.options ?? {},
+          projectPath,
+          filePath,
+          relativePath,
+          content,
+          lines: content.split(/\r?\n/),
+        };
+
+        try {
+          for (const finding of await validator(context)) {
+            const { message, line } = typeof finding === 'string' ? { message: finding, line: undefined } : finding;
+            ruleViolations.push({ ruleId: rule.id, severity: rule.severity, file: relativePath, line, message });
+          }
+        } catch (error: any) {
+          failure = `${relativePath}: ${error.message}`;
+          break;
+        }
+      }
+
+      // A validator that throws is misconfigured or broken; its partial
+      // results would be misleading
+      if (failure) {
+        skippedRules.push({ ruleId: rule.id, reason: failure });
+        continue;
+      }
+
+      rulesRun.push(rule.id);
+      violations.push(...ruleViolations);
+    }
+
+    violations.sort((a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+      a.file.localeCompare(b.file) ||
+      (a.line ?? 0) - (b.line ?? 0)
+    );
+
+    return {
+      filesChecked: checkedFiles.size,
+      rulesRun,
+      skippedRules,
+      violations,
+      summary: {
+        error: violations.filter((v) => v.severity === 'error').length,
+        warning: violations.filter((v) => v.severity === 'warning').length,
+        info: violations.filter((v) => v.severity === 'info').length,
+      },
+    };
+  }
+
+  private async findFiles(projectPath: string, patterns: string[]): Promise<string[]> {
+    const positive = patterns.filter((p) => !p.startsWith('!'));
+    const negated = patterns.filter((p) => p.startsWith('!')).map((p) => p.slice(1));
+    const files = new Set<string>();
+
+    for (const pattern of positive) {
+      const matches = await glob(pattern, {
+        cwd: projectPath,
+        ignore: ['**/node_modules/**', '**/.git/**'],
+        nodir: true,
+        dot: true,
+        posix: true,
+      });
+      matches.forEach((file) => files.add(file.split(path.sep).join('/')));
+    }
+
+    return Array.from(files)
+      .filter((file) => !negated.some((pattern) => matchesGlob(file, pattern)))
+      .sort();
+  }
+}
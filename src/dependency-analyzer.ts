@@ -18,6 +18,12 @@ export interface DependencyInfo {
   framework?: string;
 }
 
+export interface ModuleSpecifier {
+  specifier: string;
+  index: number;  // Offset of the specifier text (inside the quotes) in the content
+  kind: 'import' | 'export' | 'require' | 'dynamic-import';
+}
+
 export class DependencyAnalyzer {
   /**
    * Analyze file dependencies
@@ -87,6 +93,34 @@ export class DependencyAnalyzer {
     };
   }
 
+  /**
+   * Every module specifier in the content with its position, so callers can
+   * rewrite specifiers in place
+   */
+  findModuleSpecifiers(content: string): ModuleSpecifier[] {
+    const patterns: Array<[RegExp, ModuleSpecifier['kind']]> = [
+      [/\bimport\s+(?:(?:[\w*\s{},$]*)\s+from\s+)?(['"])([^'"\n]+)\1/g, 'import'],
+      [/\bexport\s+(?:type\s+)?(?:\*(?:\s+as\s+[\w$]+)?|\{[^}]*\})\s*from\s+(['"])([^'"\n]+)\1/g, 'export'],
+      [/\brequire\s*\(\s*(['"])([^'"\n]+)\1\s*\)/g, 'require'],
+      [/\bimport\s*\(\s*(['"])([^'"\n]+)\1\s*\)/g, 'dynamic-import'],
+    ];
+
+    const specifiers: ModuleSpecifier[] = [];
+    const seen = new Set<number>();
+    for (const [regex, kind] of patterns) {
+      let match;
+      while ((match = regex.exec(content)) !== null) {
+        // The specifier is the last thing the pattern matched before the closing quote
+        const index = match.index + match[0].lastIndexOf(match[2] + match[1]);
+        if (seen.has(index)) continue;
+        seen.add(index);
+        specifiers.push({ specifier: match[2], index, kind });
+      }
+    }
+
+    return specifiers.sort((a, b) => a.index - b.index);
+  }
+
   /**
    * Check if import is an external package
    */
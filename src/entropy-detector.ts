@@ -0,0 +1,182 @@
+/**
+ * Entropy Detector
+ * Finds random-looking tokens in string literals and KEY=value assignments
+ * that no secret pattern knows about
+ */
+
+import * as path from 'path';
+import type { EntropyOptions } from './types.js';
+
+export type EntropyAlphabet = 'hex' | 'base64';
+
+export interface EntropyMatch {
+  line: number;        // 1-based
+  column: number;      // 1-based
+  value: string;
+  alphabet: EntropyAlphabet;
+  entropy: number;
+  key?: string;        // Assignment key or property name, when there is one
+  confidence: number;
+}
+
+export const DEFAULT_ENTROPY_OPTIONS: EntropyOptions = {
+  enabled: true,
+  hexThreshold: 3.0,
+  base64Threshold: 4.5,
+  minLength: 20,
+};
+
+// Maximum Shannon entropy per character of each alphabet
+const MAX_ENTROPY: Record<EntropyAlphabet, number> = {
+  hex: 4,
+  base64: 6,
+};
+
+const HEX_CHARS = /^[0-9a-fA-F]+$/;
+const BASE64_CHARS = /^[A-Za-z0-9+/_-]+={0,2}$/;
+const UUID = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
+const SECRET_KEY_NAME = /(secret|token|passw(or)?d|pwd|api[_-]?key|auth|credential|private[_-]?key|access[_-]?key|signature)/i;
+
+const STRING_LITERAL = /(["'`])([^"'`\s]+)\1/g;
+const ASSIGNMENT = /\b([A-Za-z_][\w.-]*)\s*[:=]\s*([^\s"'`,;)}\]]+)/g;
+const KEY_BEFORE_LITERAL = /([A-Za-z_][\w.-]*)["'`]?\s*[:=]\s*$/;
+
+// Lockfiles are full of integrity hashes and checksums
+const LOCKFILES = [
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lock',
+  'Cargo.lock',
+  'Gemfile.lock',
+  'composer.lock',
+  'poetry.lock',
+  'Pipfile.lock',
+  'go.sum',
+];
+
+const FIXTURE_SEGMENTS = ['fixtures', '__fixtures__', 'testdata', '__snapshots__'];
+
+export class EntropyDetector {
+  private options: EntropyOptions;
+
+  constructor(options: Partial<EntropyOptions> = {}) {
+    this.options = { ...DEFAULT_ENTROPY_OPTIONS, ...options };
+  }
+
+  /**
+   * Whether a file is skipped entirely: lockfiles, snapshots and test
+   * fixtures hold hashes and sample keys by design
+   */
+  isSuppressedFile(file: string): boolean {
+    if (!file) return false;
+
+    const basename = path.basename(file);
+    if (LOCKFILES.includes(basename) || basename.endsWith('.snap')) {
+      return true;
+    }
+
+    const segments = file.split(/[\\/]/);
+    return segments.some((segment) => FIXTURE_SEGMENTS.includes(segment));
+  }
+
+  detect(content: string, file: string = ''): EntropyMatch[] {
+    if (!this.options.enabled || this.isSuppressedFile(file)) {
+      return [];
+    }
+
+    const matches: EntropyMatch[] = [];
+    const lines = content.split('\n');
+
+    for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+      const line = lines[lineIndex];
+      const seen = new Set<number>();
+
+      for (const match of line.matchAll(STRING_LITERAL)) {
+        const column = match.index! + 1;
+        const key = line.slice(0, match.index).match(KEY_BEFORE_LITERAL)?.[1];
+        const found = this.score(match[2], lineIndex + 1, column + 1, key);
+        if (found) {
+          matches.push(found);
+          seen.add(found.column);
+        }
+      }
+
+      for (const match of line.matchAll(ASSIGNMENT)) {
+        const column = match.index! + match[0].length - match[2].length + 1;
+        if (seen.has(column)) continue;
+
+        const found = this.score(match[2], lineIndex + 1, column, match[1]);
+        if (found) matches.push(found);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Shannon entropy of a value, in bits per character
+   */
+  entropy(value: string): number {
+    if (value.length === 0) return 0;
+
+    const frequencies = new Map<string, number>();
+    for (const char of value) {
+      frequencies.set(char, (frequencies.get(char) || 0) + 1);
+    }
+
+    let entropy = 0;
+    for (const count of frequencies.values()) {
+      const probability = count / value.length;
+      entropy -= probability * Math.log2(probability);
+    }
+
+    return entropy;
+  }
+
+  private score(value: string, line: number, column: number, key?: string): EntropyMatch | null {
+    if (value.length < this.options.minLength || UUID.test(value)) {
+      return null;
+    }
+
+    const alphabet = this.alphabetOf(value);
+    if (!alphabet) {
+      return null;
+    }
+
+    const entropy = this.entropy(value);
+    const threshold = alphabet === 'hex' ? this.options.hexThreshold : this.options.base64Threshold;
+    if (entropy < threshold) {
+      return null;
+    }
+
+    // Scale how far the value sits between the threshold and the alphabet's maximum
+    const headroom = Math.max(MAX_ENTROPY[alphabet] - threshold, 0.1);
+    let confidence = 0.5 + Math.min((entropy - threshold) / headroom, 1) * 0.3;
+    if (key && SECRET_KEY_NAME.test(key)) {
+      confidence += 0.15;
+    }
+
+    return {
+      line,
+      column,
+      value,
+      alphabet,
+      entropy,
+      key,
+      confidence: Math.round(Math.min(confidence, 0.95) * 100) / 100,
+    };
+  }
+
+  private alphabetOf(value: string): EntropyAlphabet | null {
+    // Long identifiers and words are not tokens; require letters and digits
+    if (!/[0-9]/.test(value) || !/[A-Za-z]/.test(value)) {
+      return null;
+    }
+
+    if (HEX_CHARS.test(value)) return 'hex';
+    if (BASE64_CHARS.test(value)) return 'base64';
+    return null;
+  }
+}
@@ -7,19 +7,56 @@ import type {
   ICanSuggestFileLocations,
   GitRepository,
 } from './types.js';
-import { AIClassifierFactory } from './ai-classifier.js';
+import type { FileClassificationRules } from './rulepack-types.js';
+import {
+  AIClassifierFactory,
+  type AIProvider,
+  type BatchClassificationOutcome,
+  type RejectedClassification,
+} from './ai-classifier.js';
+import type { ClassificationCache } from './classification-cache.js';
+import { matchesAnyGlob } from './glob-matcher.js';
+
+const KNOWN_CATEGORIES: FileCategory[] = ['source', 'config', 'documentation', 'script', 'test', 'asset'];
+
+export type RejectedFile = RejectedClassification & { path: string };
 
 export class FileClassifier implements ICanClassifyFiles, ICanSuggestFileLocations {
+  private rejected: RejectedFile[] = [];
+  protected cache: ClassificationCache | null = null;
+
+  /**
+   * @param classificationRules Optional rule pack fileClassification section
+   * @param rootPath Project root that rule pack patterns are relative to
+   */
+  constructor(
+    private classificationRules?: FileClassificationRules,
+    private rootPath?: string
+  ) {}
+
+  /**
+   * Set the cache AI classifications are reused from; null always asks the
+   * model. The caller saves it once the run is done.
+   */
+  setCache(cache: ClassificationCache | null): void {
+    this.cache = cache;
+  }
+
   async classify(filePath: string, content?: string): Promise<FileClassification> {
+    // Explicit rule pack patterns take precedence over AI and heuristics
+    const patternMatch = this.classifyByRulePack(filePath, 'patterns');
+    if (patternMatch) {
+      return patternMatch;
+    }
+
     // Try AI classification first if available
     const aiProvider = await AIClassifierFactory.getPreferredProvider();
     if (aiProvider && content) {
       try {
         const ai = await AIClassifierFactory.create();
         if (ai) {
-          const result = await ai.classify(filePath, content);
           // AI succeeded, return result
-          return result;
+          return await this.classifyWithAI(ai, filePath, content);
         }
       } catch (error) {
         // AI failed, fall through to heuristics
@@ -38,7 +75,7 @@ export class FileClassifier implements ICanClassifyFiles, ICanSuggestFileLocatio
             try {
               const ai = await AIClassifierFactory.create();
               if (ai) {
-                return await ai.classify(filePath, content);
+                return await this.classifyWithAI(ai, filePath, content);
               }
             } catch (error) {
               // Fall through to heuristics
@@ -78,6 +115,12 @@ export class FileClassifier implements ICanClassifyFiles, ICanSuggestFileLocatio
       };
     }
 
+    // Rule pack extensions replace the built-in extension table
+    const extensionMatch = this.classifyByRulePack(filePath, 'extensions');
+    if (extensionMatch) {
+      return extensionMatch;
+    }
+
     // Check by extension
     const extResult = this.classifyByExtension(ext, basename);
     return {
@@ -89,23 +132,36 @@ export class FileClassifier implements ICanClassifyFiles, ICanSuggestFileLocatio
   }
 
   async classifyBatch(files: string[]): Promise<FileClassification[]> {
+    this.rejected = [];
+
     // Check if AI is available for batch processing
     const aiProvider = await AIClassifierFactory.getPreferredProvider();
     if (!aiProvider || files.length === 0) {
       // Fall back to individual classification
-      return Promise.all(files.map((file) => this.classify(file)));
+      return Promise.all(files.map((file) => this.classifyFile(file)));
     }
 
+    // Explicit rule pack patterns take precedence over AI
+    const toAsk = files.filter((file) => !this.classifyByRulePack(file, 'patterns'));
+
     try {
       // Use intelligent batch processing with AI
       const ai = await AIClassifierFactory.create();
       if (ai && ai.classifyBatch) {
         // Note: This simplified version doesn't have repository context
         // For full batch processing, use IntelligentBatchProcessor instead
+        const contents = new Map<string, string>();
+        const cached = new Map<string, FileClassification>();
         const batchFiles = await Promise.all(
-          files.map(async (filePath) => {
+          toAsk.map(async (filePath) => {
             try {
               const content = await fs.readFile(filePath, 'utf-8');
+              contents.set(filePath, content);
+              const classification = this.cache?.get(filePath, content, ai.modelId);
+              if (classification) {
+                cached.set(filePath, classification);
+                return null;
+              }
               return {
                 fileName: path.basename(filePath),
                 filePath,
@@ -118,26 +174,97 @@ export class FileClassifier implements ICanClassifyFiles, ICanSuggestFileLocatio
         );
 
         const validFiles = batchFiles.filter((f): f is NonNullable<typeof f> => f !== null);
-        if (validFiles.length === 0) {
-          return Promise.all(files.map((file) => this.classify(file)));
+
+        let outcome: Pick<BatchClassificationOutcome, 'results' | 'rejected'> = { results: [], rejected: [] };
+        try {
+          if (validFiles.length > 0) {
+            outcome = await ai.classifyBatch(validFiles, []);
+          }
+        } catch (error: any) {
+          outcome = {
+            results: [],
+            rejected: validFiles.map((f) => ({ fileName: f.fileName, reason: error.message })),
+          };
         }
 
-        const results = await ai.classifyBatch(validFiles, []);
+        // Files without a valid AI answer are reported, then classified individually
+        this.rejected = outcome.rejected.map((rejection) => ({
+          ...rejection,
+          path: validFiles.find((f) => f.fileName === rejection.fileName)?.filePath ?? rejection.fileName,
+        }));
 
         // Convert batch results to FileClassification format
-        return results.map((result) => ({
-          path: result.fileName, // Will be the file path from batchFiles
-          category: result.category,
-          confidence: result.confidence,
-          reasoning: result.reasoning,
-        }));
+        const classified = new Map(outcome.results.map((result) => [result.fileName, result]));
+        return Promise.all(
+          files.map(async (filePath) => {
+            const hit = cached.get(filePath);
+            if (hit) return hit;
+
+            const result = toAsk.includes(filePath) ? classified.get(path.basename(filePath)) : undefined;
+            if (!result) return this.classifyFile(filePath);
+            const classification: FileClassification = {
+              path: filePath,
+              category: result.category,
+              confidence: result.confidence,
+              reasoning: result.reasoning,
+            };
+            this.remember(classification, contents.get(filePath)!, ai.modelId);
+            return classification;
+          })
+        );
       }
     } catch (error) {
       // AI batch failed, fall through
     }
 
     // Fallback to sequential processing
-    return Promise.all(files.map((file) => this.classify(file)));
+    return Promise.all(files.map((file) => this.classifyFile(file)));
+  }
+
+  /**
+   * Files the last classifyBatch call got no valid AI answer for; they were
+   * classified individually instead
+   */
+  getRejected(): RejectedFile[] {
+    return [...this.rejected];
+  }
+
+  /**
+   * Ask the model about one file, unless the cache already knows the answer
+   */
+  private async classifyWithAI(ai: AIProvider, filePath: string, content: string): Promise<FileClassification> {
+    const cached = this.cache?.get(filePath, content, ai.modelId);
+    if (cached) return cached;
+
+    const result = await ai.classify(filePath, content);
+    this.remember(result, content, ai.modelId);
+    return result;
+  }
+
+  /**
+   * Cache an AI answer; 'unknown' (which is also what an unparseable answer
+   * becomes) is asked again next time
+   */
+  protected remember(classification: FileClassification, content: string, modelId: string): void {
+    if (classification.category !== 'unknown') {
+      this.cache?.set(classification, content, modelId);
+    }
+  }
+
+  /**
+   * Classify a single file with its content, so heuristics can use it too
+   */
+  private async classifyFile(filePath: string): Promise<FileClassification> {
+    let content: string | undefined;
+    try {
+      const stats = await fs.stat(filePath);
+      if (stats.size < 100000) { // Only read files < 100KB
+        content = await fs.readFile(filePath, 'utf-8');
+      }
+    } catch {
+      // Can't read file, continue without content
+    }
+    return this.classify(filePath, content);
   }
 
   async suggestLocation(
@@ -164,6 +291,12 @@ export class FileClassifier implements ICanClassifyFiles, ICanSuggestFileLocatio
       }
     }
 
+    // Rule pack locations win over the built-in defaults
+    const ruleLocation = this.classificationRules?.categories[file.category]?.suggestedLocation;
+    if (ruleLocation) {
+      return path.join(targetRepo.path, ruleLocation, path.basename(file.path));
+    }
+
     // Suggest location within target repository
     switch (file.category) {
       case 'documentation':
@@ -240,6 +373,53 @@ export class FileClassifier implements ICanClassifyFiles, ICanSuggestFileLocatio
     }
   }
 
+  /**
+   * Match a file against the rule pack categories, either by explicit
+   * glob patterns or by extension. excludePatterns always apply.
+   */
+  private classifyByRulePack(
+    filePath: string,
+    matchBy: 'patterns' | 'extensions'
+  ): FileClassification | null {
+    if (!this.classificationRules) {
+      return null;
+    }
+
+    const relativePath = this.rootPath
+      ? path.relative(this.rootPath, filePath)
+      : path.basename(filePath);
+    const ext = path.extname(filePath);
+
+    for (const [name, definition] of Object.entries(this.classificationRules.categories)) {
+      const category = name as FileCategory;
+      if (!KNOWN_CATEGORIES.includes(category)) continue;
+
+      if (definition.excludePatterns && matchesAnyGlob(relativePath, definition.excludePatterns)) {
+        continue;
+      }
+
+      if (matchBy === 'patterns' && definition.patterns && matchesAnyGlob(relativePath, definition.patterns)) {
+        return {
+          path: filePath,
+          category,
+          confidence: 0.95,
+          reasoning: `Matches rule pack ${category} pattern`,
+        };
+      }
+
+      if (matchBy === 'extensions' && definition.extensions?.includes(ext)) {
+        return {
+          path: filePath,
+          category,
+          confidence: 0.85,
+          reasoning: `Rule pack ${category} extension`,
+        };
+      }
+    }
+
+    return null;
+  }
+
   private classifyByContent(
     content: string
   ): { category: FileCategory; confidence: number; reasoning: string } | null {
@@ -101,7 +101,10 @@ export class GitDetector
     return false;
   }
 
-  private findRepositoryForPath(
+  /**
+   * The deepest repository containing the path
+   */
+  findRepositoryForPath(
     filePath: string,
     repositories: GitRepository[]
   ): GitRepository | undefined {
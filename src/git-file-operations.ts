@@ -0,0 +1,93 @@
+/**
+ * Git File Operations
+ * Moves and deletes files tracked by a repository through `git mv` and
+ * `git rm`, so git records renames instead of a delete plus an untracked
+ * file, and commits the result of a run.
+ */
+
+import * as path from 'path';
+import { execFile } from 'child_process';
+
+export class GitFileOperations {
+  /**
+   * Whether git tracks the file, or any file below the directory
+   */
+  async isTracked(repoPath: string, filePath: string): Promise<boolean> {
+    const output = await this.run(repoPath, ['ls-files', '-z', '--', this.relative(repoPath, filePath)]);
+    return output.length > 0;
+  }
+
+  async move(repoPath: string, source: string, target: string): Promise<void> {
+    await this.run(repoPath, ['mv', '--', this.relative(repoPath, source), this.relative(repoPath, target)]);
+  }
+
+  /**
+   * git rm, forced: the executor has backed up the file, and local changes
+   * would otherwise make git refuse
+   */
+  async remove(repoPath: string, filePath: string): Promise<void> {
+    await this.run(repoPath, ['rm', '-q', '-f', '--', this.relative(repoPath, filePath)]);
+  }
+
+  /**
+   * Stage the changes to the paths git tracks; untracked paths stay untracked
+   */
+  async stage(repoPath: string, paths: string[]): Promise<void> {
+    const tracked: string[] = [];
+    for (const filePath of paths) {
+      if (await this.isTracked(repoPath, filePath)) {
+        tracked.push(this.relative(repoPath, filePath));
+      }
+    }
+    if (tracked.length > 0) {
+      await this.run(repoPath, ['add', '-u', '--', ...tracked]);
+    }
+  }
+
+  /**
+   * Reset the index entries of the paths to HEAD, e.g. after a rollback put
+   * the files back where they were
+   */
+  async unstage(repoPath: string, paths: string[]): Promise<void> {
+    if (paths.length > 0) {
+      await this.run(repoPath, ['reset', '-q', '--', ...paths.map((p) => this.relative(repoPath, p))]);
+    }
+  }
+
+  async hasStagedChanges(repoPath: string): Promise<boolean> {
+    try {
+      await this.run(repoPath, ['diff', '--cached', '--quiet']);
+      return false;
+    } catch (error: any) {
+      if (error.exitCode === 1) return true;
+      throw error;
+    }
+  }
+
+  /**
+   * Commit what is staged and return the new commit's hash
+   */
+  async commit(repoPath: string, message: string): Promise<string> {
+    await this.run(repoPath, ['commit', '-q', '-m', message]);
+    return (await this.run(repoPath, ['rev-parse', 'HEAD'])).trim();
+  }
+
+  private run(repoPath: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      execFile('git', args, { cwd: repoPath, maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+        if (error) {
+          const reason = stderr.trim().split('\n')[0] || error.message;
+          const failure: Error & { exitCode?: number } = new Error(`git ${args[0]} failed in ${repoPath}: ${reason}`);
+          failure.exitCode = typeof error.code === 'number' ? error.code : undefined;
+          reject(failure);
+          return;
+        }
+        resolve(stdout);
+      });
+    });
+  }
+
+  private relative(repoPath: string, filePath: string): string {
+    return path.relative(repoPath, path.resolve(filePath)) || '.';
+  }
+}
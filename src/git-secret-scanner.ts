@@ -0,0 +1,180 @@
+/**
+ * Git Secret Scanner
+ * Scans the lines added by commits (`git log -p`) or by the staged diff
+ * (`git diff --cached`), so secrets that were committed and later deleted,
+ * or are about to be committed, are caught too
+ */
+
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { createInterface } from 'readline';
+import { SecretScanner, summarizeFindings } from './secret-scanner.js';
+import type { SecretFinding, SecretScanResult } from './types.js';
+
+export interface GitHistoryScanOptions {
+  since?: string;     // Passed to git log --since
+  maxCount?: number;  // Passed to git log --max-count
+}
+
+interface CommitInfo {
+  sha: string;
+  author: string;
+}
+
+/**
+ * Lines a diff adds to one file, with their line numbers in the new file
+ */
+interface AddedLines {
+  file: string;
+  commit?: CommitInfo;
+  lines: string[];
+  lineNumbers: number[];
+}
+
+// Unit separator keeps author names with spaces intact
+const COMMIT_MARKER = '\x1fdevibe-commit';
+
+export class GitSecretScanner {
+  constructor(private scanner: SecretScanner) {}
+
+  /**
+   * Scan every line added by each commit reachable from HEAD
+   */
+  async scanHistory(repoPath: string, options: GitHistoryScanOptions = {}): Promise<SecretScanResult> {
+    const args = [
+      'log', '-p', '--no-color', '--no-ext-diff', '--no-renames', '--relative', '-U0',
+      `--format=${COMMIT_MARKER}%x1f%H%x1f%an <%ae>`,
+    ];
+    if (options.since) args.push(`--since=${options.since}`);
+    if (options.maxCount) args.push(`--max-count=${options.maxCount}`);
+
+    return this.scanDiff(repoPath, args);
+  }
+
+  /**
+   * Scan only the lines added in the index, for pre-commit hooks
+   */
+  async scanStaged(repoPath: string): Promise<SecretScanResult> {
+    return this.scanDiff(repoPath, [
+      'diff', '--cached', '--no-color', '--no-ext-diff', '--relative', '-U0', '--diff-filter=ACMR',
+    ]);
+  }
+
+  private async scanDiff(repoPath: string, args: string[]): Promise<SecretScanResult> {
+    const startTime = Date.now();
+    const findings: SecretFinding[] = [];
+    const filesScanned = new Set<string>();
+
+    await this.readDiff(repoPath, args, (added) => {
+      const file = path.join(repoPath, added.file);
+      if (this.scanner.isExcluded(file)) return;
+
+      filesScanned.add(added.file);
+      for (const finding of this.scanner.matchPatterns(added.lines.join('\n'), file)) {
+        findings.push({
+          ...finding,
+          line: added.lineNumbers[finding.line - 1],
+          ...(added.commit && { commit: added.commit.sha, author: added.commit.author }),
+        });
+      }
+    });
+
+    return {
+      filesScanned: filesScanned.size,
+      secretsFound: findings.length,
+      duration: Date.now() - startTime,
+      findings,
+      summary: summarizeFindings(findings),
+    };
+  }
+
+  /**
+   * Stream git output line by line so large histories never sit in memory,
+   * handing each file's added lines to onFile as soon as they are complete
+   */
+  private readDiff(repoPath: string, args: string[], onFile: (added: AddedLines) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const git = spawn('git', args, { cwd: repoPath });
+      let stderr = '';
+      let commit: CommitInfo | undefined;
+      let current: AddedLines | null = null;
+      let nextLine = 0;
+      // Between "diff --git" and the first hunk; "+++ " is only a file
+      // header right after the "--- " line there, otherwise it is content
+      let inHeader = false;
+      let oldPathSeen = false;
+
+      const flush = () => {
+        if (current && current.lines.length > 0) onFile(current);
+        current = null;
+      };
+
+      git.stderr.on('data', (chunk) => (stderr += chunk));
+      git.on('error', (error) => reject(new Error(`Failed to run git: ${error.message}`)));
+
+      const reader = createInterface({ input: git.stdout, crlfDelay: Infinity });
+
+      reader.on('line', (line) => {
+        if (line.startsWith(COMMIT_MARKER)) {
+          flush();
+          const [, , sha, author] = line.split('\x1f');
+          commit = { sha, author };
+        } else if (line.startsWith('diff --git ')) {
+          flush();
+          inHeader = true;
+          oldPathSeen = false;
+        } else if (inHeader && line.startsWith('--- ')) {
+          oldPathSeen = true;
+        } else if (inHeader && oldPathSeen && line.startsWith('+++ ')) {
+          // "+++ /dev/null" is a deletion: nothing added
+          const file = unquoteGitPath(line.slice(4));
+          current = file === '/dev/null'
+            ? null
+            : { file: file.replace(/^b\//, ''), commit, lines: [], lineNumbers: [] };
+        } else if (line.startsWith('@@')) {
+          inHeader = false;
+          const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)/);
+          nextLine = hunk ? parseInt(hunk[1], 10) : 0;
+        } else if (current && line.startsWith('+')) {
+          current.lines.push(line.slice(1));
+          current.lineNumbers.push(nextLine++);
+        }
+      });
+
+      git.on('close', (code) => {
+        flush();
+        if (code !== 0) {
+          const reason = stderr.trim().split('\n')[0] || `git exited with code ${code}`;
+          reject(new Error(`Git scan failed in ${repoPath}: ${reason}`));
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+}
+
+const GIT_ESCAPES: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, '\\': 92 };
+
+/**
+ * Git quotes paths with unusual characters C-style, non-ASCII bytes as
+ * octal escapes: "b/caf\303\251.js"
+ */
+function unquoteGitPath(quoted: string): string {
+  if (!quoted.startsWith('"') || !quoted.endsWith('"')) return quoted;
+
+  const bytes: number[] = [];
+  const body = quoted.slice(1, -1);
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] !== '\\') {
+      bytes.push(...Buffer.from(body[i], 'utf-8'));
+    } else if (/^[0-7]{3}$/.test(body.slice(i + 1, i + 4))) {
+      bytes.push(parseInt(body.slice(i + 1, i + 4), 8));
+      i += 3;
+    } else {
+      const escaped = body[++i];
+      bytes.push(GIT_ESCAPES[escaped] ?? escaped.charCodeAt(0));
+    }
+  }
+  return Buffer.from(bytes).toString('utf-8');
+}
@@ -0,0 +1,97 @@
+/**
+ * Glob Matcher
+ * Minimal glob-to-regex matching for rule pack patterns
+ *
+ * Supports `**`, `*`, `?`, `{a,b}` and `!` negation. Patterns without a
+ * slash match against the basename (like .gitignore), patterns with a
+ * slash match against the full relative path.
+ */
+
+import * as path from 'path';
+
+const regexCache = new Map<string, RegExp>();
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = regexCache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  let regex = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" matches zero or more directories, trailing "**" matches everything
+        if (pattern[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+        } else {
+          regex += '.*';
+          i += 1;
+        }
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      regex += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      regex += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      regex += '|';
+    } else if ('.+^$()|[]\\'.includes(char)) {
+      regex += '\\' + char;
+    } else {
+      regex += char;
+    }
+  }
+
+  const compiled = new RegExp(`^${regex}$`);
+  regexCache.set(pattern, compiled);
+  return compiled;
+}
+
+/**
+ * Check whether a relative path matches a single (non-negated) glob pattern
+ */
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  const normalized = relativePath.split(path.sep).join('/').replace(/^\.\//, '');
+  const cleanPattern = pattern.replace(/^\.\//, '').replace(/\/$/, '/**');
+
+  if (!cleanPattern.includes('/')) {
+    return globToRegExp(cleanPattern).test(path.posix.basename(normalized));
+  }
+
+  return globToRegExp(cleanPattern).test(normalized);
+}
+
+/**
+ * Check a path against a pattern list where "!pattern" entries exclude.
+ * The path matches when at least one positive pattern matches and no
+ * negated pattern does.
+ */
+export function matchesAnyGlob(relativePath: string, patterns: string[]): boolean {
+  let matched = false;
+
+  for (const pattern of patterns) {
+    if (pattern.startsWith('!')) {
+      if (matchesGlob(relativePath, pattern.slice(1))) {
+        return false;
+      }
+    } else if (!matched && matchesGlob(relativePath, pattern)) {
+      matched = true;
+    }
+  }
+
+  return matched;
+}
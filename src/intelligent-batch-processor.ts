@@ -2,27 +2,33 @@
  * Intelligent Batch Processor
  *
  * Uses model-aware context window optimization to maximize batch sizes
- * and minimize API calls while staying within token limits.
+ * and minimize API calls while staying within token limits. Files the
+ * project's classification cache already knows are not sent at all.
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { AIBatchOptimizer, type FileInfo, type BatchGroup } from './ai-batch-optimizer.js';
-import { AIClassifierFactory } from './ai-classifier.js';
+import { AIClassifierFactory, type BatchClassificationOutcome, type RejectedClassification } from './ai-classifier.js';
 import type { FileClassification, GitRepository } from './types.js';
 import { getAIResolver } from './ai-provider-resolver.js';
 import { AVAILABLE_MODELS, type ModelConfig } from './ai-model-config.js';
+import { ClassificationCache } from './classification-cache.js';
 
 export interface BatchProcessingOptions {
   maxFileSize?: number; // Max file size to read (default 100KB)
   showProgress?: boolean; // Show progress output
-  onProgress?: (current: number, total: number, batchInfo: string) => void;
+  onProgress?: (current: number, total: number, batchInfo: string) => void;  // Once per finished batch
+  signal?: AbortSignal; // Cancels batches still waiting or in flight
+  cache?: boolean; // Reuse cached classifications of unchanged files (default true)
 }
 
 export interface BatchProcessingResult {
   classifications: FileClassification[];
+  rejected: Array<RejectedClassification & { path: string }>;  // No valid AI answer, even after re-asking or retries
   stats: {
     totalFiles: number;
+    cachedFiles: number;  // Answered from the cache, without an API call
     totalBatches: number;
     avgFilesPerBatch: number;
     totalApiCalls: number;
@@ -52,7 +58,9 @@ export class IntelligentBatchProcessor {
   }
 
   /**
-   * Process files using intelligent batching based on model's context window
+   * Process files using intelligent batching based on model's context window.
+   * Batches run concurrently within the provider's transport limits; a batch
+   * that still fails after retries rejects its files instead of the run.
    */
   async processFiles(
     filePaths: string[],
@@ -69,6 +77,8 @@ export class IntelligentBatchProcessor {
       maxFileSize = 100_000,
       showProgress = false,
       onProgress,
+      signal,
+      cache: useCache = true,
     } = options;
 
     // Load file contents
@@ -98,78 +108,128 @@ export class IntelligentBatchProcessor {
       throw new Error('No readable files to process');
     }
 
+    const ai = await AIClassifierFactory.create();
+
+    if (!ai || !ai.classifyBatch) {
+      throw new Error('AI provider does not support batch classification');
+    }
+
+    // Answer unchanged files from the cache of the root repository
+    const rootRepository = repositories.find(r => r.isRoot) ?? repositories[0];
+    const cache = useCache && rootRepository ? await ClassificationCache.forProject(rootRepository.path) : null;
+    const cached = new Map<string, FileClassification>();
+    for (const file of fileInfos) {
+      const classification = cache?.get(file.path, file.content, ai.modelId);
+      if (classification) cached.set(file.path, classification);
+    }
+
     // Create optimal batches using model's context window
-    const batches = this.optimizer!.createOptimalBatches(fileInfos);
+    const batches = this.optimizer!.createOptimalBatches(fileInfos.filter(f => !cached.has(f.path)));
     const validation = this.optimizer!.validateBatches(batches);
 
     if (!validation.valid) {
       throw new Error(`Batch validation failed: ${validation.issues.join(', ')}`);
     }
 
-    // Process each batch
-    const allClassifications: FileClassification[] = [];
-    const ai = await AIClassifierFactory.create();
+    // Process the batches
+    const rejected: BatchProcessingResult['rejected'] = [];
+    let reasks = 0;
 
-    if (!ai || !ai.classifyBatch) {
-      throw new Error('AI provider does not support batch classification');
-    }
+    const repoInfo = repositories.map(r => ({
+      name: path.basename(r.path),
+      path: r.path,
+      isRoot: r.isRoot,
+    }));
+
+    let finished = 0;
+    const classifyingBatches = Promise.all(batches.map(async (batch, index) => {
+      // Convert batch to AI-friendly format
+      const batchFiles = batch.files.map(f => ({
+        fileName: f.name,
+        filePath: f.path,
+        contentPreview: f.contentSample,
+      }));
 
-    let batchNum = 0;
-    for (const batch of batches) {
-      batchNum++;
+      // Classify the batch
+      let outcome: BatchClassificationOutcome;
+      try {
+        outcome = await ai.classifyBatch!(batchFiles, repoInfo, { signal });
+      } catch (error: any) {
+        if (signal?.aborted) throw error;
+        outcome = {
+          results: [],
+          rejected: batchFiles.map(f => ({ fileName: f.fileName, reason: error.message })),
+          requests: 1,
+        };
+      }
+      reasks += Math.max(0, outcome.requests - 1);
 
+      finished++;
       if (showProgress || onProgress) {
-        const batchInfo = `Batch ${batchNum}/${batches.length}: ${batch.files.length} files (${Math.round(batch.estimatedInputTokens).toLocaleString()} tokens)`;
+        const batchInfo = `Batch ${index + 1}/${batches.length}: ${batch.files.length} files (${Math.round(batch.estimatedInputTokens).toLocaleString()} tokens)`;
         if (onProgress) {
-          onProgress(batchNum, batches.length, batchInfo);
+          onProgress(finished, batches.length, batchInfo);
         }
         if (showProgress) {
           console.log(`📦 ${batchInfo}`);
         }
       }
 
-      // Convert batch to AI-friendly format
-      const batchFiles = batch.files.map(f => ({
-        fileName: f.name,
-        filePath: f.path,
-        contentPreview: f.contentSample,
-      }));
-
-      const repoInfo = repositories.map(r => ({
-        name: path.basename(r.path),
-        path: r.path,
-        isRoot: r.isRoot,
-      }));
-
-      // Classify the batch
-      const batchResults = await ai.classifyBatch(batchFiles, repoInfo);
+      for (const rejection of outcome.rejected) {
+        const file = batch.files.find(f => f.name === rejection.fileName);
+        rejected.push({ ...rejection, path: file?.path ?? rejection.fileName });
+      }
 
       // Convert batch results to FileClassification format
-      for (const result of batchResults) {
+      const classifications: FileClassification[] = [];
+      for (const result of outcome.results) {
         const file = batch.files.find(f => f.name === result.fileName);
         if (file) {
-          allClassifications.push({
+          const classification: FileClassification = {
             path: file.path,
             category: result.category,
             confidence: result.confidence,
             reasoning: result.reasoning,
-          });
+          };
+          classifications.push(classification);
+          cache?.set(classification, fileInfos.find(f => f.path === file.path)!.content, ai.modelId);
         }
       }
+      return classifications;
+    }));
+
+    // Keep what finished, even when the run is cancelled
+    let batchClassifications: FileClassification[][];
+    try {
+      batchClassifications = await classifyingBatches;
+    } finally {
+      await cache?.save();
     }
 
+    // Cached files first, then in batch order, whichever finished first
+    const allClassifications = [...cached.values(), ...batchClassifications.flat()];
+
     // Calculate stats
     const stats = this.optimizer!.getBatchStats(batches);
     const efficiency = this.optimizer!.calculateEfficiency(batches);
     const processingTime = Date.now() - startTime;
 
+    if (showProgress && rejected.length > 0) {
+      console.log(`⚠️  ${rejected.length} file(s) got no valid AI classification:`);
+      for (const rejection of rejected) {
+        console.log(`   ${rejection.path}: ${rejection.reason}`);
+      }
+    }
+
     return {
       classifications: allClassifications,
+      rejected,
       stats: {
         totalFiles: allClassifications.length,
+        cachedFiles: cached.size,
         totalBatches: batches.length,
         avgFilesPerBatch: efficiency.avgBatchSize,
-        totalApiCalls: efficiency.totalApiCalls,
+        totalApiCalls: efficiency.totalApiCalls + reasks,
         estimatedCost: stats.estimatedCost,
         modelUsed: this.model!.name,
         contextWindow: this.model!.contextWindow,
@@ -6,7 +6,8 @@
  * 2. Project structure analysis
  * 3. Dependency/import analysis
  *
- * This makes AI classification significantly smarter over time.
+ * This makes AI classification significantly smarter over time. AI answers
+ * are reused from the project's classification cache while a file is unchanged.
  */
 
 import type { FileClassification, GitRepository } from './types.js';
@@ -74,6 +75,14 @@ export class IntelligentClassifier extends FileClassifier {
 
     if (aiAvailable) {
       const ai = await AIClassifierFactory.create();
+      const cached = ai && this.cache?.get(filePath, content, ai.modelId);
+      if (cached) {
+        return {
+          ...cached,
+          reasoning: `AI (enhanced, cached): ${cached.reasoning}`,
+        };
+      }
+
       if (ai) {
         // Build enhanced prompt with project structure and dependencies
         const projectStructure = await this.learningDb.getProjectStructure();
@@ -109,6 +118,7 @@ export class IntelligentClassifier extends FileClassifier {
 
         try {
           const result = await ai.classify(filePath, enhancedPrompt);
+          this.remember(result, content, ai.modelId);
           return {
             ...result,
             reasoning: `AI (enhanced): ${result.reasoning}`,
@@ -143,8 +153,13 @@ export class IntelligentClassifier extends FileClassifier {
       }
     }
 
-    // Use base batch classification but with enhanced context
-    return super.classifyBatch(files);
+    // Each file goes through the enhanced path, so learned patterns and
+    // cached answers are used; IntelligentBatchProcessor batches AI requests
+    const classifications: FileClassification[] = [];
+    for (const filePath of files) {
+      classifications.push(await this.classify(filePath));
+    }
+    return classifications;
   }
 
   /**
@@ -0,0 +1,267 @@
+/**
+ * Naming Convention Checker
+ * Checks file and folder names against rule pack namingConventions and
+ * plans the renames that fix them
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { GitDetector } from './git-detector.js';
+import { UsageDetector } from './usage-detector.js';
+import { matchesGlob } from './glob-matcher.js';
+import type { FileOperation, OperationPlan } from './types.js';
+import type { NamingConvention, NamingConventionRules, NamingStyle } from './rulepack-types.js';
+
+export interface NamingViolation {
+  kind: 'file' | 'folder';
+  path: string;                // Absolute
+  relativePath: string;        // Relative to the checked root, forward slashes
+  convention: NamingStyle;
+  pattern: string;
+  suggestedName: string;
+  message: string;
+}
+
+const SKIPPED_DIRECTORIES = ['node_modules', '.git'];
+
+const STYLE_PATTERNS: Record<NamingStyle, RegExp> = {
+  'kebab-case': /^[a-z0-9]+(-[a-z0-9]+)*$/,
+  'snake_case': /^[a-z0-9]+(_[a-z0-9]+)*$/,
+  'SCREAMING_SNAKE_CASE': /^[A-Z0-9]+(_[A-Z0-9]+)*$/,
+  'camelCase': /^[a-z][a-zA-Z0-9]*$/,
+  'PascalCase': /^[A-Z][a-zA-Z0-9]*$/,
+};
+
+/**
+ * Split an identifier into lowercase words ("userAPIClient" -> user, api, client)
+ */
+function splitWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[\s_\-.]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+export function matchesNamingStyle(name: string, style: NamingStyle): boolean {
+  return STYLE_PATTERNS[style].test(name);
+}
+
+export function toNamingStyle(name: string, style: NamingStyle): string {
+  const words = splitWords(name);
+
+  switch (style) {
+    case 'kebab-case':
+      return words.join('-');
+    case 'snake_case':
+      return words.join('_');
+    case 'SCREAMING_SNAKE_CASE':
+      return words.join('_').toUpperCase();
+    case 'camelCase':
+      return words.map((w, i) => (i === 0 ? w : capitalize(w))).join('');
+    case 'PascalCase':
+      return words.map(capitalize).join('');
+  }
+}
+
+/**
+ * Split a file name into the part a convention applies to and the rest:
+ * "UserService.test.ts" -> ["UserService", ".test.ts"]
+ */
+function splitFileName(name: string): [string, string] {
+  const dot = name.indexOf('.');
+  return dot === -1 ? [name, ''] : [name.slice(0, dot), name.slice(dot)];
+}
+
+export class NamingConventionChecker {
+  constructor(
+    private rules: NamingConventionRules,
+    private gitDetector: GitDetector = new GitDetector(),
+    private usageDetector?: UsageDetector,
+    private isIgnored: (relativePath: string) => boolean = () => false
+  ) {}
+
+  /**
+   * Find files and folders whose names break a convention. When several
+   * conventions match a path, the last one listed wins.
+   */
+  async check(rootPath: string): Promise<NamingViolation[]> {
+    const gitResult = await this.gitDetector.detectRepositories(rootPath);
+    const nestedRepos = new Set(
+      gitResult.repositories
+        .map((repo) => path.resolve(repo.path))
+        .filter((repoPath) => repoPath !== path.resolve(rootPath))
+    );
+
+    const violations: NamingViolation[] = [];
+    await this.walk(path.resolve(rootPath), path.resolve(rootPath), nestedRepos, violations);
+    return violations;
+  }
+
+  /**
+   * Plan rename moves for violations. Files are renamed before folders and
+   * deeper paths before shallower ones, so every source path is still valid
+   * when its operation runs.
+   */
+  async planRenames(rootPath: string, violations?: NamingViolation[]): Promise<OperationPlan> {
+    const found = violations ?? (await this.check(rootPath));
+    const gitResult = await this.gitDetector.detectRepositories(rootPath);
+    const operations: FileOperation[] = [];
+    const warnings: string[] = [];
+    const plannedTargets = new Set<string>();
+
+    const ordered = [...found].sort((a, b) =>
+      (a.kind === b.kind ? 0 : a.kind === 'file' ? -1 : 1) ||
+      b.path.split(path.sep).length - a.path.split(path.sep).length
+    );
+
+    for (const violation of ordered) {
+      const targetPath = path.join(path.dirname(violation.path), violation.suggestedName);
+
+      if (!this.gitDetector.canMoveFile(violation.path, targetPath, gitResult.repositories)) {
+        warnings.push(`⚠️  ${violation.relativePath}: rename is outside a git repository or crosses a repository boundary - skipped`);
+        continue;
+      }
+
+      // A case-only rename targets the source itself on case-insensitive file systems
+      const caseOnly = targetPath.toLowerCase() === violation.path.toLowerCase();
+      if (plannedTargets.has(targetPath) || (!caseOnly && (await this.pathExists(targetPath)))) {
+        warnings.push(`⚠️  ${violation.relativePath}: ${violation.suggestedName} already exists - skipped`);
+        continue;
+      }
+      plannedTargets.add(targetPath);
+
+      const operation: FileOperation = {
+        type: 'move',
+        sourcePath: violation.path,
+        targetPath,
+        reason: violation.message,
+      };
+
+      if (this.usageDetector) {
+        try {
+          const usage = await this.usageDetector.checkFileUsage(violation.path, [rootPath]);
+          if (usage.isReferenced) {
+            const files = Array.from(new Set(
+              usage.references.map((ref) => path.relative(rootPath, ref.file))
+            ));
+            operation.isReferenced = true;
+            operation.warning = `Still referenced in ${files.length} file(s): ${files.slice(0, 3).join(', ')}${files.length > 3 ? ', ...' : ''}`;
+            warnings.push(`⚠️  ${violation.relativePath} is still referenced - update references after renaming`);
+          }
+        } catch {
+          // Usage detection failed, continue
+        }
+      }
+
+      operations.push(operation);
+    }
+
+    return {
+      operations,
+      backupRequired: operations.length > 0,
+      estimatedDuration: operations.length * 50,
+      warnings,
+    };
+  }
+
+  private async walk(
+    dir: string,
+    rootPath: string,
+    nestedRepos: Set<string>,
+    violations: NamingViolation[]
+  ): Promise<void> {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      // Hidden files and folders (.github, .eslintrc) follow tool conventions
+      if (entry.name.startsWith('.') || SKIPPED_DIRECTORIES.includes(entry.name)) {
+        continue;
+      }
+
+      const fullPath = path.join(dir, entry.name);
+      const relativePath = path.relative(rootPath, fullPath).split(path.sep).join('/');
+      if (this.isIgnored(relativePath)) {
+        continue;
+      }
+
+      if (entry.isDirectory()) {
+        // Nested repositories are checked with their own conventions
+        if (nestedRepos.has(fullPath)) {
+          continue;
+        }
+
+        const violation = this.checkName('folder', fullPath, relativePath, entry.name);
+        if (violation) violations.push(violation);
+
+        await this.walk(fullPath, rootPath, nestedRepos, violations);
+      } else if (entry.isFile()) {
+        const violation = this.checkName('file', fullPath, relativePath, entry.name);
+        if (violation) violations.push(violation);
+      }
+    }
+  }
+
+  private checkName(
+    kind: 'file' | 'folder',
+    fullPath: string,
+    relativePath: string,
+    name: string
+  ): NamingViolation | null {
+    const conventions = (kind === 'file' ? this.rules.files : this.rules.folders) ?? [];
+    const convention = this.findConvention(conventions, relativePath);
+    if (!convention) {
+      return null;
+    }
+
+    const [stem, suffix] = kind === 'file' ? splitFileName(name) : [name, ''];
+    if (matchesNamingStyle(stem, convention.convention)) {
+      return null;
+    }
+
+    const suggestedStem = toNamingStyle(stem, convention.convention);
+    if (!suggestedStem) {
+      return null;
+    }
+
+    return {
+      kind,
+      path: fullPath,
+      relativePath,
+      convention: convention.convention,
+      pattern: convention.pattern,
+      suggestedName: suggestedStem + suffix,
+      message: convention.message ??
+        `${kind === 'file' ? 'File' : 'Folder'} names matching ${convention.pattern} should be ${convention.convention} (e.g. ${convention.example})`,
+    };
+  }
+
+  private findConvention(conventions: NamingConvention[], relativePath: string): NamingConvention | null {
+    let found: NamingConvention | null = null;
+    for (const convention of conventions) {
+      if (matchesGlob(relativePath, convention.pattern)) {
+        found = convention;
+      }
+    }
+    return found;
+  }
+
+  private async pathExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
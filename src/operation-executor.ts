@@ -2,24 +2,33 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import type {
   FileOperation,
+  FileClassification,
   OperationPlan,
   ExecutionResult,
   ICanPlanOperations,
   ICanExecuteOperations,
   GitRepository,
+  BackupEntry,
+  BackupManifest,
+  ExecutionOptions,
+  GitCommitResult,
 } from './types.js';
-import type { GitDetector } from './git-detector.js';
+import { GitDetector } from './git-detector.js';
+import { GitFileOperations } from './git-file-operations.js';
 import type { FileClassifier } from './file-classifier.js';
 import type { BackupManager } from './backup-manager.js';
 import type { TestOrganizer } from './test-organizer.js';
 import type { UsageDetector } from './usage-detector.js';
+import type { RulePackEngine } from './rulepack-engine.js';
+import { ReferenceRewriter, type ReferenceRewrite } from './reference-rewriter.js';
 
 export class OperationPlanner implements ICanPlanOperations {
   constructor(
     private gitDetector: GitDetector,
     private fileClassifier: FileClassifier,
     private usageDetector?: UsageDetector,
-    private testOrganizer?: TestOrganizer
+    private testOrganizer?: TestOrganizer,
+    private rulePackEngine?: RulePackEngine
   ) {}
 
   async planRootFileDistribution(rootPath: string, onProgress?: (current: number, total: number, file: string) => void): Promise<OperationPlan> {
@@ -47,11 +56,14 @@ export class OperationPlanner implements ICanPlanOperations {
         e.name !== 'tsconfig.json' &&
         e.name !== 'README.md' &&  // Keep main README at root
         e.name !== 'LICENSE' &&     // Keep license at root
-        e.name !== '.gitignore'
+        e.name !== '.gitignore' &&
+        !this.rulePackEngine?.isIgnored(e.name)
     );
+    const documentsFolder = this.rulePackEngine?.getFolderForCategory('documentation') ?? 'documents';
 
     const totalFiles = rootFiles.length;
     let currentFile = 0;
+    const toClassify: string[] = [];
 
     for (const file of rootFiles) {
       currentFile++;
@@ -61,13 +73,20 @@ export class OperationPlanner implements ICanPlanOperations {
       const filePath = path.join(rootPath, file.name);
       const ext = path.extname(file.name);
 
+      // Rule pack: files forbidden at the root move to their category's folder
+      const forbiddenMove = await this.planForbiddenAtRootMove(filePath, gitResult.rootRepo.path, warnings);
+      if (forbiddenMove) {
+        operations.push(forbiddenMove);
+        continue;
+      }
+
       // Fast path for markdown files - they almost always go to documents/
       if (ext === '.md') {
         const targetRepo = gitResult.rootRepo;
         operations.push({
           type: 'move',
           sourcePath: filePath,
-          targetPath: path.join(targetRepo.path, 'documents', file.name),
+          targetPath: path.join(targetRepo.path, documentsFolder, file.name),
           reason: 'Markdown documentation file',
           isReferenced: false,
         });
@@ -157,7 +176,21 @@ export class OperationPlanner implements ICanPlanOperations {
         continue; // Skip AI analysis
       }
 
-      // For everything else, use normal classification
+      // Everything else is classified below, in one batch
+      toClassify.push(filePath);
+    }
+
+    const classifications = await this.fileClassifier.classifyBatch(toClassify);
+    for (const rejection of this.fileClassifier.getRejected()) {
+      warnings.push(
+        `⚠️  ${path.basename(rejection.path)}: no valid AI classification (${rejection.reason}) - classified on its own`
+      );
+    }
+
+    for (const [index, filePath] of toClassify.entries()) {
+      const fileName = path.basename(filePath);
+      const classification = classifications[index];
+
       let content: string | undefined;
       try {
         const stats = await fs.stat(filePath);
@@ -168,13 +201,11 @@ export class OperationPlanner implements ICanPlanOperations {
         // Can't read file, continue without content
       }
 
-      const classification = await this.fileClassifier.classify(filePath, content);
-
       // Check if file is still being used (if usage detector is available)
       // Only check for files that might be deleted (utility scripts)
       let isReferenced = false;
       let usageWarning: string | undefined;
-      if (this.usageDetector && this.isUtilityFile(file.name, classification)) {
+      if (this.usageDetector && this.isUtilityFile(fileName, classification)) {
         try {
           const startTime = Date.now();
           if (onProgress) {
@@ -189,7 +220,7 @@ export class OperationPlanner implements ICanPlanOperations {
           isReferenced = usageResult.isReferenced;
           if (isReferenced) {
             usageWarning = `Still referenced in ${usageResult.references.length} file(s)`;
-            warnings.push(`⚠️  ${file.name} is still referenced - recommend keeping (check took ${checkTime}ms)`);
+            warnings.push(`⚠️  ${fileName} is still referenced - recommend keeping (check took ${checkTime}ms)`);
           }
         } catch {
           // Usage detection failed, continue
@@ -212,14 +243,16 @@ export class OperationPlanner implements ICanPlanOperations {
           reason: `${classification.category} file (${classification.reasoning})`,
           warning: usageWarning,
           isReferenced,
+          classification: this.summarizeClassification(classification),
         });
-      } else if (!isReferenced && this.isUtilityFile(file.name, classification)) {
+      } else if (!isReferenced && this.isUtilityFile(fileName, classification)) {
         // Utility files that aren't referenced can be deleted
         operations.push({
           type: 'delete',
           sourcePath: filePath,
           reason: `Unused ${classification.category} file (${classification.reasoning})`,
           isReferenced: false,
+          classification: this.summarizeClassification(classification),
         });
       }
     }
@@ -253,7 +286,12 @@ export class OperationPlanner implements ICanPlanOperations {
   async planFolderEnforcement(repoPath: string): Promise<OperationPlan> {
     const operations: FileOperation[] = [];
     const warnings: string[] = [];
-    const requiredFolders = ['scripts', 'documents'];
+    const requiredFolders = this.rulePackEngine
+      ? this.rulePackEngine.getRequiredFolders().map((f) => f.path)
+      : ['scripts', 'documents'];
+    // A rule pack with structure.enforced: false only reports violations
+    const reportOnly = this.rulePackEngine !== undefined && !this.rulePackEngine.isStructureEnforced();
+    const scriptsFolder = this.rulePackEngine?.getFolderForCategory('script') ?? 'scripts';
 
     // Check which folders need to be created
     for (const folder of requiredFolders) {
@@ -261,6 +299,10 @@ export class OperationPlanner implements ICanPlanOperations {
       const exists = await this.pathExists(folderPath);
 
       if (!exists) {
+        if (reportOnly) {
+          warnings.push(`Missing required folder: ${folder}/`);
+          continue;
+        }
         operations.push({
           type: 'create',
           sourcePath: folderPath,
@@ -272,17 +314,34 @@ export class OperationPlanner implements ICanPlanOperations {
     // Find scripts in root and plan to move them
     const entries = await fs.readdir(repoPath, { withFileTypes: true });
     for (const entry of entries) {
-      if (entry.isFile() && this.isScript(entry.name)) {
-        const sourcePath = path.join(repoPath, entry.name);
-        const targetPath = path.join(repoPath, 'scripts', entry.name);
+      if (!entry.isFile() || this.rulePackEngine?.isIgnored(entry.name)) {
+        continue;
+      }
+
+      const sourcePath = path.join(repoPath, entry.name);
+
+      if (this.isScript(entry.name)) {
+        const targetPath = path.join(repoPath, scriptsFolder, entry.name);
 
         operations.push({
           type: 'move',
           sourcePath,
           targetPath,
-          reason: 'Move script to scripts/ folder',
+          reason: `Move script to ${scriptsFolder}/ folder`,
         });
+        continue;
+      }
+
+      const forbiddenWarnings: string[] = [];
+      const forbiddenMove = await this.planForbiddenAtRootMove(sourcePath, repoPath, forbiddenWarnings);
+      if (forbiddenMove) {
+        if (reportOnly) {
+          warnings.push(`${entry.name}: ${forbiddenMove.reason}`);
+        } else {
+          operations.push(forbiddenMove);
+        }
       }
+      warnings.push(...forbiddenWarnings);
     }
 
     return {
@@ -293,6 +352,46 @@ export class OperationPlanner implements ICanPlanOperations {
     };
   }
 
+  /**
+   * Plan a move for a root file that the rule pack forbids at the root.
+   * Returns null when no rule pack is active or the file is allowed.
+   */
+  private async planForbiddenAtRootMove(
+    filePath: string,
+    repoPath: string,
+    warnings: string[]
+  ): Promise<FileOperation | null> {
+    const fileName = path.basename(filePath);
+    const forbidden = this.rulePackEngine?.findForbiddenAtRoot(fileName);
+    if (!forbidden) {
+      return null;
+    }
+
+    const classification = await this.fileClassifier.classify(filePath);
+    const folder = this.rulePackEngine!.getFolderForCategory(classification.category);
+    if (!folder) {
+      warnings.push(`⚠️  ${fileName}: ${forbidden.message} (no folder accepts ${classification.category} files)`);
+      return null;
+    }
+
+    return {
+      type: 'move',
+      sourcePath: filePath,
+      targetPath: path.join(repoPath, folder, fileName),
+      reason: forbidden.message,
+      isReferenced: false,
+      classification: this.summarizeClassification(classification),
+    };
+  }
+
+  private summarizeClassification(classification: FileClassification): FileOperation['classification'] {
+    return {
+      category: classification.category,
+      confidence: classification.confidence,
+      reasoning: classification.reasoning,
+    };
+  }
+
   private async pathExists(p: string): Promise<boolean> {
     try {
       await fs.access(p);
@@ -328,12 +427,27 @@ export class OperationPlanner implements ICanPlanOperations {
   }
 }
 
+/**
+ * Git state of one execution: what git did, per repository path
+ */
+interface GitRun {
+  repositories: GitRepository[];
+  operations: Map<string, FileOperation[]>;  // Operations done with git mv or git rm
+  paths: Map<string, string[]>;              // Paths those operations changed
+}
+
 export class OperationExecutor implements ICanExecuteOperations {
-  constructor(private backupManager: BackupManager) {}
+  constructor(
+    private backupManager: BackupManager,
+    private gitDetector: GitDetector = new GitDetector(),
+    private referenceRewriter: ReferenceRewriter = new ReferenceRewriter(),
+    private gitOperations: GitFileOperations = new GitFileOperations()
+  ) {}
 
   async execute(
     plan: OperationPlan,
-    dryRun: boolean
+    dryRun: boolean,
+    options: ExecutionOptions = {}
   ): Promise<ExecutionResult> {
     const result: ExecutionResult = {
       success: true,
@@ -348,19 +462,65 @@ export class OperationExecutor implements ICanExecuteOperations {
       return result;
     }
 
-    // Create backups if needed
-    const backupEntries = [];
-    if (plan.backupRequired) {
+    const git: GitRun | undefined = options.git
+      ? { repositories: options.git.repositories, operations: new Map(), paths: new Map() }
+      : undefined;
+
+    // A commit would sweep up changes the user staged before the run
+    if (git && options.git?.commit) {
+      for (const repoPath of this.repositoriesOf(plan.operations, git)) {
+        if (await this.gitOperations.hasStagedChanges(repoPath)) {
+          result.success = false;
+          result.errors.push(`${repoPath} has staged changes. Commit or unstage them before committing the run.`);
+        }
+      }
+      if (!result.success) {
+        return result;
+      }
+    }
+
+    if (options.atomic) {
+      const problems = await this.preflight(plan.operations, options.repositories);
+      if (problems.length > 0) {
+        result.success = false;
+        result.errors.push(...problems);
+        return result;
+      }
+    }
+
+    // Plan reference updates against the tree as it is before anything moves
+    let rewrites: ReferenceRewrite[] = [];
+    if (options.rewriteReferencesIn) {
+      try {
+        rewrites = await this.planReferenceRewrites(plan.operations, options.rewriteReferencesIn);
+      } catch (error: any) {
+        result.errors.push(`Finding references to moved files failed: ${error.message}`);
+      }
+    }
+
+    // Create backups if needed. Atomic runs always back up: rollback
+    // restores from the manifest. So do runs that rewrite references.
+    const backupRequired = plan.backupRequired || options.atomic === true || rewrites.length > 0;
+    const backupEntries: BackupEntry[] = [];
+    const entriesByOperation = new Map<FileOperation, BackupEntry[]>();
+    const rewriteEntries = new Map<ReferenceRewrite, BackupEntry>();
+    let manifest: BackupManifest | undefined;
+    if (backupRequired) {
       for (const op of plan.operations) {
         if (op.type === 'move' || op.type === 'delete') {
           try {
             const exists = await this.fileExists(op.sourcePath);
             if (exists) {
-              const entry = await this.backupManager.backupFile(
-                op.sourcePath,
-                op.type
-              );
-              backupEntries.push(entry);
+              // Directory moves (e.g. folder renames) back up every file inside
+              const entries: BackupEntry[] = [];
+              for (const filePath of await this.listFiles(op.sourcePath)) {
+                const targetPath = op.type === 'move' && op.targetPath
+                  ? path.join(op.targetPath, path.relative(op.sourcePath, filePath))
+                  : undefined;
+                entries.push(await this.backupManager.backupFile(filePath, op.type, targetPath));
+              }
+              backupEntries.push(...entries);
+              entriesByOperation.set(op, entries);
             }
           } catch (error: any) {
             result.errors.push(`Backup failed for ${op.sourcePath}: ${error.message}`);
@@ -368,53 +528,414 @@ export class OperationExecutor implements ICanExecuteOperations {
         }
       }
 
+      // Rewrites join the manifest once written, so a restore never writes
+      // to a path a failed move left empty
+      for (const rewrite of rewrites) {
+        try {
+          rewriteEntries.set(
+            rewrite,
+            await this.backupManager.backupModification(rewrite.file, rewrite.content, rewrite.movedTo)
+          );
+        } catch (error: any) {
+          result.errors.push(`Backup failed for ${rewrite.file}: ${error.message}`);
+        }
+      }
+
+      // Without a complete backup an atomic run could not be undone
+      if (options.atomic && result.errors.length > 0) {
+        result.success = false;
+        return result;
+      }
+
       if (backupEntries.length > 0) {
-        const manifest = await this.backupManager.createManifest(backupEntries);
+        manifest = await this.backupManager.createManifest(backupEntries);
         result.backupManifestId = manifest.id;
       }
     }
 
     // Execute operations
+    const createdDirectories: string[] = [];
+    const completed: FileOperation[] = [];
     for (const op of plan.operations) {
       try {
-        await this.executeOperation(op);
+        await this.executeOperation(op, createdDirectories, git);
         result.operationsCompleted++;
+        completed.push(op);
       } catch (error: any) {
         result.operationsFailed++;
         result.errors.push(`${op.type} ${op.sourcePath}: ${error.message}`);
         result.success = false;
+        if (options.atomic) break;
+      }
+    }
+
+    // Update references only when every file is where they will point
+    const rewritten: BackupEntry[] = [];
+    if (rewriteEntries.size > 0) {
+      if (result.success) {
+        result.referencesUpdated = [];
+        for (const [rewrite, entry] of rewriteEntries) {
+          try {
+            await fs.writeFile(entry.sourcePath, rewrite.content);
+            rewritten.push(entry);
+            result.referencesUpdated.push(entry.sourcePath);
+          } catch (error: any) {
+            result.errors.push(`Updating references in ${entry.sourcePath} failed: ${error.message}`);
+            result.success = false;
+            if (options.atomic) break;
+          }
+        }
+      } else if (!options.atomic) {
+        result.errors.push('References to moved files were not updated because some operations failed');
+      }
+    }
+
+    // Record created directories and rewritten files so a restore can undo them
+    if (backupRequired && (createdDirectories.length > 0 || rewritten.length > 0)) {
+      if (manifest) {
+        manifest.createdDirectories = createdDirectories;
+        manifest.operations.push(...rewritten);
+        await this.backupManager.updateManifest(manifest);
+      } else {
+        manifest = await this.backupManager.createManifest(rewritten, createdDirectories);
+        result.backupManifestId = manifest.id;
+      }
+    }
+
+    if (options.atomic && !result.success) {
+      await this.rollback(manifest, completed, entriesByOperation, rewritten, result);
+      if (git) {
+        await this.unstage(git, result);
+      }
+    }
+
+    if (git && options.git?.commit) {
+      if (result.success) {
+        await this.commit(git, rewritten, result);
+      } else if (!options.atomic) {
+        result.errors.push('Nothing was committed because some operations failed');
+      }
+    }
+
+    // Enforce the configured retention now that this run's backup is saved
+    if (manifest) {
+      try {
+        await this.backupManager.prune({ preserve: [manifest.id] });
+      } catch (error: any) {
+        result.errors.push(`Backup pruning failed: ${error.message}`);
       }
     }
 
     return result;
   }
 
-  private async executeOperation(op: FileOperation): Promise<void> {
+  /**
+   * Check every operation against the file system as the operations before
+   * it will leave it, so an atomic run fails before anything changes
+   */
+  private async preflight(operations: FileOperation[], repositories?: GitRepository[]): Promise<string[]> {
+    const problems: string[] = [];
+    const added = new Set<string>();    // Paths earlier operations create
+    const removed = new Set<string>();  // Paths earlier operations move away or delete
+
+    const exists = async (filePath: string): Promise<boolean> => {
+      if (added.has(filePath)) return true;
+      if (removed.has(filePath)) return false;
+      return this.fileExists(filePath);
+    };
+
+    for (const op of operations) {
+      const source = path.resolve(op.sourcePath);
+      const label = `${op.type} ${op.sourcePath}`;
+
+      switch (op.type) {
+        case 'move': {
+          if (!op.targetPath) {
+            problems.push(`${label}: target path required for move operation`);
+            break;
+          }
+          const target = path.resolve(op.targetPath);
+
+          if (!(await exists(source))) {
+            problems.push(`${label}: source does not exist`);
+            break;
+          }
+          // A case-only rename finds the source itself on case-insensitive file systems
+          if (source.toLowerCase() !== target.toLowerCase() && (await exists(target))) {
+            problems.push(`${label}: target ${op.targetPath} already exists`);
+          }
+          if ((await this.deviceOf(source)) !== (await this.deviceOf(target))) {
+            problems.push(`${label}: target ${op.targetPath} is on a different file system`);
+          }
+          if (repositories && !this.gitDetector.canMoveFile(source, target, repositories)) {
+            problems.push(`${label}: moving to ${op.targetPath} would cross a git repository boundary`);
+          }
+
+          removed.add(source);
+          added.delete(source);
+          added.add(target);
+          removed.delete(target);
+          break;
+        }
+
+        case 'delete': {
+          if (!(await exists(source))) {
+            problems.push(`${label}: file does not exist`);
+          } else if (!added.has(source) && (await fs.stat(source)).isDirectory()) {
+            problems.push(`${label}: is a directory`);
+          }
+          removed.add(source);
+          added.delete(source);
+          break;
+        }
+
+        case 'create': {
+          const stats = removed.has(source) ? null : await fs.stat(source).catch(() => null);
+          if (stats && !stats.isDirectory()) {
+            problems.push(`${label}: a file already exists at this path`);
+          }
+          added.add(source);
+          removed.delete(source);
+          break;
+        }
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Undo the completed operations of a failed atomic run from its manifest
+   */
+  private async rollback(
+    manifest: BackupManifest | undefined,
+    completed: FileOperation[],
+    entriesByOperation: Map<FileOperation, BackupEntry[]>,
+    rewritten: BackupEntry[],
+    result: ExecutionResult
+  ): Promise<void> {
+    if (!manifest) {
+      // Nothing was backed up or created, so nothing changed
+      result.rollback = { operations: completed, restored: [], removed: [], removedDirectories: [], conflicts: [] };
+      return;
+    }
+
+    try {
+      const restored = await this.backupManager.restore(manifest.id, {
+        // Paths changed since the backup are this run's own changes
+        force: true,
+        entryIds: [
+          ...completed.flatMap((op) => (entriesByOperation.get(op) ?? []).map((entry) => entry.id)),
+          ...rewritten.map((entry) => entry.id),
+        ],
+      });
+      result.rollback = { operations: completed, ...restored };
+    } catch (error: any) {
+      result.errors.push(`Rollback failed: ${error.message}. Restore manually with: devibe restore ${manifest.id}`);
+    }
+  }
+
+  /**
+   * Rewrites for the plan's moves, leaving out files the plan deletes
+   */
+  private async planReferenceRewrites(operations: FileOperation[], rootPath: string): Promise<ReferenceRewrite[]> {
+    const moves = operations
+      .filter((op) => op.type === 'move' && op.targetPath)
+      .map((op) => ({ from: path.resolve(op.sourcePath), to: path.resolve(op.targetPath!) }));
+    const deleted = new Set(operations.filter((op) => op.type === 'delete').map((op) => path.resolve(op.sourcePath)));
+
+    const rewrites = await this.referenceRewriter.planRewrites(rootPath, moves);
+    return rewrites.filter((rewrite) => !deleted.has(rewrite.file));
+  }
+
+  /**
+   * Repositories holding the sources of the operations
+   */
+  private repositoriesOf(operations: FileOperation[], git: GitRun): string[] {
+    const repoPaths = new Set<string>();
+    for (const op of operations) {
+      const repo = this.gitDetector.findRepositoryForPath(op.sourcePath, git.repositories);
+      if (repo) repoPaths.add(repo.path);
+    }
+    return Array.from(repoPaths);
+  }
+
+  /**
+   * The repository that should move or delete the source: the one tracking
+   * it, as long as a move stays inside that repository
+   */
+  private async gitRepositoryFor(op: FileOperation, git: GitRun): Promise<string | null> {
+    const repo = this.gitDetector.findRepositoryForPath(op.sourcePath, git.repositories);
+    if (!repo) {
+      return null;
+    }
+    if (op.targetPath && this.gitDetector.findRepositoryForPath(op.targetPath, git.repositories)?.path !== repo.path) {
+      return null;
+    }
+    return (await this.gitOperations.isTracked(repo.path, op.sourcePath)) ? repo.path : null;
+  }
+
+  private recordGitOperation(git: GitRun, repoPath: string, op: FileOperation): void {
+    git.operations.set(repoPath, [...(git.operations.get(repoPath) ?? []), op]);
+    git.paths.set(repoPath, [
+      ...(git.paths.get(repoPath) ?? []),
+      op.sourcePath,
+      ...(op.targetPath ? [op.targetPath] : []),
+    ]);
+  }
+
+  /**
+   * Stage the rewritten files git tracks and commit each repository's
+   * changes with a message listing them
+   */
+  private async commit(git: GitRun, rewritten: BackupEntry[], result: ExecutionResult): Promise<void> {
+    const rewrittenByRepo = new Map<string, string[]>();
+    for (const entry of rewritten) {
+      const repo = this.gitDetector.findRepositoryForPath(entry.sourcePath, git.repositories);
+      if (repo) rewrittenByRepo.set(repo.path, [...(rewrittenByRepo.get(repo.path) ?? []), entry.sourcePath]);
+    }
+
+    result.commits = [];
+    for (const repoPath of new Set([...git.operations.keys(), ...rewrittenByRepo.keys()])) {
+      try {
+        await this.gitOperations.stage(repoPath, rewrittenByRepo.get(repoPath) ?? []);
+        if (!(await this.gitOperations.hasStagedChanges(repoPath))) continue;
+
+        const message = this.commitMessage(repoPath, git.operations.get(repoPath) ?? [], rewrittenByRepo.get(repoPath) ?? []);
+        const sha = await this.gitOperations.commit(repoPath, message);
+        result.commits.push({ repository: repoPath, sha, message });
+      } catch (error: any) {
+        result.errors.push(`Commit failed: ${error.message}`);
+        result.success = false;
+      }
+    }
+  }
+
+  private commitMessage(repoPath: string, operations: FileOperation[], rewritten: string[]): string {
+    const relative = (filePath: string) => path.relative(repoPath, filePath).split(path.sep).join('/');
+    const moved = operations.filter((op) => op.type === 'move').length;
+    const deleted = operations.filter((op) => op.type === 'delete').length;
+    const counts = [
+      moved > 0 && `move ${moved} file${moved === 1 ? '' : 's'}`,
+      deleted > 0 && `delete ${deleted} file${deleted === 1 ? '' : 's'}`,
+      rewritten.length > 0 && `update references in ${rewritten.length} file${rewritten.length === 1 ? '' : 's'}`,
+    ].filter(Boolean).join(', ');
+
+    const lines = operations.map((op) =>
+      op.type === 'move'
+        ? `- Move ${relative(op.sourcePath)} to ${relative(op.targetPath!)}`
+        : `- Delete ${relative(op.sourcePath)}`
+    );
+    lines.push(...rewritten.map((filePath) => `- Update references in ${relative(filePath)}`));
+
+    const subject = `Reorganize files: ${counts}`;
+    return `${subject}\n\n${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Reset the index for paths git moved or removed, after a rollback put
+   * the files back
+   */
+  private async unstage(git: GitRun, result: ExecutionResult): Promise<void> {
+    for (const [repoPath, paths] of git.paths) {
+      try {
+        await this.gitOperations.unstage(repoPath, paths);
+      } catch (error: any) {
+        result.errors.push(`Resetting the git index failed: ${error.message}`);
+      }
+    }
+  }
+
+  private async executeOperation(op: FileOperation, createdDirectories: string[], git?: GitRun): Promise<void> {
+    const repoPath = git && op.type !== 'create' ? await this.gitRepositoryFor(op, git) : null;
+
     switch (op.type) {
       case 'move':
         if (!op.targetPath) {
           throw new Error('Target path required for move operation');
         }
-        await this.moveFile(op.sourcePath, op.targetPath);
+        await this.moveFile(op.sourcePath, op.targetPath, createdDirectories, repoPath);
         break;
 
       case 'delete':
-        await fs.unlink(op.sourcePath);
+        if (repoPath) {
+          await this.gitOperations.remove(repoPath, op.sourcePath);
+        } else {
+          await fs.unlink(op.sourcePath);
+        }
         break;
 
       case 'create':
-        await fs.mkdir(op.sourcePath, { recursive: true });
+        await this.makeDirectory(op.sourcePath, createdDirectories);
         break;
     }
+
+    if (git && repoPath) {
+      this.recordGitOperation(git, repoPath, op);
+    }
   }
 
-  private async moveFile(source: string, target: string): Promise<void> {
+  /**
+   * Move with git mv when repoPath tracks the source, with a plain rename
+   * otherwise
+   */
+  private async moveFile(
+    source: string,
+    target: string,
+    createdDirectories: string[],
+    repoPath: string | null = null
+  ): Promise<void> {
+    // Fails before any directory is created when the source is gone
+    const isDirectory = (await fs.stat(source)).isDirectory();
+
     // Ensure target directory exists
     const targetDir = path.dirname(target);
-    await fs.mkdir(targetDir, { recursive: true });
+    await this.makeDirectory(targetDir, createdDirectories);
 
     // Move the file
-    await fs.rename(source, target);
+    if (repoPath) {
+      await this.gitOperations.move(repoPath, source, target);
+    } else {
+      await fs.rename(source, target);
+    }
+
+    // A moved directory and its subdirectories are new at the target
+    if (isDirectory) {
+      createdDirectories.push(path.resolve(target), ...(await this.listDirectories(target)));
+    }
+  }
+
+  /**
+   * mkdir -p that records every directory it actually created, parents first
+   */
+  private async makeDirectory(dir: string, createdDirectories: string[]): Promise<void> {
+    const missing: string[] = [];
+    let current = path.resolve(dir);
+    while (!(await this.fileExists(current))) {
+      missing.unshift(current);
+      const parent = path.dirname(current);
+      if (parent === current) break;
+      current = parent;
+    }
+
+    await fs.mkdir(dir, { recursive: true });
+    createdDirectories.push(...missing);
+  }
+
+  /**
+   * Device id of the path, or of its nearest existing ancestor
+   */
+  private async deviceOf(filePath: string): Promise<number> {
+    let current = path.resolve(filePath);
+    for (;;) {
+      try {
+        return (await fs.stat(current)).dev;
+      } catch (error) {
+        const parent = path.dirname(current);
+        if (parent === current) throw error;
+        current = parent;
+      }
+    }
   }
 
   private async fileExists(filePath: string): Promise<boolean> {
@@ -425,4 +946,39 @@ export class OperationExecutor implements ICanExecuteOperations {
       return false;
     }
   }
+
+  /**
+   * Every directory below dir, parents first
+   */
+  private async listDirectories(dir: string): Promise<string[]> {
+    const directories: string[] = [];
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      if (entry.isDirectory()) {
+        const fullPath = path.resolve(dir, entry.name);
+        directories.push(fullPath, ...(await this.listDirectories(fullPath)));
+      }
+    }
+    return directories;
+  }
+
+  /**
+   * The path itself for files, every file below it for directories
+   */
+  private async listFiles(sourcePath: string): Promise<string[]> {
+    const stats = await fs.stat(sourcePath);
+    if (!stats.isDirectory()) {
+      return [sourcePath];
+    }
+
+    const files: string[] = [];
+    for (const entry of await fs.readdir(sourcePath, { withFileTypes: true })) {
+      const fullPath = path.join(sourcePath, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await this.listFiles(fullPath)));
+      } else if (entry.isFile()) {
+        files.push(fullPath);
+      }
+    }
+    return files;
+  }
 }
@@ -0,0 +1,170 @@
+/**
+ * Plan File
+ * A saved OperationPlan, written by `devibe plan --out` and applied as is by
+ * `devibe execute --plan`. Sources are recorded with their hashes so a plan
+ * is never applied to files that changed after it was reviewed.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { hashBuffer } from './blob-store.js';
+import type { FileOperation, OperationPlan } from './types.js';
+
+export const PLAN_FILE_VERSION = 1;
+
+export interface PlannedOperation extends FileOperation {
+  sourceHash?: string;  // sha256 of the source when planned; creates have none
+}
+
+export interface PlanFileData {
+  version: typeof PLAN_FILE_VERSION;
+  createdAt: string;
+  // Paths are relative to the project root, with forward slashes, so the
+  // file reads well in review and applies to any checkout
+  operations: PlannedOperation[];
+  backupRequired: boolean;
+  estimatedDuration: number;
+  warnings: string[];
+}
+
+export interface PlanSourceChange {
+  path: string;
+  reason: string;
+}
+
+export class PlanFile {
+  constructor(private data: PlanFileData, private rootPath: string) {}
+
+  /**
+   * Write a plan for the project at rootPath, hashing every source
+   */
+  static async save(filePath: string, plan: OperationPlan, rootPath: string): Promise<PlanFile> {
+    const operations: PlannedOperation[] = [];
+    for (const op of plan.operations) {
+      const sourceHash = op.type === 'create' ? null : await hashPath(op.sourcePath);
+      operations.push({
+        ...op,
+        sourcePath: toRelative(rootPath, op.sourcePath),
+        ...(op.targetPath && { targetPath: toRelative(rootPath, op.targetPath) }),
+        ...(sourceHash && { sourceHash }),
+      });
+    }
+
+    const data: PlanFileData = {
+      version: PLAN_FILE_VERSION,
+      createdAt: new Date().toISOString(),
+      operations,
+      backupRequired: plan.backupRequired,
+      estimatedDuration: plan.estimatedDuration,
+      warnings: plan.warnings,
+    };
+
+    await fs.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(data, null, 2) + '\n');
+
+    return new PlanFile(data, rootPath);
+  }
+
+  /**
+   * Read a plan to apply to the project at rootPath
+   */
+  static async load(filePath: string, rootPath: string): Promise<PlanFile> {
+    let data: PlanFileData;
+    try {
+      data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error: any) {
+      throw new Error(`Invalid plan file ${filePath}: ${error.message}`);
+    }
+
+    if (!data || data.version !== PLAN_FILE_VERSION) {
+      throw new Error(`Unsupported plan file version in ${filePath}: ${data?.version}. Re-run devibe plan --out`);
+    }
+    if (!Array.isArray(data.operations)) {
+      throw new Error(`Invalid plan file ${filePath}: missing "operations" array`);
+    }
+
+    for (const op of data.operations) {
+      for (const relative of [op.sourcePath, op.targetPath]) {
+        if (relative !== undefined && (path.isAbsolute(relative) || relative.split('/').includes('..'))) {
+          throw new Error(`Invalid plan file ${filePath}: ${relative} is outside the project`);
+        }
+      }
+    }
+
+    return new PlanFile(data, rootPath);
+  }
+
+  get createdAt(): Date {
+    return new Date(this.data.createdAt);
+  }
+
+  /**
+   * The plan with absolute paths, ready for OperationExecutor
+   */
+  toOperationPlan(): OperationPlan {
+    return {
+      operations: this.data.operations.map(({ sourceHash, ...op }) => ({
+        ...op,
+        sourcePath: this.resolve(op.sourcePath),
+        ...(op.targetPath && { targetPath: this.resolve(op.targetPath) }),
+      })),
+      backupRequired: this.data.backupRequired,
+      estimatedDuration: this.data.estimatedDuration,
+      warnings: this.data.warnings ?? [],
+    };
+  }
+
+  /**
+   * Sources that are missing or whose content changed since planning
+   */
+  async findChangedSources(): Promise<PlanSourceChange[]> {
+    const changes: PlanSourceChange[] = [];
+    for (const op of this.data.operations) {
+      if (!op.sourceHash) continue;
+
+      const currentHash = await hashPath(this.resolve(op.sourcePath));
+      if (currentHash === null) {
+        changes.push({ path: op.sourcePath, reason: 'no longer exists' });
+      } else if (currentHash !== op.sourceHash) {
+        changes.push({ path: op.sourcePath, reason: 'changed since planning' });
+      }
+    }
+    return changes;
+  }
+
+  private resolve(relative: string): string {
+    return path.join(this.rootPath, ...relative.split('/'));
+  }
+}
+
+function toRelative(rootPath: string, filePath: string): string {
+  const relative = path.relative(path.resolve(rootPath), path.resolve(filePath));
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Cannot save plan: ${filePath} is outside ${rootPath}`);
+  }
+  return relative.split(path.sep).join('/');
+}
+
+/**
+ * sha256 of a file, or of a directory's file names and contents. Null when
+ * the path does not exist.
+ */
+async function hashPath(filePath: string): Promise<string | null> {
+  let stats;
+  try {
+    stats = await fs.stat(filePath);
+  } catch {
+    return null;
+  }
+
+  if (!stats.isDirectory()) {
+    return hashBuffer(await fs.readFile(filePath));
+  }
+
+  const entries = (await fs.readdir(filePath)).sort();
+  const lines: string[] = [];
+  for (const name of entries) {
+    lines.push(`${name}\0${await hashPath(path.join(filePath, name))}`);
+  }
+  return hashBuffer(Buffer.from(lines.join('\n')));
+}
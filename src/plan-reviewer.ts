@@ -0,0 +1,258 @@
+/**
+ * Plan Reviewer
+ * Interactive review of an OperationPlan before it runs: accept, reject or
+ * retarget operations one at a time or a group at a time. Retargets are
+ * recorded as corrections so the classifier learns from the review.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getLearningDatabase, type AILearningDatabase } from './ai-learning-database.js';
+import type { FileCategory, FileOperation, OperationPlan } from './types.js';
+
+export type PlanGrouping = 'reason' | 'target' | 'none';
+
+export interface ReviewChoice<T extends string> {
+  name: string;
+  value: T;
+}
+
+/**
+ * The prompts the reviewer needs, so tests can answer them without a TTY
+ */
+export interface ReviewPrompter {
+  select<T extends string>(message: string, choices: ReviewChoice<T>[], defaultValue?: T): Promise<T>;
+  input(message: string, defaultValue: string, validate: (value: string) => true | string): Promise<string>;
+}
+
+export interface PlanReviewResult {
+  plan: OperationPlan;          // Accepted operations, with retargets applied
+  accepted: FileOperation[];
+  rejected: FileOperation[];
+  retargeted: Array<{ operation: FileOperation; previousTarget: string }>;
+}
+
+const CATEGORIES: FileCategory[] = ['source', 'config', 'documentation', 'script', 'test', 'asset', 'unknown'];
+
+/**
+ * Group operations by reason or by target folder, keeping plan order
+ */
+export function groupOperations(
+  operations: FileOperation[],
+  grouping: PlanGrouping,
+  rootPath: string
+): Map<string, FileOperation[]> {
+  const groups = new Map<string, FileOperation[]>();
+  for (const op of operations) {
+    let key = 'All operations';
+    if (grouping === 'reason') {
+      key = op.reason;
+    } else if (grouping === 'target') {
+      key = op.type === 'move' && op.targetPath
+        ? `${toRelative(rootPath, path.dirname(op.targetPath)) || '.'}/`
+        : op.type === 'delete' ? '(deleted)' : '(created)';
+    }
+    groups.set(key, [...(groups.get(key) ?? []), op]);
+  }
+  return groups;
+}
+
+export class PlanReviewer {
+  constructor(
+    private prompter: ReviewPrompter,
+    private learningDb: Pick<AILearningDatabase, 'addCorrection'> = getLearningDatabase()
+  ) {}
+
+  async review(plan: OperationPlan, rootPath: string): Promise<PlanReviewResult> {
+    const result: PlanReviewResult = {
+      plan: { ...plan, operations: [] },
+      accepted: [],
+      rejected: [],
+      retargeted: [],
+    };
+
+    const grouping = await this.prompter.select<PlanGrouping>('Group operations by', [
+      { name: 'Reason', value: 'reason' },
+      { name: 'Target folder', value: 'target' },
+      { name: 'No grouping', value: 'none' },
+    ], 'target');
+
+    const decisions = new Map<FileOperation, FileOperation | null>();
+    const groups = groupOperations(plan.operations, grouping, rootPath);
+
+    for (const [name, operations] of groups) {
+      console.log(`\n📂 ${name} (${operations.length} operation${operations.length === 1 ? '' : 's'})\n`);
+      for (const op of operations) {
+        const flag = op.warning ?? (op.isReferenced ? 'Still referenced' : undefined);
+        console.log(`  ${this.describe(op, rootPath)}${flag ? `  ⚠️  ${flag}` : ''}`);
+      }
+      console.log('');
+
+      const action = operations.length === 1
+        ? 'each'
+        : await this.prompter.select('Apply this group?', [
+          { name: 'Review each operation', value: 'each' },
+          { name: 'Accept all', value: 'accept' },
+          { name: 'Reject all', value: 'reject' },
+        ], 'each');
+
+      for (const op of operations) {
+        if (action === 'accept') {
+          decisions.set(op, op);
+        } else if (action === 'reject') {
+          decisions.set(op, null);
+        } else {
+          decisions.set(op, await this.reviewOperation(op, rootPath, result));
+        }
+      }
+    }
+
+    // Keep the plan's order: later operations can depend on earlier ones
+    for (const op of plan.operations) {
+      const decision = decisions.get(op);
+      if (decision) {
+        result.accepted.push(decision);
+        result.plan.operations.push(decision);
+      } else {
+        result.rejected.push(op);
+      }
+    }
+    result.plan.backupRequired = plan.backupRequired && result.plan.operations.length > 0;
+
+    return result;
+  }
+
+  private async reviewOperation(
+    op: FileOperation,
+    rootPath: string,
+    result: PlanReviewResult
+  ): Promise<FileOperation | null> {
+    console.log(`\n  ${this.describe(op, rootPath)}`);
+    for (const detail of this.details(op)) {
+      console.log(`    ${detail}`);
+    }
+
+    const choices: ReviewChoice<'accept' | 'reject' | 'retarget'>[] = [
+      { name: 'Accept', value: 'accept' },
+      { name: 'Reject', value: 'reject' },
+    ];
+    if (op.type === 'move' && op.targetPath) {
+      choices.push({ name: 'Move somewhere else', value: 'retarget' });
+    }
+
+    const action = await this.prompter.select('Action', choices, 'accept');
+    if (action === 'accept') return op;
+    if (action === 'reject') return null;
+
+    return this.retarget(op, rootPath, result);
+  }
+
+  private async retarget(op: FileOperation, rootPath: string, result: PlanReviewResult): Promise<FileOperation> {
+    const previousTarget = op.targetPath!;
+    const answer = await this.prompter.input(
+      'New target (relative to the project; end with / for a folder)',
+      toRelative(rootPath, previousTarget),
+      (value) => {
+        if (!value.trim()) return 'Enter a path';
+        const relative = toRelative(rootPath, path.resolve(rootPath, value.trim()));
+        return relative && !relative.startsWith('..') ? true : 'The target must be inside the project';
+      }
+    );
+
+    const trimmed = answer.trim();
+    const targetPath = /[\\/]$/.test(trimmed)
+      ? path.resolve(rootPath, trimmed, path.basename(op.sourcePath))
+      : path.resolve(rootPath, trimmed);
+    if (targetPath === path.resolve(previousTarget)) {
+      return op;
+    }
+
+    const suggested = op.classification?.category ?? 'unknown';
+    const category = await this.prompter.select<FileCategory>(
+      'Category',
+      CATEGORIES.map((value) => ({ name: value, value })),
+      suggested
+    );
+
+    const retargeted: FileOperation = { ...op, targetPath, reason: `${op.reason} (retargeted in review)` };
+    result.retargeted.push({ operation: retargeted, previousTarget });
+
+    await this.learningDb.addCorrection({
+      filePath: op.sourcePath,
+      fileName: path.basename(op.sourcePath),
+      aiSuggestion: { category: suggested, targetPath: previousTarget },
+      userCorrection: { category, targetPath },
+      timestamp: new Date().toISOString(),
+      fileContent: await this.readStart(op.sourcePath),
+    });
+
+    return retargeted;
+  }
+
+  private describe(op: FileOperation, rootPath: string): string {
+    const source = toRelative(rootPath, op.sourcePath);
+    switch (op.type) {
+      case 'move':
+        return `📦 ${source} → ${op.targetPath ? toRelative(rootPath, op.targetPath) : '?'}`;
+      case 'delete':
+        return `🗑️  ${source}`;
+      case 'create':
+        return `📁 ${source}/`;
+    }
+  }
+
+  private details(op: FileOperation): string[] {
+    const details = [`Reason: ${op.reason}`];
+    if (op.classification) {
+      details.push(
+        `Classified as ${op.classification.category} (${Math.round(op.classification.confidence * 100)}% confidence)`
+      );
+    }
+    if (op.isReferenced) {
+      details.push('⚠️  Still referenced by other files');
+    }
+    if (op.warning) {
+      details.push(`⚠️  ${op.warning}`);
+    }
+    return details;
+  }
+
+  private async readStart(filePath: string): Promise<string | undefined> {
+    try {
+      return (await fs.readFile(filePath, 'utf-8')).substring(0, 1000);
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Prompts backed by inquirer, for the CLI
+ */
+export function createInquirerPrompter(): ReviewPrompter {
+  const load = async () => {
+    // @ts-ignore - inquirer types not found
+    return (await import('inquirer')).default;
+  };
+
+  return {
+    async select(message, choices, defaultValue) {
+      const inquirer = await load();
+      const { answer } = await inquirer.prompt([
+        { type: 'list', name: 'answer', message, choices, default: defaultValue },
+      ]);
+      return answer;
+    },
+    async input(message, defaultValue, validate) {
+      const inquirer = await load();
+      const { answer } = await inquirer.prompt([
+        { type: 'input', name: 'answer', message, default: defaultValue, validate },
+      ]);
+      return answer;
+    },
+  };
+}
+
+function toRelative(rootPath: string, filePath: string): string {
+  return path.relative(rootPath, filePath).split(path.sep).join('/');
+}
@@ -0,0 +1,407 @@
+/**
+ * Reference Index
+ * One pass over a project that records what every file refers to, so usage
+ * checks look files up instead of reading the whole tree again for every
+ * candidate file.
+ *
+ * Each text file's links (imports, package.json entries, Dockerfile
+ * sources, CI paths, other path-like strings; see ReferenceResolver) are
+ * resolved to the project files they point at. File names that appear
+ * without resolving are kept as low-confidence mentions. Ignored files
+ * (.gitignore) are skipped, and the extracted links are cached on disk with
+ * each file's mtime and size, so later runs only read files that changed.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DependencyAnalyzer } from './dependency-analyzer.js';
+import { globToRegExp } from './glob-matcher.js';
+import {
+  ReferenceResolver,
+  extractLinks,
+  parseTsConfigPaths,
+  type ExtractedLink,
+  type TsConfigPaths,
+} from './reference-resolver.js';
+import type { UsageReference, UsageReferenceKind } from './types.js';
+
+export const REFERENCE_INDEX_VERSION = 2;
+
+export interface IndexedFile {
+  mtimeMs: number;
+  size: number;
+  links: ExtractedLink[];
+  names: Record<string, number[]>;  // File names ("name.ext") on each line, for mentions
+}
+
+interface ReferenceIndexData {
+  version: typeof REFERENCE_INDEX_VERSION;
+  files: Record<string, IndexedFile>;  // Keyed by path relative to the root, forward slashes
+}
+
+export interface ReferenceIndexOptions {
+  cachePath?: string | null;  // Where to cache the index; null disables the cache
+  dependencyAnalyzer?: DependencyAnalyzer;
+}
+
+interface IndexedReference {
+  file: string;  // Relative to the root
+  line: number;
+  kind: UsageReferenceKind;
+  confidence: number;
+}
+
+const EXCLUDED_DIRECTORIES = [
+  'node_modules', '.git', 'dist', 'build', 'coverage', '.next', '.nuxt', 'out', 'target', '.unvibe', '.devibe',
+];
+
+const TEXT_EXTENSIONS = [
+  '.js', '.ts', '.jsx', '.tsx', '.mjs', '.cjs', '.mts', '.cts', '.vue', '.svelte',
+  '.py', '.go', '.java', '.rb', '.php',
+  '.json', '.yaml', '.yml', '.toml', '.ini', '.env',
+  '.md', '.mdx', '.txt', '.sh', '.bash', '.zsh',
+  '.html', '.css', '.scss', '.sass', '.less',
+  '.dockerfile', '.gitignore', '.npmrc',
+];
+const TEXT_FILE_NAMES = ['Dockerfile', 'Makefile', 'Procfile', 'Jenkinsfile'];
+
+const MENTION_CONFIDENCE = 0.3;
+const MAX_FILE_SIZE = 1024 * 1024;
+const READ_BATCH_SIZE = 32;
+
+export class ReferenceIndex {
+  private byFile = new Map<string, IndexedReference[]>();
+  private byDirectory: Array<{ directory: string; reference: IndexedReference }> = [];
+  private byPattern: Array<{ regex: RegExp; reference: IndexedReference }> = [];
+
+  private constructor(
+    private rootPath: string,
+    private files: Map<string, IndexedFile>
+  ) {}
+
+  /**
+   * Index a project, cached in .devibe/cache next to the classification cache
+   */
+  static forProject(rootPath: string): Promise<ReferenceIndex> {
+    return ReferenceIndex.build(rootPath, {
+      cachePath: path.join(rootPath, '.devibe', 'cache', 'reference-index.json'),
+    });
+  }
+
+  static async build(rootPath: string, options: ReferenceIndexOptions = {}): Promise<ReferenceIndex> {
+    const root = path.resolve(rootPath);
+    const analyzer = options.dependencyAnalyzer ?? new DependencyAnalyzer();
+    const cached = options.cachePath ? await readCache(options.cachePath) : new Map<string, IndexedFile>();
+
+    const tree = await walkProject(root);
+    const files = new Map<string, IndexedFile>();
+    let changed = false;
+
+    for (let i = 0; i < tree.textFiles.length; i += READ_BATCH_SIZE) {
+      await Promise.all(tree.textFiles.slice(i, i + READ_BATCH_SIZE).map(async (relative) => {
+        const filePath = path.join(root, ...relative.split('/'));
+        let stats;
+        try {
+          stats = await fs.stat(filePath);
+        } catch {
+          return;
+        }
+        if (stats.size > MAX_FILE_SIZE) return;
+
+        const previous = cached.get(relative);
+        if (previous && previous.mtimeMs === stats.mtimeMs && previous.size === stats.size) {
+          files.set(relative, previous);
+          return;
+        }
+
+        try {
+          const content = await fs.readFile(filePath, 'utf-8');
+          files.set(relative, indexContent(relative, content, stats, analyzer));
+          changed = true;
+        } catch {
+          // Not readable: not indexed
+        }
+      }));
+    }
+
+    if (options.cachePath && (changed || files.size !== cached.size)) {
+      await writeCache(options.cachePath, files);
+    }
+
+    const index = new ReferenceIndex(root, files);
+    index.resolveLinks(new ReferenceResolver(tree.files, tree.directories, await readTsConfigs(root, tree.files)));
+    return index;
+  }
+
+  get fileCount(): number {
+    return this.files.size;
+  }
+
+  /**
+   * Indexed files, relative to the root with forward slashes
+   */
+  listFiles(): string[] {
+    return Array.from(this.files.keys());
+  }
+
+  /**
+   * References to the file from other files, strongest first per line.
+   * Lines that only mention the file's name come last, as mentions.
+   */
+  async findReferences(filePath: string): Promise<UsageReference[]> {
+    const target = toRelative(this.rootPath, path.resolve(filePath));
+
+    const found = new Map<string, IndexedReference>();
+    const add = (reference: IndexedReference) => {
+      if (reference.file === target) return;
+      const key = `${reference.file}:${reference.line}`;
+      const existing = found.get(key);
+      if (!existing || existing.confidence < reference.confidence) found.set(key, reference);
+    };
+
+    for (const reference of this.byFile.get(target) ?? []) add(reference);
+    for (const { directory, reference } of this.byDirectory) {
+      if (target.startsWith(directory + '/')) add(reference);
+    }
+    for (const { regex, reference } of this.byPattern) {
+      if (regex.test(target)) add(reference);
+    }
+
+    const name = path.posix.basename(target);
+    for (const [relative, file] of this.files) {
+      const lines = Object.prototype.hasOwnProperty.call(file.names, name) ? file.names[name] : [];
+      for (const line of lines) {
+        if (!found.has(`${relative}:${line}`)) {
+          add({ file: relative, line, kind: 'mention', confidence: MENTION_CONFIDENCE });
+        }
+      }
+    }
+
+    const ordered = Array.from(found.values()).sort((a, b) =>
+      (a.kind === 'mention' ? 1 : 0) - (b.kind === 'mention' ? 1 : 0) ||
+      a.file.localeCompare(b.file) ||
+      a.line - b.line
+    );
+    return this.withContext(ordered);
+  }
+
+  private resolveLinks(resolver: ReferenceResolver): void {
+    for (const [relative, file] of this.files) {
+      for (const link of file.links) {
+        const resolved = resolver.resolve(relative, link);
+        if (!resolved) continue;
+
+        const reference: IndexedReference = {
+          file: relative,
+          line: link.line,
+          kind: resolved.kind,
+          confidence: resolved.confidence,
+        };
+        if (resolved.type === 'file') {
+          this.byFile.set(resolved.path, [...(this.byFile.get(resolved.path) ?? []), reference]);
+        } else if (resolved.type === 'directory') {
+          this.byDirectory.push({ directory: resolved.path, reference });
+        } else {
+          this.byPattern.push({ regex: resolved.regex, reference });
+        }
+      }
+    }
+  }
+
+  private async withContext(references: IndexedReference[]): Promise<UsageReference[]> {
+    const contents = new Map<string, string[]>();
+    const result: UsageReference[] = [];
+    for (const reference of references) {
+      const file = path.join(this.rootPath, ...reference.file.split('/'));
+      if (!contents.has(file)) {
+        try {
+          contents.set(file, (await fs.readFile(file, 'utf-8')).split('\n'));
+        } catch {
+          // Removed since indexing: report the line without context
+          contents.set(file, []);
+        }
+      }
+      result.push({
+        file,
+        line: reference.line,
+        context: (contents.get(file)![reference.line - 1] ?? '').trim().substring(0, 100),
+        kind: reference.kind,
+        confidence: reference.confidence,
+      });
+    }
+    return result;
+  }
+}
+
+/**
+ * Index one file's content
+ */
+function indexContent(
+  relative: string,
+  content: string,
+  stats: { mtimeMs: number; size: number },
+  analyzer: DependencyAnalyzer
+): IndexedFile {
+  // A Map, so names like "__proto__" are plain keys
+  const names = new Map<string, number[]>();
+  const lines = content.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    for (const match of lines[i].matchAll(/[\w@.+-]*\w\.[A-Za-z0-9]{1,10}\b/g)) {
+      const name = match[0];
+      const lineNumbers = names.get(name) ?? [];
+      if (lineNumbers[lineNumbers.length - 1] !== i + 1) lineNumbers.push(i + 1);
+      names.set(name, lineNumbers);
+    }
+  }
+
+  return {
+    mtimeMs: stats.mtimeMs,
+    size: stats.size,
+    links: extractLinks(relative, content, analyzer),
+    names: Object.fromEntries(names),
+  };
+}
+
+function isTextFile(name: string): boolean {
+  return TEXT_EXTENSIONS.includes(path.extname(name).toLowerCase()) ||
+    TEXT_FILE_NAMES.includes(name) ||
+    name.startsWith('.env');
+}
+
+/**
+ * Every file and directory below root, skipping excluded directories and
+ * anything the .gitignore files along the way ignore. Paths are relative,
+ * with forward slashes.
+ */
+async function walkProject(root: string): Promise<{
+  files: Set<string>;
+  directories: Set<string>;
+  textFiles: string[];
+}> {
+  const files = new Set<string>();
+  const directories = new Set<string>();
+  const textFiles: string[] = [];
+
+  const walk = async (dir: string, rules: IgnoreRule[]): Promise<void> => {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    const dirRules = [...rules, ...(await readIgnoreRules(dir))];
+    for (const entry of entries) {
+      if (EXCLUDED_DIRECTORIES.includes(entry.name)) continue;
+      const fullPath = path.join(dir, entry.name);
+      if (isIgnored(fullPath, entry.isDirectory(), dirRules)) continue;
+
+      const relative = toRelative(root, fullPath);
+      if (entry.isDirectory()) {
+        directories.add(relative);
+        await walk(fullPath, dirRules);
+      } else if (entry.isFile()) {
+        files.add(relative);
+        if (isTextFile(entry.name)) textFiles.push(relative);
+      }
+    }
+  };
+
+  await walk(root, []);
+  return { files, directories, textFiles };
+}
+
+/**
+ * paths and baseUrl of every tsconfig.json, by its directory
+ */
+async function readTsConfigs(root: string, files: Set<string>): Promise<Map<string, TsConfigPaths>> {
+  const configs = new Map<string, TsConfigPaths>();
+  for (const relative of files) {
+    if (path.posix.basename(relative) !== 'tsconfig.json') continue;
+    const dir = path.posix.dirname(relative) === '.' ? '' : path.posix.dirname(relative);
+    try {
+      const config = parseTsConfigPaths(dir, await fs.readFile(path.join(root, relative), 'utf-8'));
+      if (config) configs.set(dir, config);
+    } catch {
+      // Unreadable: its aliases stay unresolved
+    }
+  }
+  return configs;
+}
+
+interface IgnoreRule {
+  base: string;        // Directory of the .gitignore
+  regex: RegExp;
+  matchBasename: boolean;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+async function readIgnoreRules(dir: string): Promise<IgnoreRule[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(dir, '.gitignore'), 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split('\n')) {
+    let pattern = rawLine.trim();
+    if (!pattern || pattern.startsWith('#')) continue;
+
+    const negated = pattern.startsWith('!');
+    if (negated) pattern = pattern.slice(1);
+    const directoryOnly = pattern.endsWith('/');
+    pattern = pattern.replace(/\/+$/, '');
+    // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+    const matchBasename = !pattern.includes('/');
+    pattern = pattern.replace(/^\//, '');
+    if (!pattern) continue;
+
+    rules.push({ base: dir, regex: globToRegExp(pattern), matchBasename, negated, directoryOnly });
+  }
+  return rules;
+}
+
+/**
+ * Later rules win, as in git
+ */
+function isIgnored(fullPath: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    const relative = toRelative(rule.base, fullPath);
+    const subject = rule.matchBasename ? path.posix.basename(relative) : relative;
+    if (rule.regex.test(subject)) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
+
+async function readCache(cachePath: string): Promise<Map<string, IndexedFile>> {
+  try {
+    const data: ReferenceIndexData = JSON.parse(await fs.readFile(cachePath, 'utf-8'));
+    if (data.version === REFERENCE_INDEX_VERSION && data.files) {
+      return new Map(Object.entries(data.files));
+    }
+  } catch {
+    // Missing or unreadable: rebuild
+  }
+  return new Map();
+}
+
+async function writeCache(cachePath: string, files: Map<string, IndexedFile>): Promise<void> {
+  const data: ReferenceIndexData = { version: REFERENCE_INDEX_VERSION, files: Object.fromEntries(files) };
+  try {
+    await fs.mkdir(path.dirname(cachePath), { recursive: true });
+    await fs.writeFile(cachePath, JSON.stringify(data));
+  } catch {
+    // A read-only checkout still gets an index, just not a cached one
+  }
+}
+
+function toRelative(rootPath: string, filePath: string): string {
+  return path.relative(rootPath, filePath).split(path.sep).join('/');
+}
@@ -0,0 +1,366 @@
+/**
+ * Reference Resolver
+ * Finds the paths a file refers to (import and require specifiers,
+ * package.json entry points and scripts, Dockerfile COPY/ADD sources, CI
+ * workflow paths and other path-like strings) and resolves them to concrete
+ * project files the way the tool that reads them would.
+ */
+
+import * as path from 'path';
+import type { DependencyAnalyzer } from './dependency-analyzer.js';
+import { globToRegExp } from './glob-matcher.js';
+import type { UsageReferenceKind } from './types.js';
+
+/**
+ * A path as written in a file, before resolution
+ */
+export interface ExtractedLink {
+  value: string;
+  kind: Exclude<UsageReferenceKind, 'mention'>;
+  line: number;
+}
+
+export type ResolvedLink =
+  | { type: 'file'; path: string; kind: UsageReferenceKind; confidence: number }
+  | { type: 'directory'; path: string; kind: UsageReferenceKind; confidence: number }
+  | { type: 'pattern'; regex: RegExp; kind: UsageReferenceKind; confidence: number };
+
+export interface TsConfigPaths {
+  pathsBase: string;                // Where paths entries are relative to, from the project root
+  baseUrl?: string;                 // Set when bare specifiers also resolve from a baseUrl
+  paths: Record<string, string[]>;
+}
+
+const CODE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte'];
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+const EMITTED_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+const CONFIDENCE: Record<ExtractedLink['kind'], number> = {
+  'import': 1,
+  'require': 1,
+  'tsconfig-path': 0.95,
+  'package-main': 1,
+  'package-bin': 1,
+  'package-script': 0.9,
+  'dockerfile': 0.9,
+  'ci-workflow': 0.9,
+  'path': 0.7,
+};
+
+// A directory or glob covers many files, so it says less about each one
+const DIRECTORY_FACTOR = 0.6;
+
+/**
+ * Links in one file, by file type. Paths are relative to the project root,
+ * with forward slashes.
+ */
+export function extractLinks(relativePath: string, content: string, analyzer: DependencyAnalyzer): ExtractedLink[] {
+  const name = path.posix.basename(relativePath);
+  const ext = path.posix.extname(name).toLowerCase();
+  const lines = content.split('\n');
+  const links: ExtractedLink[] = [];
+
+  if (name === 'package.json') {
+    links.push(...extractPackageLinks(content));
+  } else if (name.startsWith('Dockerfile') || ext === '.dockerfile') {
+    links.push(...extractDockerfileLinks(lines));
+  } else if (/^(?:.*\/)?\.github\/workflows\/[^/]+\.ya?ml$/.test(relativePath)) {
+    lines.forEach((line, i) => {
+      for (const token of pathTokens(line)) links.push({ value: token, kind: 'ci-workflow', line: i + 1 });
+    });
+  } else if (CODE_EXTENSIONS.includes(ext)) {
+    const lineStarts = lineStartsOf(content);
+    const specifierLines = new Set<string>();
+    for (const { specifier, kind, index } of analyzer.findModuleSpecifiers(content)) {
+      const line = lineOf(lineStarts, index);
+      links.push({ value: specifier, kind: kind === 'require' ? 'require' : 'import', line });
+      specifierLines.add(`${line}:${specifier}`);
+    }
+    // Other string literals that look like paths, e.g. fs.readFile('data/seed.json')
+    lines.forEach((line, i) => {
+      for (const match of line.matchAll(/(['"`])([^'"`]+)\1/g)) {
+        for (const token of pathTokens(match[2])) {
+          if (!specifierLines.has(`${i + 1}:${token}`)) links.push({ value: token, kind: 'path', line: i + 1 });
+        }
+      }
+    });
+  } else if (name !== '.gitignore') {
+    lines.forEach((line, i) => {
+      for (const token of pathTokens(line)) links.push({ value: token, kind: 'path', line: i + 1 });
+    });
+  }
+
+  return links;
+}
+
+export class ReferenceResolver {
+  /**
+   * @param files Every file in the project, relative with forward slashes
+   * @param directories Every directory in the project, likewise
+   * @param tsConfigs tsconfig path mappings by the directory holding the tsconfig ('' for the root)
+   */
+  constructor(
+    private files: Set<string>,
+    private directories: Set<string>,
+    private tsConfigs: Map<string, TsConfigPaths> = new Map()
+  ) {}
+
+  resolve(from: string, link: ExtractedLink): ResolvedLink | null {
+    const dir = path.posix.dirname(from) === '.' ? '' : path.posix.dirname(from);
+    const confidence = CONFIDENCE[link.kind];
+
+    switch (link.kind) {
+      case 'import':
+      case 'require': {
+        if (link.value.startsWith('.')) {
+          const target = this.resolveModule(join(dir, link.value));
+          return target ? { type: 'file', path: target, kind: link.kind, confidence } : null;
+        }
+        const aliased = this.resolveAlias(dir, link.value);
+        return aliased
+          ? { type: 'file', path: aliased, kind: 'tsconfig-path', confidence: CONFIDENCE['tsconfig-path'] }
+          : null;
+      }
+
+      case 'package-main':
+      case 'package-bin': {
+        const target = this.resolveModule(join(dir, link.value));
+        return target ? { type: 'file', path: target, kind: link.kind, confidence } : null;
+      }
+
+      case 'ci-workflow':
+        // Workflows run from the root of the repository that holds .github/
+        return this.resolvePath([dir.replace(/\/?\.github\/workflows$/, '')], link);
+
+      case 'package-script':
+      case 'dockerfile':
+        return this.resolvePath([dir], link);
+
+      case 'path':
+        return this.resolvePath(dir ? [dir, ''] : [''], link);
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * A module path as Node and TypeScript resolve it: exact, the source of an
+   * emitted .js name, with an extension added, or a folder's index
+   */
+  private resolveModule(base: string | null): string | null {
+    if (base === null) return null;
+
+    const candidates = [base];
+    const ext = path.posix.extname(base);
+    for (const emitted of EMITTED_EXTENSIONS[ext] ?? []) {
+      candidates.push(base.slice(0, -ext.length) + emitted);
+    }
+    candidates.push(...RESOLVE_EXTENSIONS.map((candidateExt) => base + candidateExt));
+    candidates.push(...RESOLVE_EXTENSIONS.map((candidateExt) => join(base, 'index' + candidateExt)!));
+
+    return candidates.find((candidate) => this.files.has(candidate)) ?? null;
+  }
+
+  /**
+   * A bare specifier through the nearest tsconfig's paths, then its baseUrl
+   */
+  private resolveAlias(dir: string, specifier: string): string | null {
+    const config = this.nearestTsConfig(dir);
+    if (!config) return null;
+
+    for (const [pattern, targets] of Object.entries(config.paths)) {
+      const star = pattern.indexOf('*');
+      let captured: string | null = null;
+      if (star === -1) {
+        if (specifier === pattern) captured = '';
+      } else {
+        const prefix = pattern.slice(0, star);
+        const suffix = pattern.slice(star + 1);
+        if (specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length) {
+          captured = specifier.slice(prefix.length, specifier.length - suffix.length);
+        }
+      }
+      if (captured === null) continue;
+
+      for (const target of targets) {
+        const resolved = this.resolveModule(join(config.pathsBase, target.replace('*', captured)));
+        if (resolved) return resolved;
+      }
+    }
+
+    return config.baseUrl !== undefined ? this.resolveModule(join(config.baseUrl, specifier)) : null;
+  }
+
+  private nearestTsConfig(dir: string): TsConfigPaths | undefined {
+    let current = dir;
+    for (;;) {
+      const config = this.tsConfigs.get(current);
+      if (config) return config;
+      if (current === '') return undefined;
+      current = path.posix.dirname(current) === '.' ? '' : path.posix.dirname(current);
+    }
+  }
+
+  /**
+   * A file, directory or glob, tried against each base directory in turn
+   */
+  private resolvePath(bases: string[], link: ExtractedLink): ResolvedLink | null {
+    const confidence = CONFIDENCE[link.kind];
+    const value = link.value.replace(/^\.\//, '').replace(/\/+$/, '');
+
+    for (const base of bases) {
+      const joined = join(base, value);
+      if (!joined) continue;
+
+      if (value.includes('*')) {
+        return { type: 'pattern', regex: globToRegExp(joined), kind: link.kind, confidence: confidence * DIRECTORY_FACTOR };
+      }
+      if (this.files.has(joined)) {
+        return { type: 'file', path: joined, kind: link.kind, confidence };
+      }
+      if (this.directories.has(joined)) {
+        return { type: 'directory', path: joined, kind: link.kind, confidence: confidence * DIRECTORY_FACTOR };
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Parse the compilerOptions of a tsconfig.json (comments and trailing
+ * commas allowed). baseUrl is returned relative to the project root.
+ */
+export function parseTsConfigPaths(tsConfigDir: string, content: string): TsConfigPaths | null {
+  let config: any;
+  try {
+    config = JSON.parse(
+      content
+        .replace(/("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (match, string) => string ?? '')
+        .replace(/,(\s*[}\]])/g, '$1')
+    );
+  } catch {
+    return null;
+  }
+
+  const options = config?.compilerOptions;
+  if (!options || (!options.paths && !options.baseUrl)) return null;
+
+  const baseUrl = options.baseUrl !== undefined ? join(tsConfigDir, options.baseUrl) ?? '' : undefined;
+  return {
+    pathsBase: baseUrl ?? tsConfigDir,
+    ...(baseUrl !== undefined && { baseUrl }),
+    paths: options.paths ?? {},
+  };
+}
+
+function extractPackageLinks(content: string): ExtractedLink[] {
+  let pkg: any;
+  try {
+    pkg = JSON.parse(content);
+  } catch {
+    return [];
+  }
+
+  const links: ExtractedLink[] = [];
+  const lineOfValue = (value: string) => {
+    const index = content.indexOf(JSON.stringify(value));
+    return index === -1 ? 1 : content.slice(0, index).split('\n').length;
+  };
+
+  for (const field of ['main', 'module', 'types', 'typings', 'browser']) {
+    if (typeof pkg[field] === 'string') {
+      links.push({ value: pkg[field], kind: 'package-main', line: lineOfValue(pkg[field]) });
+    }
+  }
+
+  const bins = typeof pkg.bin === 'string' ? [pkg.bin] : Object.values(pkg.bin ?? {});
+  for (const bin of bins) {
+    if (typeof bin === 'string') links.push({ value: bin, kind: 'package-bin', line: lineOfValue(bin) });
+  }
+
+  for (const script of Object.values(pkg.scripts ?? {})) {
+    if (typeof script !== 'string') continue;
+    for (const token of pathTokens(script)) {
+      links.push({ value: token, kind: 'package-script', line: lineOfValue(script) });
+    }
+  }
+
+  return links;
+}
+
+function extractDockerfileLinks(lines: string[]): ExtractedLink[] {
+  const links: ExtractedLink[] = [];
+  lines.forEach((line, i) => {
+    const match = line.match(/^\s*(?:COPY|ADD)\s+(.+)$/i);
+    if (!match) return;
+
+    let args: string[];
+    const rest = match[1].trim();
+    if (rest.startsWith('[')) {
+      try {
+        args = JSON.parse(rest);
+      } catch {
+        return;
+      }
+    } else {
+      args = rest.split(/\s+/);
+    }
+
+    // --from copies out of another build stage, not the build context
+    if (args.some((arg) => arg.startsWith('--from'))) return;
+    const sources = args.filter((arg) => !arg.startsWith('--')).slice(0, -1);
+    for (const source of sources) {
+      if (!/^[a-z]+:\/\//i.test(source)) links.push({ value: source, kind: 'dockerfile', line: i + 1 });
+    }
+  });
+  return links;
+}
+
+/**
+ * Relative path-like tokens: containing a slash or ending in an extension,
+ * e.g. scripts/deploy.sh, ./bin, seed.json. URLs and absolute paths are
+ * left out.
+ */
+function pathTokens(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.matchAll(/[\w@~.\/*+-]+/g)) {
+    const token = match[0].replace(/[.,]+$/, '');
+    if (!/[A-Za-z]/.test(token) || token.startsWith('/') || token.startsWith('~')) continue;
+    if (token.includes('/') || /\.[A-Za-z0-9]{1,10}$/.test(token)) tokens.push(token);
+  }
+  return tokens;
+}
+
+/**
+ * Join and normalize to a project-relative path; null when it leaves the project
+ */
+function join(base: string, relative: string): string | null {
+  const joined = path.posix.normalize(path.posix.join(base || '.', relative));
+  if (joined === '..' || joined.startsWith('../') || path.posix.isAbsolute(joined)) return null;
+  return joined === '.' ? null : joined;
+}
+
+function lineStartsOf(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+function lineOf(lineStarts: number[], index: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lineStarts[mid] <= index) low = mid;
+    else high = mid - 1;
+  }
+  return low + 1;
+}
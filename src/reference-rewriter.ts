@@ -0,0 +1,369 @@
+/**
+ * Reference Rewriter
+ * Keeps relative imports and requires, markdown links and package.json
+ * script paths pointing at files that move. Rewrites are planned against
+ * the tree before anything moves, and written once the moves are done.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DependencyAnalyzer } from './dependency-analyzer.js';
+
+export interface FileMove {
+  from: string;  // Absolute path of a file or directory
+  to: string;
+}
+
+export interface ReferenceChange {
+  from: string;
+  to: string;
+  line: number;
+}
+
+export interface ReferenceRewrite {
+  file: string;      // The referencing file, where it is before the moves
+  movedTo?: string;  // Where the moves put it, when it moves itself
+  content: string;   // Its content with the references updated
+  changes: ReferenceChange[];
+}
+
+interface Edit {
+  index: number;
+  length: number;
+  replacement: string;
+}
+
+type ResolutionStyle = 'exact' | 'extensionless' | 'emitted' | 'index';
+
+const CODE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+const MARKDOWN_EXTENSIONS = ['.md', '.mdx', '.markdown'];
+const RESOLVE_EXTENSIONS = [...CODE_EXTENSIONS, '.json'];
+
+// TypeScript ESM imports name the emitted file: ./foo.js resolves to ./foo.ts
+const EMITTED_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+const EXCLUDED_DIRECTORIES = [
+  'node_modules', '.git', 'dist', 'build', 'coverage', '.next', '.nuxt', 'out', 'target', '.unvibe', '.devibe',
+];
+
+const MAX_FILE_SIZE = 1024 * 1024;
+
+export class ReferenceRewriter {
+  constructor(private dependencyAnalyzer: DependencyAnalyzer = new DependencyAnalyzer()) {}
+
+  /**
+   * Every file under rootPath whose references the moves would break, with
+   * the content that fixes them
+   */
+  async planRewrites(rootPath: string, moves: FileMove[]): Promise<ReferenceRewrite[]> {
+    if (moves.length === 0) {
+      return [];
+    }
+
+    const resolvedMoves = moves.map((move) => ({ from: path.resolve(move.from), to: path.resolve(move.to) }));
+    const movedPath = (filePath: string): string => {
+      for (const move of resolvedMoves) {
+        if (filePath === move.from) return move.to;
+        if (filePath.startsWith(move.from + path.sep)) return move.to + filePath.slice(move.from.length);
+      }
+      return filePath;
+    };
+
+    const rewrites: ReferenceRewrite[] = [];
+    for (const file of await this.listFiles(path.resolve(rootPath))) {
+      const rewrite = await this.rewriteFile(file, movedPath);
+      if (rewrite) {
+        rewrites.push(rewrite);
+      }
+    }
+    return rewrites;
+  }
+
+  private async rewriteFile(file: string, movedPath: (filePath: string) => string): Promise<ReferenceRewrite | null> {
+    const ext = path.extname(file).toLowerCase();
+    const isPackageJson = path.basename(file) === 'package.json';
+    if (!CODE_EXTENSIONS.includes(ext) && !MARKDOWN_EXTENSIONS.includes(ext) && !isPackageJson) {
+      return null;
+    }
+
+    let content: string;
+    try {
+      if ((await fs.stat(file)).size > MAX_FILE_SIZE) return null;
+      content = await fs.readFile(file, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    const newFile = movedPath(file);
+    const edits: Edit[] = [];
+
+    if (CODE_EXTENSIONS.includes(ext)) {
+      for (const { specifier, index } of this.dependencyAnalyzer.findModuleSpecifiers(content)) {
+        if (!specifier.startsWith('.')) continue;
+        const replacement = await this.rewriteSpecifier(specifier, file, newFile, movedPath);
+        if (replacement) edits.push({ index, length: specifier.length, replacement });
+      }
+    } else if (MARKDOWN_EXTENSIONS.includes(ext)) {
+      for (const { target, index } of findMarkdownLinks(content)) {
+        const replacement = await this.rewriteLink(target, file, newFile, movedPath);
+        if (replacement) edits.push({ index, length: target.length, replacement });
+      }
+    } else {
+      edits.push(...(await this.rewriteScripts(content, file, movedPath)));
+    }
+
+    if (edits.length === 0) {
+      return null;
+    }
+
+    // Apply from the end so earlier offsets stay valid
+    const changes: ReferenceChange[] = [];
+    let rewritten = content;
+    for (const edit of [...edits].sort((a, b) => b.index - a.index)) {
+      changes.unshift({
+        from: content.substr(edit.index, edit.length),
+        to: edit.replacement,
+        line: content.slice(0, edit.index).split('\n').length,
+      });
+      rewritten = rewritten.slice(0, edit.index) + edit.replacement + rewritten.slice(edit.index + edit.length);
+    }
+
+    return {
+      file,
+      ...(newFile !== file && { movedTo: newFile }),
+      content: rewritten,
+      changes,
+    };
+  }
+
+  /**
+   * The specifier that reaches the same module after the moves, written in
+   * the same style (extension, index file, emitted .js name)
+   */
+  private async rewriteSpecifier(
+    specifier: string,
+    file: string,
+    newFile: string,
+    movedPath: (filePath: string) => string
+  ): Promise<string | null> {
+    const resolved = await this.resolveModule(path.resolve(path.dirname(file), specifier));
+    if (!resolved) return null;
+
+    const target = movedPath(resolved.path);
+    if (target === resolved.path && newFile === file) return null;
+
+    let relative: string;
+    switch (resolved.style) {
+      case 'exact':
+        relative = toPosix(path.relative(path.dirname(newFile), target));
+        break;
+      case 'extensionless':
+        relative = toPosix(path.relative(path.dirname(newFile), stripExtension(target)));
+        break;
+      case 'emitted':
+        relative = toPosix(path.relative(path.dirname(newFile), stripExtension(target) + path.extname(specifier)));
+        break;
+      case 'index':
+        relative = toPosix(path.relative(path.dirname(newFile), path.dirname(target)));
+        break;
+    }
+
+    const rewritten = withDotPrefix(relative);
+    return rewritten === specifier ? null : rewritten;
+  }
+
+  private async resolveModule(base: string): Promise<{ path: string; style: ResolutionStyle } | null> {
+    const candidates: Array<[string, ResolutionStyle]> = [[base, 'exact']];
+    const ext = path.extname(base);
+    for (const emitted of EMITTED_EXTENSIONS[ext] ?? []) {
+      candidates.push([base.slice(0, -ext.length) + emitted, 'emitted']);
+    }
+    for (const candidateExt of RESOLVE_EXTENSIONS) {
+      candidates.push([base + candidateExt, 'extensionless']);
+    }
+    for (const candidateExt of RESOLVE_EXTENSIONS) {
+      candidates.push([path.join(base, 'index' + candidateExt), 'index']);
+    }
+
+    for (const [candidate, style] of candidates) {
+      if (await this.isFile(candidate)) {
+        return { path: candidate, style };
+      }
+    }
+    return null;
+  }
+
+  private async rewriteLink(
+    target: string,
+    file: string,
+    newFile: string,
+    movedPath: (filePath: string) => string
+  ): Promise<string | null> {
+    // URLs, mailto:, in-page anchors and site-absolute paths are not files here
+    if (/^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith('#') || target.startsWith('/')) {
+      return null;
+    }
+
+    const [, linkPath, suffix] = target.match(/^([^#?]*)(.*)$/)!;
+    if (!linkPath) return null;
+
+    let decoded = linkPath;
+    try {
+      decoded = decodeURI(linkPath);
+    } catch {
+      // Not percent-encoded
+    }
+
+    const resolved = path.resolve(path.dirname(file), decoded);
+    if (!(await this.exists(resolved))) return null;
+
+    const newTarget = movedPath(resolved);
+    if (newTarget === resolved && newFile === file) return null;
+
+    let relative = toPosix(path.relative(path.dirname(newFile), newTarget)) || '.';
+    if (linkPath.startsWith('./') && !relative.startsWith('.')) relative = './' + relative;
+    if (linkPath.endsWith('/') && !relative.endsWith('/')) relative += '/';
+    if (decoded !== linkPath) relative = encodeURI(relative);
+
+    const rewritten = relative + suffix;
+    return rewritten === target ? null : rewritten;
+  }
+
+  /**
+   * Paths to moved files in package.json scripts, e.g. "node scripts/build.js"
+   */
+  private async rewriteScripts(
+    content: string,
+    file: string,
+    movedPath: (filePath: string) => string
+  ): Promise<Edit[]> {
+    let scripts: Record<string, unknown> | undefined;
+    try {
+      scripts = JSON.parse(content).scripts;
+    } catch {
+      return [];
+    }
+    if (!scripts || typeof scripts !== 'object') return [];
+
+    const edits: Edit[] = [];
+    const scriptsIndex = content.indexOf('"scripts"');
+    for (const command of Object.values(scripts)) {
+      if (typeof command !== 'string') continue;
+
+      let rewritten = command;
+      const tokens = command.match(/(?:\.{0,2}\/)?[\w@.-]+(?:\/[\w@.-]+)*\.\w+/g) ?? [];
+      for (const token of new Set(tokens)) {
+        const resolved = path.resolve(path.dirname(file), token);
+        if (!(await this.isFile(resolved))) continue;
+
+        const target = movedPath(resolved);
+        if (target === resolved) continue;
+
+        let relative = toPosix(path.relative(path.dirname(file), target));
+        if (token.startsWith('./')) relative = withDotPrefix(relative);
+        rewritten = rewritten.replace(
+          new RegExp(`(^|[\\s"'=;&|()])${escapeRegex(token)}(?=$|[\\s"';&|()])`, 'g'),
+          (_match, before) => before + relative
+        );
+      }
+
+      if (rewritten !== command) {
+        const quoted = JSON.stringify(command);
+        const index = content.indexOf(quoted, scriptsIndex);
+        if (index !== -1) {
+          edits.push({ index, length: quoted.length, replacement: JSON.stringify(rewritten) });
+        }
+      }
+    }
+    return edits;
+  }
+
+  private async listFiles(dir: string): Promise<string[]> {
+    const files: string[] = [];
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return files;
+    }
+
+    for (const entry of entries) {
+      if (EXCLUDED_DIRECTORIES.includes(entry.name)) continue;
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await this.listFiles(fullPath)));
+      } else if (entry.isFile()) {
+        files.push(fullPath);
+      }
+    }
+    return files;
+  }
+
+  private async isFile(filePath: string): Promise<boolean> {
+    try {
+      return (await fs.stat(filePath)).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Inline link and image targets and reference definitions, outside code
+ * fences, with the offset of each target
+ */
+function findMarkdownLinks(content: string): Array<{ target: string; index: number }> {
+  const fences: Array<[number, number]> = [];
+  const fenceRegex = /^(`{3,}|~{3,})[^\n]*\n[\s\S]*?^\1[^\S\n]*$/gm;
+  let match;
+  while ((match = fenceRegex.exec(content)) !== null) {
+    fences.push([match.index, match.index + match[0].length]);
+  }
+  const inFence = (index: number) => fences.some(([start, end]) => index >= start && index < end);
+
+  const links: Array<{ target: string; index: number }> = [];
+  const patterns = [
+    /\]\(\s*<?([^)\s>]+)>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/g,
+    /^[ \t]{0,3}\[[^\]\n]+\]:[ \t]*<?([^\s>]+)/gm,
+  ];
+  for (const regex of patterns) {
+    while ((match = regex.exec(content)) !== null) {
+      const index = match.index + match[0].indexOf(match[1], 1);
+      if (!inFence(index)) {
+        links.push({ target: match[1], index });
+      }
+    }
+  }
+  return links;
+}
+
+function stripExtension(filePath: string): string {
+  return filePath.slice(0, filePath.length - path.extname(filePath).length);
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+function withDotPrefix(relative: string): string {
+  if (relative === '') return '.';
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,373 @@
+/**
+ * Report Formatter
+ * Serializes scan, best-practices and check-pr results as JSON, SARIF 2.1.0
+ * (code-scanning dashboards) or JUnit XML (CI test reporters)
+ */
+
+import * as path from 'path';
+import type { SecretFinding, SecretPattern, SecretScanResult, SecretSeverity } from './types.js';
+import type { BestPracticeCheck, BestPracticesReport } from './repo-best-practices.js';
+
+export type ReportFormat = 'text' | 'json' | 'sarif' | 'junit';
+
+export const REPORT_FORMATS: ReportFormat[] = ['text', 'json', 'sarif', 'junit'];
+
+export type CheckPrStepStatus = 'passed' | 'failed' | 'warning' | 'skipped';
+
+export interface CheckPrStep {
+  id: string;              // Stable id, used as the SARIF rule id
+  name: string;
+  status: CheckPrStepStatus;
+  message: string;
+}
+
+export interface CheckPrReport {
+  passed: boolean;
+  steps: CheckPrStep[];
+  secretScan?: SecretScanResult;
+}
+
+export type MachineReport =
+  | { kind: 'scan'; result: SecretScanResult; patterns?: SecretPattern[] }
+  | { kind: 'best-practices'; report: BestPracticesReport }
+  | { kind: 'check-pr'; report: CheckPrReport; patterns?: SecretPattern[] };
+
+export interface ReportFormatOptions {
+  rootPath: string;      // SARIF and JUnit paths are made relative to it
+  toolVersion?: string;
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const INFORMATION_URI = 'https://github.com/YOLOVibeCode/devibe';
+
+const SARIF_LEVELS: Record<SecretSeverity, 'error' | 'warning' | 'note'> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+};
+
+// GitHub code scanning ranks security alerts by this 0-10 score
+const SECURITY_SEVERITY: Record<SecretSeverity, string> = {
+  critical: '9.5',
+  high: '8.0',
+  medium: '5.5',
+  low: '3.0',
+};
+
+// Code scanning rejects results without a location, so repository-level
+// findings point at the file they are about, or at package.json
+const PROJECT_FILE = 'package.json';
+
+const BEST_PRACTICE_FILES: Record<string, string> = {
+  'doc-readme': 'README.md',
+  'doc-readme-content': 'README.md',
+  'doc-readme-installation': 'README.md',
+  'doc-readme-usage': 'README.md',
+  'doc-changelog': 'CHANGELOG.md',
+  'doc-contributing': 'CONTRIBUTING.md',
+  'git-gitignore': '.gitignore',
+  'git-ignore-node-modules': '.gitignore',
+  'git-ignore-build': '.gitignore',
+  'git-ignore-env': '.gitignore',
+  'git-gitattributes': '.gitattributes',
+  'security-env-example': '.env.example',
+  'security-policy': 'SECURITY.md',
+  'license-file': 'LICENSE',
+  'quality-editorconfig': '.editorconfig',
+};
+
+export function parseReportFormat(value: string): ReportFormat {
+  if (!REPORT_FORMATS.includes(value as ReportFormat)) {
+    throw new Error(`Unknown format "${value}". Use one of: ${REPORT_FORMATS.join(', ')}`);
+  }
+  return value as ReportFormat;
+}
+
+export function serializeReport(
+  report: MachineReport,
+  format: Exclude<ReportFormat, 'text'>,
+  options: ReportFormatOptions
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report.kind === 'scan' ? report.result : report.report, null, 2) + '\n';
+    case 'sarif':
+      return JSON.stringify(toSarif(report, options), null, 2) + '\n';
+    case 'junit':
+      return toJUnit(report, options);
+  }
+}
+
+// ============================================================================
+// SARIF
+// ============================================================================
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  help?: { text: string };
+  properties: Record<string, unknown>;
+}
+
+interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string };
+    region?: { startLine: number; startColumn: number };
+  };
+}
+
+interface SarifResult {
+  ruleId: string;
+  level: 'error' | 'warning' | 'note';
+  message: { text: string };
+  locations: SarifLocation[];
+  partialFingerprints?: Record<string, string>;
+  properties?: Record<string, unknown>;
+}
+
+export function toSarif(report: MachineReport, options: ReportFormatOptions): object {
+  const rules = new Map<string, SarifRule>();
+  const results: SarifResult[] = [];
+
+  if (report.kind === 'scan' || report.kind === 'check-pr') {
+    const scanResult = report.kind === 'scan' ? report.result : report.report.secretScan;
+    for (const finding of scanResult?.findings ?? []) {
+      addSecretRule(rules, finding, report.patterns);
+      results.push(secretResult(finding, options.rootPath));
+    }
+  }
+
+  if (report.kind === 'best-practices') {
+    for (const check of report.report.checks) {
+      rules.set(check.id, bestPracticeRule(check));
+      if (!check.passed) {
+        results.push({
+          ruleId: check.id,
+          level: SARIF_LEVELS[check.severity],
+          message: { text: check.recommendation ? `${check.message}. ${check.recommendation}` : check.message },
+          locations: [fileLocation(BEST_PRACTICE_FILES[check.id] ?? PROJECT_FILE)],
+        });
+      }
+    }
+  }
+
+  if (report.kind === 'check-pr') {
+    // Secret findings are reported individually above
+    for (const step of report.report.steps.filter((s) => s.id !== 'secrets')) {
+      rules.set(`check-pr/${step.id}`, {
+        id: `check-pr/${step.id}`,
+        name: step.name,
+        shortDescription: { text: step.name },
+        properties: { category: 'check-pr' },
+      });
+      if (step.status === 'failed' || step.status === 'warning') {
+        results.push({
+          ruleId: `check-pr/${step.id}`,
+          level: step.status === 'failed' ? 'error' : 'warning',
+          message: { text: step.message },
+          locations: [fileLocation(PROJECT_FILE)],
+        });
+      }
+    }
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'devibe',
+            ...(options.toolVersion && { version: options.toolVersion }),
+            informationUri: INFORMATION_URI,
+            rules: Array.from(rules.values()),
+          },
+        },
+        results,
+      },
+    ],
+  };
+}
+
+/**
+ * A whole-file location, for results about a file rather than a line in it
+ */
+function fileLocation(uri: string): SarifLocation {
+  return { physicalLocation: { artifactLocation: { uri } } };
+}
+
+function addSecretRule(rules: Map<string, SarifRule>, finding: SecretFinding, patterns?: SecretPattern[]): void {
+  if (rules.has(finding.pattern)) return;
+
+  const pattern = patterns?.find((p) => p.id === finding.pattern);
+  rules.set(finding.pattern, {
+    id: finding.pattern,
+    name: pattern?.name ?? finding.type,
+    shortDescription: { text: pattern?.name ?? finding.type },
+    help: { text: pattern?.recommendation ?? finding.recommendation },
+    properties: {
+      category: pattern?.category ?? 'secrets',
+      tags: ['security', 'secrets'],
+      'security-severity': SECURITY_SEVERITY[pattern?.severity ?? finding.severity],
+    },
+  });
+}
+
+function secretResult(finding: SecretFinding, rootPath: string): SarifResult {
+  return {
+    ruleId: finding.pattern,
+    level: SARIF_LEVELS[finding.severity],
+    message: { text: `${finding.type}: ${finding.context}` },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: relativeUri(finding.file, rootPath) },
+          region: { startLine: finding.line, startColumn: finding.column },
+        },
+      },
+    ],
+    partialFingerprints: { 'devibeSecret/v1': finding.fingerprint },
+    properties: {
+      severity: finding.severity,
+      confidence: finding.confidence,
+      ...(finding.commit && { commit: finding.commit, author: finding.author }),
+    },
+  };
+}
+
+function bestPracticeRule(check: BestPracticeCheck): SarifRule {
+  return {
+    id: check.id,
+    name: check.name,
+    shortDescription: { text: check.description },
+    ...(check.recommendation && { help: { text: check.recommendation } }),
+    properties: {
+      category: check.category,
+      severity: check.severity,
+      ...(check.category === 'security' && { 'security-severity': SECURITY_SEVERITY[check.severity] }),
+    },
+  };
+}
+
+function relativeUri(file: string, rootPath: string): string {
+  const relative = path.relative(rootPath, path.resolve(file));
+  return (relative.startsWith('..') ? file : relative).split(path.sep).join('/');
+}
+
+// ============================================================================
+// JUnit
+// ============================================================================
+
+interface JUnitCase {
+  classname: string;
+  name: string;
+  failure?: { message: string; type: string; body: string };
+  skipped?: boolean;
+}
+
+export function toJUnit(report: MachineReport, options: ReportFormatOptions): string {
+  const suites: Array<{ name: string; cases: JUnitCase[] }> = [];
+
+  if (report.kind === 'scan') {
+    suites.push({ name: 'devibe.scan', cases: secretCases(report.result, options.rootPath) });
+  }
+
+  if (report.kind === 'best-practices') {
+    suites.push({
+      name: 'devibe.best-practices',
+      cases: report.report.checks.map((check) => ({
+        classname: `best-practices.${check.category}`,
+        name: check.name,
+        ...(!check.passed && {
+          failure: {
+            message: check.message,
+            type: check.severity,
+            body: check.recommendation ?? check.description,
+          },
+        }),
+      })),
+    });
+  }
+
+  if (report.kind === 'check-pr') {
+    suites.push({
+      name: 'devibe.check-pr',
+      cases: report.report.steps.map((step) => ({
+        classname: 'check-pr',
+        name: step.name,
+        skipped: step.status === 'skipped',
+        ...(step.status === 'failed' && {
+          failure: { message: step.message, type: 'failed', body: step.message },
+        }),
+      })),
+    });
+    if (report.report.secretScan) {
+      suites.push({ name: 'devibe.check-pr.secrets', cases: secretCases(report.report.secretScan, options.rootPath) });
+    }
+  }
+
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<testsuites name="devibe">'];
+  for (const suite of suites) {
+    const failures = suite.cases.filter((c) => c.failure).length;
+    const skipped = suite.cases.filter((c) => c.skipped).length;
+    lines.push(
+      `  <testsuite name="${xml(suite.name)}" tests="${suite.cases.length}" failures="${failures}" skipped="${skipped}">`
+    );
+    for (const testCase of suite.cases) {
+      const attributes = `classname="${xml(testCase.classname)}" name="${xml(testCase.name)}"`;
+      if (testCase.failure) {
+        lines.push(`    <testcase ${attributes}>`);
+        lines.push(
+          `      <failure message="${xml(testCase.failure.message)}" type="${xml(testCase.failure.type)}">${xml(testCase.failure.body)}</failure>`
+        );
+        lines.push('    </testcase>');
+      } else if (testCase.skipped) {
+        lines.push(`    <testcase ${attributes}>`);
+        lines.push('      <skipped/>');
+        lines.push('    </testcase>');
+      } else {
+        lines.push(`    <testcase ${attributes}/>`);
+      }
+    }
+    lines.push('  </testsuite>');
+  }
+  lines.push('</testsuites>');
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * One failing case per finding, or a single passing case for a clean scan
+ */
+function secretCases(result: SecretScanResult, rootPath: string): JUnitCase[] {
+  if (result.findings.length === 0) {
+    return [{ classname: 'secrets', name: `No secrets in ${result.filesScanned} scanned files` }];
+  }
+
+  return result.findings.map((finding) => {
+    const location = `${relativeUri(finding.file, rootPath)}:${finding.line}`;
+    return {
+      classname: `secrets.${finding.pattern}`,
+      name: `${finding.type} at ${location}`,
+      failure: {
+        message: `${finding.type} (${finding.severity})`,
+        type: finding.severity,
+        body: `${location}\n${finding.context}\n${finding.recommendation}`,
+      },
+    };
+  });
+}
+
+function xml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '');
+}
@@ -0,0 +1,285 @@
+/**
+ * Rule Pack Composer
+ * Resolves `extends` inheritance and merges rule packs
+ *
+ * Merge strategy (RULE_PACK_SPEC.md):
+ * - Objects: deep merge
+ * - Arrays of objects: merged by identity key (id, name, path or pattern),
+ *   items without a key are appended without duplicates
+ * - Arrays of primitives: append without duplicates
+ * - Primitives: last one wins
+ * - Explicit null: removes the inherited value
+ */
+
+import * as path from 'path';
+import type {
+  RulePack,
+  ResolvedRulePack,
+  ICanComposeRulePacks,
+} from './rulepack-types.js';
+import { RulePackLoader } from './rulepack-loader.js';
+
+/**
+ * Field path (e.g. "$.structure.requiredFolders[src].description") -> name
+ * of the pack that last set it
+ */
+export type RulePackProvenance = Record<string, string>;
+
+export interface RulePackLayer {
+  pack: Partial<RulePack>;
+  source: string;
+  file?: string;
+}
+
+export interface ComposedRulePack {
+  rulePack: ResolvedRulePack;
+  provenance: RulePackProvenance;
+  /** Names of the packs that were merged, ancestors first */
+  layers: string[];
+}
+
+const IDENTITY_KEYS = ['id', 'name', 'path', 'pattern'];
+const UNMERGED_FIELDS = ['schema', 'metadata', 'extends', '_resolved'];
+
+export class RulePackComposer implements ICanComposeRulePacks {
+  constructor(private loader: RulePackLoader = new RulePackLoader()) {}
+
+  /**
+   * Merge rule packs in order, later packs overriding earlier ones
+   */
+  async compose(rulepacks: RulePack[]): Promise<RulePack> {
+    const layers = rulepacks.map((pack) => ({ pack, source: pack.metadata.name }));
+    return this.composeLayers(layers).rulePack;
+  }
+
+  merge(base: RulePack, override: Partial<RulePack>): RulePack {
+    const merged = this.mergeValue(base, this.stripUnmerged(override), '$', '', undefined);
+    return {
+      ...merged,
+      schema: base.schema,
+      metadata: override.metadata ?? base.metadata,
+    };
+  }
+
+  /**
+   * Resolve a single pack reference, flattening its `extends` chain
+   */
+  async resolve(reference: string, basePath: string): Promise<ComposedRulePack> {
+    return this.resolveAll([reference], basePath);
+  }
+
+  /**
+   * Resolve several references (e.g. a project's RulePackConfig.rulepacks)
+   * into one flattened pack. Overrides are applied last.
+   */
+  async resolveAll(
+    references: string[],
+    basePath: string,
+    overrides?: Partial<RulePack>
+  ): Promise<ComposedRulePack> {
+    const layers: RulePackLayer[] = [];
+    for (const reference of references) {
+      layers.push(...(await this.resolveLayers(reference, basePath, [])));
+    }
+
+    if (overrides) {
+      layers.push({ pack: overrides, source: 'overrides' });
+    }
+
+    return this.composeLayers(this.dedupeLayers(layers));
+  }
+
+  /**
+   * Merge already-resolved layers, tracking which layer set each field
+   */
+  composeLayers(layers: RulePackLayer[]): ComposedRulePack {
+    const provenance: RulePackProvenance = {};
+    let merged: Record<string, any> = {};
+
+    for (const layer of layers) {
+      merged = this.mergeValue(merged, this.stripUnmerged(layer.pack), '$', layer.source, provenance);
+    }
+
+    const packLayers = layers.filter((l) => l.pack.metadata);
+    const leaf = packLayers[packLayers.length - 1];
+
+    const rulePack: ResolvedRulePack = {
+      ...merged,
+      schema: 'devibe-rulepack/v1',
+      metadata: leaf?.pack.metadata ?? {
+        name: 'project',
+        version: '0.0.0',
+        author: '',
+        description: 'Project rule pack',
+      },
+      _resolved: {
+        source: { type: 'local', source: leaf?.file ?? '' },
+        loadedAt: new Date(),
+        dependencies: packLayers.slice(0, -1).map((l) => l.source),
+      },
+    };
+
+    return {
+      rulePack,
+      provenance,
+      layers: packLayers.map((l) => l.source),
+    };
+  }
+
+  /**
+   * Depth-first linearization: parents (in `extends` order) before the pack
+   * itself. Throws on circular inheritance.
+   */
+  private async resolveLayers(
+    reference: string,
+    basePath: string,
+    chain: { file: string; name: string }[]
+  ): Promise<RulePackLayer[]> {
+    const file = await this.loader.findRulePackFile(reference, basePath);
+
+    if (chain.some((c) => c.file === file)) {
+      const names = [...chain.map((c) => c.name), reference];
+      throw new Error(`Circular rule pack inheritance: ${names.join(' → ')}`);
+    }
+
+    const pack = await this.loader.loadFile(file);
+    const nextChain = [...chain, { file, name: pack.metadata.name }];
+    const layers: RulePackLayer[] = [];
+
+    for (const parent of pack.extends ?? []) {
+      layers.push(...(await this.resolveLayers(parent, path.dirname(file), nextChain)));
+    }
+
+    layers.push({ pack, source: pack.metadata.name, file });
+    return layers;
+  }
+
+  /**
+   * Keep the first occurrence of each file so a shared ancestor (diamond
+   * inheritance) does not re-apply over packs that already extended it
+   */
+  private dedupeLayers(layers: RulePackLayer[]): RulePackLayer[] {
+    const seen = new Set<string>();
+    return layers.filter((layer) => {
+      if (!layer.file) return true;
+      if (seen.has(layer.file)) return false;
+      seen.add(layer.file);
+      return true;
+    });
+  }
+
+  private stripUnmerged(pack: Partial<RulePack>): Record<string, any> {
+    const result: Record<string, any> = { ...pack };
+    for (const field of UNMERGED_FIELDS) {
+      delete result[field];
+    }
+    return result;
+  }
+
+  private mergeValue(
+    base: any,
+    override: any,
+    fieldPath: string,
+    source: string,
+    provenance: RulePackProvenance | undefined
+  ): any {
+    if (override === undefined) {
+      return base;
+    }
+
+    if (override === null) {
+      this.clearProvenance(fieldPath, provenance);
+      return undefined;
+    }
+
+    if (Array.isArray(override)) {
+      return this.mergeArrays(Array.isArray(base) ? base : [], override, fieldPath, source, provenance);
+    }
+
+    if (this.isPlainObject(override)) {
+      const result: Record<string, any> = this.isPlainObject(base) ? { ...base } : {};
+      for (const [key, value] of Object.entries(override)) {
+        const merged = this.mergeValue(result[key], value, `${fieldPath}.${key}`, source, provenance);
+        if (merged === undefined) {
+          delete result[key];
+        } else {
+          result[key] = merged;
+        }
+      }
+      return result;
+    }
+
+    if (provenance) {
+      provenance[fieldPath] = source;
+    }
+    return override;
+  }
+
+  private mergeArrays(
+    base: any[],
+    override: any[],
+    fieldPath: string,
+    source: string,
+    provenance: RulePackProvenance | undefined
+  ): any[] {
+    const result = [...base];
+
+    for (const item of override) {
+      const key = this.getIdentityKey(item);
+
+      if (key) {
+        const itemPath = `${fieldPath}[${item[key]}]`;
+        const index = result.findIndex((r) => this.isPlainObject(r) && r[key] === item[key]);
+        if (index >= 0) {
+          result[index] = this.mergeValue(result[index], item, itemPath, source, provenance);
+        } else {
+          result.push(this.mergeValue(undefined, item, itemPath, source, provenance));
+        }
+        continue;
+      }
+
+      const serialized = JSON.stringify(item);
+      if (!result.some((r) => JSON.stringify(r) === serialized)) {
+        result.push(item);
+      }
+      if (provenance) {
+        const label = typeof item === 'object' ? serialized : String(item);
+        provenance[`${fieldPath}[${label}]`] = source;
+      }
+    }
+
+    return result;
+  }
+
+  private getIdentityKey(item: any): string | null {
+    if (!this.isPlainObject(item)) {
+      return null;
+    }
+    return IDENTITY_KEYS.find((key) => typeof item[key] === 'string') ?? null;
+  }
+
+  private clearProvenance(fieldPath: string, provenance: RulePackProvenance | undefined): void {
+    if (!provenance) return;
+    for (const key of Object.keys(provenance)) {
+      if (key === fieldPath || key.startsWith(`${fieldPath}.`) || key.startsWith(`${fieldPath}[`)) {
+        delete provenance[key];
+      }
+    }
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
+
+/**
+ * Format a composed pack's provenance as aligned "field ← source" lines
+ */
+export function formatProvenance(provenance: RulePackProvenance): string {
+  const entries = Object.entries(provenance).sort(([a], [b]) => a.localeCompare(b));
+  const width = Math.min(70, Math.max(0, ...entries.map(([field]) => field.length)));
+
+  return entries
+    .map(([field, source]) => `${field.padEnd(width)}  ← ${source}`)
+    .join('\n');
+}
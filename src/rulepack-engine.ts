@@ -0,0 +1,183 @@
+/**
+ * Rule Pack Engine
+ * Applies resolved rule packs to planning, file classification and
+ * test organization
+ */
+
+import type {
+  RulePack,
+  RulePackConfig,
+  FolderRule,
+  ForbiddenPattern,
+  FileClassificationRules,
+  FileCategory,
+  NamingConventionRules,
+} from './rulepack-types.js';
+import type { TestCategory, TestOrganizationConfig } from './types.js';
+import { RulePackLoader } from './rulepack-loader.js';
+import { RulePackComposer } from './rulepack-composer.js';
+import { ConfigManager } from './config.js';
+import { matchesGlob } from './glob-matcher.js';
+
+const TEST_CATEGORIES: TestCategory[] = [
+  'unit', 'integration', 'e2e', 'tdd', 'functional', 'performance', 'acceptance', 'contract',
+];
+
+export class RulePackEngine {
+  constructor(
+    private pack: RulePack,
+    private sources: string[] = []
+  ) {}
+
+  /**
+   * Build an engine from a project's RulePackConfig (the `rulepacks`,
+   * `overrides` and `disabledRules` fields of .unvibe.config.js) plus any
+   * extra references passed on the command line.
+   * Returns null when the project uses no rule packs.
+   */
+  static async forProject(
+    projectPath: string,
+    extraReferences: string[] = [],
+    loader: RulePackLoader = new RulePackLoader()
+  ): Promise<RulePackEngine | null> {
+    const config = await ConfigManager.load(projectPath);
+    const rulePackConfig: RulePackConfig = {
+      rulepacks: [...(config.rulepacks ?? []), ...extraReferences],
+      overrides: config.overrides,
+      disabledRules: config.disabledRules,
+    };
+
+    return RulePackEngine.fromConfig(rulePackConfig, projectPath, loader);
+  }
+
+  static async fromConfig(
+    config: RulePackConfig,
+    projectPath: string,
+    loader: RulePackLoader = new RulePackLoader()
+  ): Promise<RulePackEngine | null> {
+    if (config.rulepacks.length === 0) {
+      return null;
+    }
+
+    const composer = new RulePackComposer(loader);
+    const { rulePack, layers } = await composer.resolveAll(
+      config.rulepacks,
+      projectPath,
+      config.overrides
+    );
+
+    if (config.disabledRules && config.disabledRules.length > 0 && rulePack.customRules) {
+      rulePack.customRules = rulePack.customRules.filter(
+        (rule) => !config.disabledRules!.includes(rule.id)
+      );
+    }
+
+    return new RulePackEngine(rulePack, layers);
+  }
+
+  getRulePack(): RulePack {
+    return this.pack;
+  }
+
+  /**
+   * Names of the packs that were merged into this engine, including
+   * inherited ones, ancestors first
+   */
+  getSources(): string[] {
+    return this.sources;
+  }
+
+  /**
+   * Check a path (relative to the project root) against the pack's ignore list
+   */
+  isIgnored(relativePath: string): boolean {
+    return (this.pack.ignore ?? []).some((pattern) => matchesGlob(relativePath, pattern));
+  }
+
+  isStructureEnforced(): boolean {
+    return this.pack.structure?.enforced ?? false;
+  }
+
+  getRequiredFolders(): FolderRule[] {
+    return this.pack.structure?.requiredFolders ?? [];
+  }
+
+  /**
+   * Find the forbiddenAtRoot rule a root-level file violates, if any
+   */
+  findForbiddenAtRoot(fileName: string): ForbiddenPattern | null {
+    for (const item of this.pack.structure?.forbiddenAtRoot ?? []) {
+      // The spec allows bare glob strings as well as { pattern, message }
+      const rule: ForbiddenPattern =
+        typeof item === 'string'
+          ? { pattern: item, message: `${item} is not allowed at the repository root` }
+          : item;
+
+      if (rule.pattern && matchesGlob(fileName, rule.pattern)) {
+        return rule;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Folder (relative to the repo root) that should hold files of a category.
+   * Required folders win over optional ones; falls back to the category's
+   * suggestedLocation from fileClassification.
+   */
+  getFolderForCategory(category: FileCategory): string | null {
+    const folders = [
+      ...(this.pack.structure?.requiredFolders ?? []),
+      ...(this.pack.structure?.optionalFolders ?? []),
+    ];
+
+    const folder = folders.find((f) => f.allowedCategories?.includes(category));
+    if (folder) {
+      return folder.path;
+    }
+
+    const suggested = this.pack.fileClassification?.categories[category]?.suggestedLocation;
+    return suggested ? suggested.replace(/\/$/, '') : null;
+  }
+
+  getNamingConventions(): NamingConventionRules | undefined {
+    return this.pack.namingConventions;
+  }
+
+  getClassificationRules(): FileClassificationRules | undefined {
+    return this.pack.fileClassification;
+  }
+
+  /**
+   * Translate the pack's testOrganization section into the TestOrganizer
+   * config. Technology detection patterns are kept from the fallback config.
+   * Returns the fallback unchanged when the pack has no test rules.
+   */
+  getTestOrganizationConfig(fallback?: TestOrganizationConfig): TestOrganizationConfig | undefined {
+    const rules = this.pack.testOrganization;
+    if (!rules) {
+      return fallback;
+    }
+
+    const globalRules = (rules.categories ?? [])
+      .filter((c) => TEST_CATEGORIES.includes(c.name as TestCategory))
+      .map((c) => ({
+        category: c.name as TestCategory,
+        patterns: c.patterns,
+        targetDirectory: c.targetDirectory,
+        description: c.description,
+      }));
+
+    return {
+      // Colocated tests live next to their sources, so there is nothing to move
+      enabled: rules.enabled && rules.strategy !== 'colocated',
+      baseTestDirectory: rules.baseDirectory,
+      preserveStructure: fallback?.preserveStructure ?? false,
+      groupByTechnology: fallback?.groupByTechnology ?? false,
+      globalRules: globalRules.length > 0 ? globalRules : fallback?.globalRules ?? [],
+      technologies: fallback?.technologies ?? [],
+      ignorePatterns: this.pack.ignore,
+    };
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Rule Pack Loader
+ * Reads rule pack files (YAML or JSON) and resolves rule pack references
+ * to local files, packs installed in the local store or the packs bundled
+ * with devibe
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { fileURLToPath } from 'url';
+import yaml from 'js-yaml';
+import { RulePackValidator } from './rulepack-validator.js';
+import type { RulePack, ResolvedRulePack, RulePackStoreIndex } from './rulepack-types.js';
+
+/**
+ * Directory holding the official rule packs shipped with the package
+ */
+export const BUNDLED_RULEPACKS_DIR = fileURLToPath(new URL('../rulepacks', import.meta.url));
+
+/**
+ * Local store for installed rule packs (see RulePackManager)
+ */
+export const DEFAULT_RULEPACK_STORE = path.join(os.homedir(), '.devibe', 'rulepacks');
+
+const STORE_INDEX_FILE = 'index.json';
+
+/**
+ * Split "name@version" (e.g. "@acme/rules@1.2.0") into its parts. The
+ * leading "@" of a scoped name is not a version separator.
+ */
+export function parseRulePackReference(reference: string): { name: string; version?: string } {
+  const at = reference.lastIndexOf('@');
+  if (at <= 0) {
+    return { name: reference };
+  }
+
+  return { name: reference.slice(0, at), version: reference.slice(at + 1) };
+}
+
+/**
+ * Read the store index, returning an empty index when nothing is installed
+ */
+export async function readStoreIndex(storeDir: string): Promise<RulePackStoreIndex> {
+  try {
+    const content = await fs.readFile(path.join(storeDir, STORE_INDEX_FILE), 'utf-8');
+    return JSON.parse(content) as RulePackStoreIndex;
+  } catch {
+    return { packs: {} };
+  }
+}
+
+export async function writeStoreIndex(storeDir: string, index: RulePackStoreIndex): Promise<void> {
+  await fs.mkdir(storeDir, { recursive: true });
+  await fs.writeFile(path.join(storeDir, STORE_INDEX_FILE), JSON.stringify(index, null, 2));
+}
+
+/**
+ * Parse rule pack file content. YAML is a superset of JSON, but JSON files
+ * go through JSON.parse so syntax errors point at the right place.
+ */
+export function parseRulePackContent(content: string, fileName: string): unknown {
+  if (fileName.endsWith('.json')) {
+    return JSON.parse(content);
+  }
+
+  return yaml.load(content);
+}
+
+export class RulePackLoader {
+  private validator = new RulePackValidator();
+  private bundledIndex: Map<string, { file: string; version: string }> | null = null;
+
+  constructor(
+    private bundledDir: string = BUNDLED_RULEPACKS_DIR,
+    private storeDir: string = DEFAULT_RULEPACK_STORE
+  ) {}
+
+  /**
+   * Load and validate a rule pack file
+   */
+  async loadFile(filePath: string): Promise<RulePack> {
+    const content = await fs.readFile(filePath, 'utf-8');
+
+    let parsed: unknown;
+    try {
+      parsed = parseRulePackContent(content, filePath);
+    } catch (error: any) {
+      throw new Error(`Failed to parse rule pack ${filePath}: ${error.message}`);
+    }
+
+    const result = await this.validator.validate(parsed);
+    if (!result.valid) {
+      const details = result.errors
+        .map((e) => `${e.path}: ${e.message}`)
+        .join('; ');
+      throw new Error(`Invalid rule pack ${filePath}: ${details}`);
+    }
+
+    return parsed as RulePack;
+  }
+
+  /**
+   * Resolve a rule pack reference (file path or pack name) and load it.
+   * Relative paths are resolved against basePath.
+   */
+  async resolve(reference: string, basePath: string): Promise<ResolvedRulePack> {
+    const filePath = await this.findRulePackFile(reference, basePath);
+    const pack = await this.loadFile(filePath);
+
+    return {
+      ...pack,
+      _resolved: {
+        source: { type: 'local', source: filePath, version: pack.metadata.version },
+        loadedAt: new Date(),
+        dependencies: pack.extends ?? [],
+      },
+    };
+  }
+
+  /**
+   * Find the file backing a rule pack reference
+   */
+  async findRulePackFile(reference: string, basePath: string): Promise<string> {
+    if (this.isPathReference(reference)) {
+      const filePath = path.resolve(basePath, reference);
+      try {
+        await fs.access(filePath);
+        return filePath;
+      } catch {
+        throw new Error(`Rule pack file not found: ${filePath}`);
+      }
+    }
+
+    const { name, version } = parseRulePackReference(reference);
+
+    // Installed packs take precedence so a newer install can shadow a bundled pack
+    const installed = (await readStoreIndex(this.storeDir)).packs[name];
+    if (installed) {
+      const entry = installed.versions[version ?? installed.pinned];
+      if (entry) {
+        return path.join(this.storeDir, entry.file);
+      }
+    }
+
+    const bundled = await this.getBundledIndex();
+    const match = bundled.get(name);
+    if (match && (!version || match.version === version)) {
+      return match.file;
+    }
+
+    if (version && (installed || match)) {
+      const available = [
+        ...Object.keys(installed?.versions ?? {}),
+        ...(match ? [match.version] : []),
+      ];
+      throw new Error(
+        `Rule pack "${name}" has no version ${version}. Available: ${available.join(', ')}`
+      );
+    }
+
+    const available = Array.from(bundled.keys()).join(', ');
+    throw new Error(
+      `Rule pack "${reference}" not found. Available bundled packs: ${available || 'none'}. ` +
+      `Install others with: devibe rulepack install <path>`
+    );
+  }
+
+  /**
+   * File of a bundled pack, ignoring installed packs that shadow it
+   */
+  async findBundledFile(name: string): Promise<string | null> {
+    const bundled = await this.getBundledIndex();
+    return bundled.get(name)?.file ?? null;
+  }
+
+  /**
+   * List names of the bundled rule packs
+   */
+  async listBundled(): Promise<string[]> {
+    const bundled = await this.getBundledIndex();
+    return Array.from(bundled.keys()).sort();
+  }
+
+  private isPathReference(reference: string): boolean {
+    return (
+      reference.startsWith('.') ||
+      path.isAbsolute(reference) ||
+      /\.(ya?ml|json)$/.test(reference)
+    );
+  }
+
+  /**
+   * Map metadata.name -> file and version for every pack in the bundled
+   * directory
+   */
+  private async getBundledIndex(): Promise<Map<string, { file: string; version: string }>> {
+    if (this.bundledIndex) {
+      return this.bundledIndex;
+    }
+
+    const index = new Map<string, { file: string; version: string }>();
+
+    try {
+      const entries = await fs.readdir(this.bundledDir);
+      for (const entry of entries) {
+        if (!/\.(ya?ml|json)$/.test(entry)) continue;
+
+        const filePath = path.join(this.bundledDir, entry);
+        try {
+          const content = await fs.readFile(filePath, 'utf-8');
+          const parsed = parseRulePackContent(content, entry) as Partial<RulePack> | null;
+          if (parsed?.metadata?.name) {
+            index.set(parsed.metadata.name, { file: filePath, version: parsed.metadata.version });
+          }
+        } catch {
+          // Skip unreadable or malformed bundled files
+        }
+      }
+    } catch {
+      // Bundled directory missing (e.g. unusual install layout)
+    }
+
+    this.bundledIndex = index;
+    return index;
+  }
+}
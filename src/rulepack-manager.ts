@@ -0,0 +1,396 @@
+/**
+ * Rule Pack Manager
+ * Installs rule packs into a local store (~/.devibe/rulepacks) from a
+ * file, directory or tarball, pins versions and lists what is installed
+ *
+ * Store layout:
+ *   index.json                      - RulePackStoreIndex
+ *   <name>/<version>/<files>        - copy of the installed pack
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+import { RulePackValidator, isValidPackageName, isValidSemver } from './rulepack-validator.js';
+import {
+  RulePackLoader,
+  BUNDLED_RULEPACKS_DIR,
+  DEFAULT_RULEPACK_STORE,
+  parseRulePackContent,
+  parseRulePackReference,
+  readStoreIndex,
+  writeStoreIndex,
+} from './rulepack-loader.js';
+import type {
+  RulePack,
+  RulePackMetadata,
+  RulePackSource,
+  ResolvedRulePack,
+  ValidationResult,
+  ICanManageRulePacks,
+} from './rulepack-types.js';
+
+const gunzip = promisify(zlib.gunzip);
+
+const RULEPACK_FILE = /\.(ya?ml|json)$/;
+const TARBALL_FILE = /\.(tgz|tar\.gz|tar)$/;
+
+export class RulePackManager implements ICanManageRulePacks {
+  private validator = new RulePackValidator();
+  private loader: RulePackLoader;
+
+  constructor(
+    private storeDir: string = DEFAULT_RULEPACK_STORE,
+    bundledDir: string = BUNDLED_RULEPACKS_DIR
+  ) {
+    this.loader = new RulePackLoader(bundledDir, storeDir);
+  }
+
+  /**
+   * Install a pack from a local file, directory or tarball and pin the
+   * installed version. When version is given the pack must declare it.
+   */
+  async install(source: string, version?: string): Promise<RulePack> {
+    const rulePackSource = this.parseSource(source);
+    if (rulePackSource.type !== 'local') {
+      throw new Error(
+        `Installing from ${rulePackSource.type} sources is not supported yet. ` +
+        'Download the pack and install it from a local path or tarball.'
+      );
+    }
+
+    const sourcePath = path.resolve(source);
+    await fs.mkdir(this.storeDir, { recursive: true });
+    const staging = await fs.mkdtemp(path.join(this.storeDir, '.staging-'));
+
+    try {
+      const packFile = await this.stage(sourcePath, staging);
+      const pack = await this.loader.loadFile(packFile);
+      const { name, version: packVersion } = pack.metadata;
+
+      if (version && version !== packVersion) {
+        throw new Error(`${sourcePath} contains ${name}@${packVersion}, not version ${version}`);
+      }
+      // Both become store folders, so they must not climb out of it
+      if (!isValidPackageName(name)) {
+        throw new Error(`Cannot install rule pack "${name}": the name must look like "name" or "@org/name"`);
+      }
+      if (!isValidSemver(packVersion)) {
+        throw new Error(`Cannot install ${name}@${packVersion}: the version must be semver (e.g. "1.0.0")`);
+      }
+
+      const relativeDir = path.join(name, packVersion);
+      const targetDir = this.storePath(relativeDir);
+      await fs.rm(targetDir, { recursive: true, force: true });
+      await fs.mkdir(path.dirname(targetDir), { recursive: true });
+      await fs.rename(staging, targetDir);
+
+      const index = await readStoreIndex(this.storeDir);
+      const installed = index.packs[name] ?? { pinned: packVersion, versions: {} };
+      installed.versions[packVersion] = {
+        file: path.join(relativeDir, path.relative(staging, packFile)),
+        source: { ...rulePackSource, source: sourcePath, version: packVersion },
+        installedAt: new Date().toISOString(),
+      };
+      installed.pinned = packVersion;
+      index.packs[name] = installed;
+      await writeStoreIndex(this.storeDir, index);
+
+      return pack;
+    } finally {
+      await fs.rm(staging, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Remove an installed pack. "name@version" removes a single version.
+   */
+  async remove(reference: string): Promise<void> {
+    const { name, version } = parseRulePackReference(reference);
+    if (!isValidPackageName(name)) {
+      throw new Error(`Invalid rule pack name "${name}"`);
+    }
+    const index = await readStoreIndex(this.storeDir);
+    const installed = index.packs[name];
+
+    if (!installed || (version && !installed.versions[version])) {
+      throw new Error(`Rule pack "${reference}" is not installed`);
+    }
+
+    const versions = version ? [version] : Object.keys(installed.versions);
+    for (const v of versions) {
+      await fs.rm(this.storePath(name, v), { recursive: true, force: true });
+      delete installed.versions[v];
+    }
+
+    const remaining = Object.keys(installed.versions);
+    if (remaining.length === 0) {
+      delete index.packs[name];
+      await fs.rm(this.storePath(name), { recursive: true, force: true });
+      if (name.startsWith('@')) {
+        // Drop the scope folder once its last pack is gone
+        await fs.rmdir(this.storePath(path.dirname(name))).catch(() => {});
+      }
+    } else if (!installed.versions[installed.pinned]) {
+      installed.pinned = remaining.sort(compareVersions)[remaining.length - 1];
+    }
+
+    await writeStoreIndex(this.storeDir, index);
+  }
+
+  /**
+   * Pin the version used when a reference omits @version
+   */
+  async pin(name: string, version: string): Promise<void> {
+    const index = await readStoreIndex(this.storeDir);
+    const installed = index.packs[name];
+
+    if (!installed?.versions[version]) {
+      const available = Object.keys(installed?.versions ?? {});
+      throw new Error(
+        `Rule pack "${name}@${version}" is not installed` +
+        (available.length > 0 ? `. Installed versions: ${available.join(', ')}` : '')
+      );
+    }
+
+    installed.pinned = version;
+    await writeStoreIndex(this.storeDir, index);
+  }
+
+  /**
+   * Metadata of the pinned version of every installed pack
+   */
+  async list(): Promise<RulePackMetadata[]> {
+    const index = await readStoreIndex(this.storeDir);
+    const result: RulePackMetadata[] = [];
+
+    for (const [name, installed] of Object.entries(index.packs).sort(([a], [b]) => a.localeCompare(b))) {
+      const entry = installed.versions[installed.pinned];
+      try {
+        const pack = await this.loader.loadFile(path.join(this.storeDir, entry.file));
+        result.push(pack.metadata);
+      } catch {
+        result.push({ name, version: installed.pinned, author: '', description: '(unreadable)' });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Installed versions per pack name, with the pinned one marked
+   */
+  async listVersions(): Promise<Array<{ name: string; pinned: string; versions: string[] }>> {
+    const index = await readStoreIndex(this.storeDir);
+    return Object.entries(index.packs).map(([name, installed]) => ({
+      name,
+      pinned: installed.pinned,
+      versions: Object.keys(installed.versions).sort(compareVersions),
+    }));
+  }
+
+  /**
+   * Metadata of the packs shipped with devibe (OFFICIAL_RULEPACKS)
+   */
+  async listBundled(): Promise<RulePackMetadata[]> {
+    const result: RulePackMetadata[] = [];
+    for (const name of await this.loader.listBundled()) {
+      const file = await this.loader.findBundledFile(name);
+      result.push((await this.loader.loadFile(file!)).metadata);
+    }
+    return result;
+  }
+
+  /**
+   * Resolve "name" or "name@version" to an installed or bundled pack
+   */
+  async resolve(reference: string): Promise<ResolvedRulePack> {
+    const resolved = await this.loader.resolve(reference, process.cwd());
+    const { name } = parseRulePackReference(reference);
+    const installed = (await readStoreIndex(this.storeDir)).packs[name];
+    const entry = installed?.versions[resolved.metadata.version];
+
+    if (entry && path.join(this.storeDir, entry.file) === resolved._resolved.source.source) {
+      resolved._resolved.source = entry.source;
+    }
+
+    return resolved;
+  }
+
+  async validate(rulePack: RulePack): Promise<ValidationResult> {
+    return this.validator.validate(rulePack);
+  }
+
+  /**
+   * Search installed and bundled packs by name, description or tag
+   */
+  async search(query: string): Promise<RulePackMetadata[]> {
+    const needle = query.toLowerCase();
+    const seen = new Set<string>();
+    const result: RulePackMetadata[] = [];
+
+    for (const metadata of [...(await this.list()), ...(await this.listBundled())]) {
+      if (seen.has(metadata.name)) continue;
+
+      const haystack = [metadata.name, metadata.description, ...(metadata.tags ?? [])]
+        .join(' ')
+        .toLowerCase();
+      if (haystack.includes(needle)) {
+        seen.add(metadata.name);
+        result.push(metadata);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * A path inside the store; anything that resolves outside it (or to the
+   * store itself) is refused before it can be removed or replaced
+   */
+  private storePath(...segments: string[]): string {
+    const store = path.resolve(this.storeDir);
+    const target = path.resolve(store, ...segments);
+    if (!target.startsWith(store + path.sep)) {
+      throw new Error(`Refusing to touch ${target}: it is outside the rule pack store ${store}`);
+    }
+    return target;
+  }
+
+  private parseSource(source: string): RulePackSource {
+    if (source.startsWith('npm:')) {
+      return { type: 'npm', source: source.slice(4) };
+    }
+    if (source.startsWith('github:')) {
+      return { type: 'github', source: source.slice(7) };
+    }
+    if (/^https?:\/\//.test(source)) {
+      return { type: 'url', source };
+    }
+    return { type: 'local', source };
+  }
+
+  /**
+   * Copy the source into the staging directory and return the path of the
+   * rule pack file inside it
+   */
+  private async stage(sourcePath: string, staging: string): Promise<string> {
+    let stat;
+    try {
+      stat = await fs.stat(sourcePath);
+    } catch {
+      throw new Error(`Rule pack source not found: ${sourcePath}`);
+    }
+
+    if (stat.isDirectory()) {
+      await fs.cp(sourcePath, staging, { recursive: true });
+    } else if (TARBALL_FILE.test(sourcePath)) {
+      await extractTarball(await fs.readFile(sourcePath), staging);
+    } else if (RULEPACK_FILE.test(sourcePath)) {
+      const target = path.join(staging, path.basename(sourcePath));
+      await fs.copyFile(sourcePath, target);
+      return target;
+    } else {
+      throw new Error(`Unsupported rule pack source: ${sourcePath}. Use a .yaml/.json file, directory or tarball`);
+    }
+
+    return this.findPackFile(staging);
+  }
+
+  /**
+   * Locate the rule pack inside an unpacked directory. Archives usually
+   * nest everything under one top-level folder (package/ for npm pack),
+   * which is searched when the root holds no pack. A file named
+   * rulepack.* wins over others.
+   */
+  private async findPackFile(dir: string): Promise<string> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    const candidates: string[] = [];
+
+    for (const entry of entries) {
+      if (!entry.isFile() || !RULEPACK_FILE.test(entry.name) || entry.name === 'package.json') continue;
+
+      const filePath = path.join(dir, entry.name);
+      try {
+        const parsed = parseRulePackContent(await fs.readFile(filePath, 'utf-8'), entry.name) as { schema?: unknown } | null;
+        if (parsed?.schema === 'devibe-rulepack/v1') {
+          candidates.push(filePath);
+        }
+      } catch {
+        // Not a rule pack
+      }
+    }
+
+    if (candidates.length === 0) {
+      const folders = entries.filter((e) => e.isDirectory());
+      if (folders.length === 1 && entries.length === 1) {
+        return this.findPackFile(path.join(dir, folders[0].name));
+      }
+      throw new Error('No rule pack file (schema: devibe-rulepack/v1) found in source');
+    }
+
+    const preferred = candidates.find((c) => /^rulepack\./.test(path.basename(c)));
+    if (!preferred && candidates.length > 1) {
+      throw new Error(
+        `Multiple rule packs found (${candidates.map((c) => path.basename(c)).join(', ')}). ` +
+        'Name the one to install rulepack.yaml'
+      );
+    }
+
+    return preferred ?? candidates[0];
+  }
+}
+
+/**
+ * Extract a (optionally gzipped) tar archive. Only regular files and
+ * directories are written; entries escaping the target are rejected.
+ */
+async function extractTarball(archive: Buffer, targetDir: string): Promise<void> {
+  const data = archive[0] === 0x1f && archive[1] === 0x8b ? await gunzip(archive) : archive;
+  let offset = 0;
+
+  while (offset + 512 <= data.length) {
+    const header = data.subarray(offset, offset + 512);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const field = (start: number, length: number) =>
+      header.subarray(start, start + length).toString('utf-8').replace(/\0.*$/s, '');
+
+    const name = field(0, 100);
+    const prefix = field(345, 155);
+    const size = parseInt(field(124, 12).trim() || '0', 8);
+    const type = field(156, 1) || '0';
+    const entryName = prefix ? `${prefix}/${name}` : name;
+
+    offset += 512;
+
+    if (type === '0' || type === '5') {
+      const target = path.resolve(targetDir, entryName);
+      if (!target.startsWith(path.resolve(targetDir) + path.sep)) {
+        throw new Error(`Refusing to extract ${entryName}: path escapes the target directory`);
+      }
+
+      if (type === '5') {
+        await fs.mkdir(target, { recursive: true });
+      } else {
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, data.subarray(offset, offset + size));
+      }
+    }
+
+    offset += Math.ceil(size / 512) * 512;
+  }
+}
+
+function compareVersions(a: string, b: string): number {
+  const pa = a.split(/[.-]/).map((p) => parseInt(p, 10) || 0);
+  const pb = b.split(/[.-]/).map((p) => parseInt(p, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
@@ -228,8 +228,48 @@ export interface CustomRule {
   id: string;
   description: string;
   filePatterns: string[];
-  validator: string;
+  validator: string;           // Built-in name or path to a project-local JS/TS module
   severity: 'error' | 'warning' | 'info';
+  options?: Record<string, unknown>;
+}
+
+export interface CustomRuleContext {
+  rule: CustomRule;
+  options: Record<string, unknown>;
+  projectPath: string;
+  filePath: string;            // Absolute
+  relativePath: string;        // Relative to projectPath, forward slashes
+  content: string;
+  lines: string[];
+}
+
+export interface CustomRuleFinding {
+  message: string;
+  line?: number;               // 1-based
+}
+
+/**
+ * A validator returns the problems it found in one file. Strings are
+ * shorthand for { message }.
+ */
+export type CustomRuleValidator = (
+  context: CustomRuleContext
+) => Array<CustomRuleFinding | string> | Promise<Array<CustomRuleFinding | string>>;
+
+export interface CustomRuleViolation {
+  ruleId: string;
+  severity: CustomRule['severity'];
+  file: string;                // Relative to the project root
+  line?: number;
+  message: string;
+}
+
+export interface CustomRuleReport {
+  filesChecked: number;
+  rulesRun: string[];
+  skippedRules: Array<{ ruleId: string; reason: string }>;
+  violations: CustomRuleViolation[];
+  summary: Record<CustomRule['severity'], number>;
 }
 
 // ============================================================================
@@ -248,6 +288,21 @@ export interface RulePackSource {
   version?: string;
 }
 
+export interface InstalledRulePackVersion {
+  file: string;                // Relative to the store directory
+  source: RulePackSource;
+  installedAt: string;
+}
+
+export interface InstalledRulePack {
+  pinned: string;              // Version used when a reference has no @version
+  versions: Record<string, InstalledRulePackVersion>;
+}
+
+export interface RulePackStoreIndex {
+  packs: Record<string, InstalledRulePack>;
+}
+
 export interface ResolvedRulePack extends RulePack {
   _resolved: {
     source: RulePackSource;
@@ -153,7 +153,7 @@ export class RulePackValidator {
         message: 'Field "name" must be a string',
         code: 'INVALID_NAME_TYPE'
       });
-    } else if (!this.isValidPackageName(metadata.name)) {
+    } else if (!isValidPackageName(metadata.name)) {
       warnings.push({
         path: `${path}.name`,
         message: 'Package name should follow npm scoping convention: "@org/name" or "name"',
@@ -167,7 +167,7 @@ export class RulePackValidator {
         message: 'Missing required field "version". Example: "1.0.0" (semver)',
         code: 'MISSING_VERSION'
       });
-    } else if (!this.isValidSemver(metadata.version)) {
+    } else if (!isValidSemver(metadata.version)) {
       errors.push({
         path: `${path}.version`,
         message: `Invalid version "${metadata.version}". Must be valid semver (e.g., "1.0.0", "2.1.3")`,
@@ -757,6 +757,22 @@ export class RulePackValidator {
         });
       }
 
+      if (typeof rule.validator !== 'string' || !rule.validator) {
+        errors.push({
+          path: `${rulePath}.validator`,
+          message: 'Custom rule must name a "validator": a built-in (must-have-header, max-lines, forbidden-import) or a module path like "./policies/no-console.js"',
+          code: 'MISSING_RULE_VALIDATOR'
+        });
+      }
+
+      if (rule.options !== undefined && (typeof rule.options !== 'object' || rule.options === null || Array.isArray(rule.options))) {
+        errors.push({
+          path: `${rulePath}.options`,
+          message: 'Field "options" must be an object. Example: { max: 300 }',
+          code: 'INVALID_RULE_OPTIONS'
+        });
+      }
+
       const validSeverities = ['error', 'warning', 'info'];
       if (rule.severity && !validSeverities.includes(rule.severity)) {
         errors.push({
@@ -792,16 +808,6 @@ export class RulePackValidator {
   // Utility Validation Methods
   // ========================================================================
 
-  private isValidPackageName(name: string): boolean {
-    // npm package name rules: lowercase, can have @scope/, hyphens, numbers
-    return /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/.test(name);
-  }
-
-  private isValidSemver(version: string): boolean {
-    // Basic semver validation (major.minor.patch)
-    return /^\d+\.\d+\.\d+(-[a-zA-Z0-9.-]+)?(\+[a-zA-Z0-9.-]+)?$/.test(version);
-  }
-
   private isValidUrl(url: string): boolean {
     try {
       new URL(url);
@@ -812,6 +818,20 @@ export class RulePackValidator {
   }
 }
 
+/**
+ * npm package name rules: lowercase, can have @scope/, hyphens, numbers
+ */
+export function isValidPackageName(name: string): boolean {
+  return /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/.test(name);
+}
+
+/**
+ * Basic semver validation (major.minor.patch)
+ */
+export function isValidSemver(version: string): boolean {
+  return /^\d+\.\d+\.\d+(-[a-zA-Z0-9.-]+)?(\+[a-zA-Z0-9.-]+)?$/.test(version);
+}
+
 /**
  * Format validation result as human-readable output
  */
@@ -1,55 +1,198 @@
 import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
 import type {
   SecretFinding,
+  SecretPattern,
+  SecretPatternDefinition,
+  SecretScannerOptions,
   SecretScanResult,
   ICanScanForSecrets,
   ICanMatchSecretPatterns,
   ICanAnalyzeEntropy,
 } from './types.js';
 import { BUILT_IN_PATTERNS } from './secret-patterns.js';
+import { EntropyDetector } from './entropy-detector.js';
+import { ConfigManager } from './config.js';
+import { RulePackEngine } from './rulepack-engine.js';
+import { matchesGlob } from './glob-matcher.js';
+
+const SEVERITIES = ['critical', 'high', 'medium', 'low'];
+
+// Inline marker that accepts a finding on its own line or the line below
+export const ALLOW_SECRET_MARKER = 'devibe:allow-secret';
+
+const COMMENT_LINE = /^\s*(\/\/|#|\/\*|\*|<!--|--|;)/;
+
+export function summarizeFindings(findings: SecretFinding[]): SecretScanResult['summary'] {
+  return {
+    critical: findings.filter((f) => f.severity === 'critical').length,
+    high: findings.filter((f) => f.severity === 'high').length,
+    medium: findings.filter((f) => f.severity === 'medium').length,
+    low: findings.filter((f) => f.severity === 'low').length,
+  };
+}
+
+/**
+ * Compile pattern definitions from config files or rule packs. All problems
+ * are collected and reported together so a bad config fails before scanning.
+ */
+export function compileSecretPatterns(definitions: SecretPatternDefinition[]): SecretPattern[] {
+  const errors: string[] = [];
+  const compiled: SecretPattern[] = [];
+
+  definitions.forEach((definition, index) => {
+    const label = definition?.id || `#${index + 1}`;
+
+    if (!definition?.id || !definition.name) {
+      errors.push(`${label}: "id" and "name" are required`);
+      return;
+    }
+
+    if (!SEVERITIES.includes(definition.severity)) {
+      errors.push(`${label}: invalid severity "${definition.severity}" (expected ${SEVERITIES.join(', ')})`);
+      return;
+    }
+
+    if (typeof definition.pattern !== 'string' || definition.pattern.length === 0) {
+      errors.push(`${label}: "pattern" must be a non-empty regular expression string`);
+      return;
+    }
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(definition.pattern, 'g');
+    } catch (error: any) {
+      errors.push(`${label}: ${error.message}`);
+      return;
+    }
+
+    if (new RegExp(definition.pattern).test('')) {
+      errors.push(`${label}: pattern /${definition.pattern}/ matches an empty string`);
+      return;
+    }
+
+    compiled.push({
+      id: definition.id,
+      name: definition.name,
+      pattern: regex,
+      severity: definition.severity,
+      category: definition.category ?? 'custom',
+      recommendation: definition.recommendation ?? 'Move to environment variable or secret management',
+    });
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid secret scan patterns:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return compiled;
+}
 
 export class SecretScanner
   implements ICanScanForSecrets, ICanMatchSecretPatterns, ICanAnalyzeEntropy
 {
+  private patterns: SecretPattern[];
+  private excludePatterns: string[];
+  private rootPath: string;
+  private entropyDetector: EntropyDetector;
+
+  constructor(options: SecretScannerOptions = {}) {
+    const custom = compileSecretPatterns(options.customPatterns ?? []);
+    const byId = new Map(BUILT_IN_PATTERNS.map((p) => [p.id, p]));
+    for (const pattern of custom) {
+      byId.set(pattern.id, pattern);
+    }
+
+    this.patterns = Array.from(byId.values());
+    this.excludePatterns = options.excludePatterns ?? [];
+    this.rootPath = options.rootPath ?? process.cwd();
+    this.entropyDetector = new EntropyDetector(options.entropy);
+  }
+
+  /**
+   * Create a scanner with the project's secretScan config and the
+   * secretScanning patterns of its rule packs. Config patterns win over
+   * rule pack patterns with the same id. A rule pack that fails to load
+   * throws rather than scanning without its patterns.
+   */
+  static async forProject(
+    projectPath: string,
+    rulePackEngine?: RulePackEngine | null
+  ): Promise<SecretScanner> {
+    const config = await ConfigManager.load(projectPath);
+    const engine = rulePackEngine !== undefined
+      ? rulePackEngine
+      : await RulePackEngine.forProject(projectPath);
+
+    return new SecretScanner({
+      customPatterns: [
+        ...(engine?.getRulePack().secretScanning?.patterns ?? []),
+        ...(config.secretScan?.customPatterns ?? []),
+      ],
+      excludePatterns: config.secretScan?.excludePatterns,
+      rootPath: projectPath,
+      entropy: config.secretScan?.entropy,
+    });
+  }
+
+  getPatterns(): SecretPattern[] {
+    return this.patterns;
+  }
+
+  isExcluded(file: string): boolean {
+    const relative = path.relative(this.rootPath, path.resolve(file));
+    const target = relative.startsWith('..') ? file : relative;
+    return this.excludePatterns.some((pattern) => matchesGlob(target, pattern));
+  }
+
   async scanFiles(files: string[]): Promise<SecretScanResult> {
     const startTime = Date.now();
     const allFindings: SecretFinding[] = [];
+    const included = files.filter((file) => !this.isExcluded(file));
 
-    for (const file of files) {
+    for (const file of included) {
       const content = await fs.readFile(file, 'utf-8');
       const findings = this.matchPatterns(content, file);
       allFindings.push(...findings);
     }
 
-    const summary = {
-      critical: allFindings.filter((f) => f.severity === 'critical').length,
-      high: allFindings.filter((f) => f.severity === 'high').length,
-      medium: allFindings.filter((f) => f.severity === 'medium').length,
-      low: allFindings.filter((f) => f.severity === 'low').length,
-    };
-
     return {
-      filesScanned: files.length,
+      filesScanned: included.length,
       secretsFound: allFindings.length,
       duration: Date.now() - startTime,
       findings: allFindings,
-      summary,
+      summary: summarizeFindings(allFindings),
     };
   }
 
   matchPatterns(content: string, file: string = ''): SecretFinding[] {
     const findings: SecretFinding[] = [];
+    const patternMatches: Array<{ line: number; start: number; end: number }> = [];
     const lines = content.split('\n');
 
-    for (const pattern of BUILT_IN_PATTERNS) {
+    for (const pattern of this.patterns) {
       for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+        if (this.isAllowed(lines, lineIndex)) continue;
+
         const line = lines[lineIndex];
         const regex = new RegExp(pattern.pattern.source, pattern.pattern.flags);
         let match;
 
         while ((match = regex.exec(line)) !== null) {
           const matchedText = match[0];
+          if (matchedText.length === 0) {
+            // Guard against zero-width matches looping forever
+            regex.lastIndex++;
+            continue;
+          }
+
           const context = this.truncateContext(line, matchedText);
+          patternMatches.push({
+            line: lineIndex + 1,
+            start: match.index,
+            end: match.index + matchedText.length,
+          });
 
           findings.push({
             file,
@@ -61,14 +204,82 @@ export class SecretScanner
             context,
             recommendation: pattern.recommendation,
             confidence: 0.9,
+            fingerprint: this.fingerprint(file, pattern.id, matchedText),
           });
         }
       }
     }
 
+    findings.push(...this.matchEntropy(content, file, patternMatches));
+
     return findings;
   }
 
+  /**
+   * Entropy stage: random-looking tokens not already covered by a pattern.
+   * Tokens assigned to secret-like names (token, password, ...) get a higher
+   * confidence and severity.
+   */
+  private matchEntropy(
+    content: string,
+    file: string,
+    patternMatches: Array<{ line: number; start: number; end: number }>
+  ): SecretFinding[] {
+    const findings: SecretFinding[] = [];
+    const lines = content.split('\n');
+
+    for (const match of this.entropyDetector.detect(content, file)) {
+      const line = lines[match.line - 1];
+      const start = match.column - 1;
+      const end = start + match.value.length;
+      const covered = patternMatches.some((range) =>
+        range.line === match.line && range.start < end && start < range.end
+      );
+      if (covered || this.isAllowed(lines, match.line - 1)) continue;
+
+      findings.push({
+        file,
+        line: match.line,
+        column: match.column,
+        type: `High Entropy String (${match.alphabet})`,
+        pattern: `entropy-${match.alphabet}`,
+        severity: match.confidence >= 0.75 ? 'medium' : 'low',
+        context: this.truncateContext(line, match.value),
+        recommendation: 'Check whether this value is a secret; if so, move it to an environment variable or secret management',
+        confidence: match.confidence,
+        fingerprint: this.fingerprint(file, `entropy-${match.alphabet}`, match.value),
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * A line is allowed when it carries the marker itself or follows a comment
+   * line that does
+   */
+  private isAllowed(lines: string[], lineIndex: number): boolean {
+    if (lines[lineIndex].includes(ALLOW_SECRET_MARKER)) {
+      return true;
+    }
+
+    const previous = lines[lineIndex - 1];
+    return previous !== undefined && COMMENT_LINE.test(previous) && previous.includes(ALLOW_SECRET_MARKER);
+  }
+
+  /**
+   * Identify a finding by its project-relative file, pattern and a hash of
+   * the matched text, so it survives edits elsewhere in the file. The secret
+   * itself never leaves the scanner.
+   */
+  private fingerprint(file: string, patternId: string, matchedText: string): string {
+    const relative = file
+      ? path.relative(this.rootPath, path.resolve(file)).split(path.sep).join('/')
+      : '';
+    const matchHash = createHash('sha256').update(matchedText).digest('hex');
+    return createHash('sha256').update(`${relative}\0${patternId}\0${matchHash}`).digest('hex');
+  }
+
   private truncateContext(line: string, secret: string): string {
     const maxLength = 80;
     const replacement = '****';
@@ -90,24 +301,6 @@ export class SecretScanner
   }
 
   calculateEntropy(value: string): number {
-    if (value.length === 0) return 0;
-
-    const frequencies = new Map<string, number>();
-
-    // Count character frequencies
-    for (const char of value) {
-      frequencies.set(char, (frequencies.get(char) || 0) + 1);
-    }
-
-    // Calculate Shannon entropy
-    let entropy = 0;
-    const length = value.length;
-
-    for (const count of frequencies.values()) {
-      const probability = count / length;
-      entropy -= probability * Math.log2(probability);
-    }
-
-    return entropy;
+    return this.entropyDetector.entropy(value);
   }
 }
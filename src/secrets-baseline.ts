@@ -0,0 +1,117 @@
+/**
+ * Secrets Baseline
+ * Records fingerprints of accepted secret findings so later scans only
+ * report new ones
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { summarizeFindings } from './secret-scanner.js';
+import type { SecretFinding, SecretScanResult } from './types.js';
+
+export const SECRETS_BASELINE_FILE = path.join('.devibe', 'secrets-baseline.json');
+
+export interface SecretsBaselineEntry {
+  fingerprint: string;
+  file: string;      // Relative to the project root, forward slashes
+  line: number;      // Informational only; matching uses the fingerprint
+  pattern: string;
+  type: string;
+}
+
+export interface SecretsBaselineFile {
+  version: 1;
+  findings: SecretsBaselineEntry[];
+}
+
+export class SecretsBaseline {
+  private fingerprints: Set<string>;
+
+  constructor(private entries: SecretsBaselineEntry[] = []) {
+    this.fingerprints = new Set(entries.map((entry) => entry.fingerprint));
+  }
+
+  static filePath(projectPath: string): string {
+    return path.join(projectPath, SECRETS_BASELINE_FILE);
+  }
+
+  /**
+   * Load a project's baseline. A missing file is an empty baseline; a
+   * malformed one is an error rather than silently reporting everything.
+   */
+  static async load(projectPath: string): Promise<SecretsBaseline> {
+    const filePath = SecretsBaseline.filePath(projectPath);
+
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return new SecretsBaseline();
+    }
+
+    let data: SecretsBaselineFile;
+    try {
+      data = JSON.parse(content);
+    } catch (error: any) {
+      throw new Error(`Invalid secrets baseline ${SECRETS_BASELINE_FILE}: ${error.message}`);
+    }
+
+    if (!data || !Array.isArray(data.findings)) {
+      throw new Error(`Invalid secrets baseline ${SECRETS_BASELINE_FILE}: missing "findings" array`);
+    }
+
+    return new SecretsBaseline(data.findings);
+  }
+
+  /**
+   * Replace the project's baseline with the given findings
+   */
+  static async save(projectPath: string, findings: SecretFinding[]): Promise<SecretsBaseline> {
+    const entries = new Map<string, SecretsBaselineEntry>();
+    for (const finding of findings) {
+      if (entries.has(finding.fingerprint)) continue;
+      entries.set(finding.fingerprint, {
+        fingerprint: finding.fingerprint,
+        file: path.relative(projectPath, path.resolve(finding.file)).split(path.sep).join('/'),
+        line: finding.line,
+        pattern: finding.pattern,
+        type: finding.type,
+      });
+    }
+
+    // Sorted so the committed file diffs cleanly between updates
+    const sorted = Array.from(entries.values()).sort((a, b) =>
+      a.file.localeCompare(b.file) || a.line - b.line || a.pattern.localeCompare(b.pattern)
+    );
+
+    const filePath = SecretsBaseline.filePath(projectPath);
+    const data: SecretsBaselineFile = { version: 1, findings: sorted };
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(data, null, 2) + '\n');
+
+    return new SecretsBaseline(sorted);
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  has(finding: SecretFinding): boolean {
+    return this.fingerprints.has(finding.fingerprint);
+  }
+
+  /**
+   * Drop baselined findings from a scan result, leaving only new ones
+   */
+  apply(result: SecretScanResult): SecretScanResult {
+    const findings = result.findings.filter((finding) => !this.has(finding));
+
+    return {
+      ...result,
+      secretsFound: findings.length,
+      findings,
+      summary: summarizeFindings(findings),
+      baselined: result.findings.length - findings.length,
+    };
+  }
+}
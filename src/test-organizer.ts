@@ -9,6 +9,7 @@ import {
   ICanOrganizeTests,
 } from './types.js';
 import { UnVibeConfig } from './config.js';
+import { matchesGlob } from './glob-matcher.js';
 
 export class TestOrganizer implements ICanOrganizeTests {
   constructor(private config: TestOrganizationConfig) {}
@@ -32,12 +33,20 @@ export class TestOrganizer implements ICanOrganizeTests {
       tech.testPatterns.forEach(pattern => allPatterns.add(pattern));
     });
 
-    // Search for test files using all patterns
+    const ignore = [
+      'node_modules/**', '.git/**', 'dist/**', 'build/**', 'coverage/**',
+      ...(this.config.ignorePatterns ?? []),
+    ];
+
+    // Search for test files using all patterns (negated patterns only
+    // narrow categories, they don't find files)
     for (const pattern of allPatterns) {
+      if (pattern.startsWith('!')) continue;
+
       const matches = await glob(pattern, {
         cwd: rootPath,
         absolute: false,
-        ignore: ['node_modules/**', '.git/**', 'dist/**', 'build/**', 'coverage/**'],
+        ignore,
         nodir: true,
       });
 
@@ -63,8 +72,18 @@ export class TestOrganizer implements ICanOrganizeTests {
     });
 
     for (const rule of sortedRules) {
+      const excluded = rule.patterns
+        .filter(pattern => pattern.startsWith('!'))
+        .some(pattern => matchesGlob(relativePath, pattern.slice(1)));
+      if (excluded) continue;
+
       for (const pattern of rule.patterns) {
-        if (this.matchesPattern(fileName, pattern) || this.matchesPattern(relativePath, pattern)) {
+        if (pattern.startsWith('!')) continue;
+        if (
+          this.matchesPattern(fileName, pattern) ||
+          this.matchesPattern(relativePath, pattern) ||
+          matchesGlob(relativePath, pattern)
+        ) {
           return rule.category;
         }
       }
@@ -39,6 +39,9 @@ export interface SecretFinding {
   context: string;
   recommendation: string;
   confidence: number;
+  fingerprint: string;  // Stable across line moves: file, pattern and a hash of the match
+  commit?: string;      // SHA of the commit that added the secret (history scans)
+  author?: string;      // "Name <email>" of that commit's author
 }
 
 export interface SecretScanResult {
@@ -52,6 +55,7 @@ export interface SecretScanResult {
     medium: number;
     low: number;
   };
+  baselined?: number;  // Known findings hidden by the secrets baseline
 }
 
 export interface SecretPattern {
@@ -63,6 +67,36 @@ export interface SecretPattern {
   recommendation: string;
 }
 
+/**
+ * Secret pattern as written in config files and rule packs (regex as a string)
+ */
+export interface SecretPatternDefinition {
+  id: string;
+  name: string;
+  pattern: string;
+  severity: SecretSeverity;
+  recommendation?: string;
+  category?: string;
+}
+
+/**
+ * Tuning for the entropy stage, which flags random-looking tokens that no
+ * pattern matches. Thresholds are Shannon entropy in bits per character.
+ */
+export interface EntropyOptions {
+  enabled: boolean;
+  hexThreshold: number;     // Out of a maximum of 4.0
+  base64Threshold: number;  // Out of a maximum of 6.0
+  minLength: number;
+}
+
+export interface SecretScannerOptions {
+  customPatterns?: SecretPatternDefinition[];  // Override built-ins with the same id
+  excludePatterns?: string[];                  // Globs relative to rootPath
+  rootPath?: string;
+  entropy?: Partial<EntropyOptions>;
+}
+
 export interface ICanScanForSecrets {
   scanFiles(files: string[]): Promise<SecretScanResult>;
 }
@@ -83,8 +117,10 @@ export interface BackupEntry {
   timestamp: Date;
   operation: 'move' | 'delete' | 'modify';
   sourcePath: string;
-  targetPath?: string;
-  content?: string;
+  targetPath?: string;   // Where a move put the file
+  content?: string;      // Legacy: inlined content, before the object store
+  contentHash?: string;  // sha256 of the bytes; key of the blob in backups/objects
+  resultHash?: string;   // modify: sha256 of the content the file was rewritten to
   metadata: {
     size: number;
     mode: number;
@@ -95,16 +131,58 @@ export interface BackupManifest {
   id: string;
   timestamp: Date;
   operations: BackupEntry[];
+  createdDirectories?: string[];  // Directories the operations created, parents first
   reversible: boolean;
 }
 
+export interface RestoreOptions {
+  force?: boolean;      // Overwrite or remove paths that changed since the backup
+  entryIds?: string[];  // Restore only these entries (default: all of them)
+}
+
+export interface RestoreConflict {
+  path: string;
+  reason: string;
+}
+
+export interface RestoreResult {
+  restored: string[];             // Files written back to their original path
+  removed: string[];              // Moved copies removed from their target path
+  removedDirectories: string[];   // Created directories removed because they were empty
+  conflicts: RestoreConflict[];   // Only non-empty when forced
+}
+
+export interface PruneOptions {
+  olderThanDays?: number;  // Remove backups older than this many days
+  keep?: number;           // Keep only the newest N backups
+  dryRun?: boolean;        // Report what would be removed without deleting anything
+  preserve?: string[];     // Manifest ids never removed, counted first against keep
+}
+
+export interface PruneResult {
+  removed: BackupManifest[];  // Manifests removed (or that would be, in a dry run)
+  kept: number;               // Manifests left in place
+  objectsRemoved: number;     // Stored contents no remaining manifest refers to
+  bytesFreed: number;
+}
+
+export interface BackupStorageStats {
+  backups: number;
+  objects: number;
+  bytes: number;  // On disk, after deduplication and compression
+}
+
 export interface ICanBackupFiles {
-  backupFile(filePath: string, operation: 'move' | 'delete' | 'modify'): Promise<BackupEntry>;
-  createManifest(operations: BackupEntry[]): Promise<BackupManifest>;
+  backupFile(
+    filePath: string,
+    operation: 'move' | 'delete' | 'modify',
+    targetPath?: string
+  ): Promise<BackupEntry>;
+  createManifest(operations: BackupEntry[], createdDirectories?: string[]): Promise<BackupManifest>;
 }
 
 export interface ICanRestoreFiles {
-  restore(manifestId: string): Promise<void>;
+  restore(manifestId: string, options?: RestoreOptions): Promise<RestoreResult>;
   listBackups(): Promise<BackupManifest[]>;
 }
 
@@ -162,10 +240,24 @@ export interface ICanSuggestFileLocations {
 }
 
 // Usage Detection Types
+export type UsageReferenceKind =
+  | 'import'          // Relative import, export ... from, or import()
+  | 'require'
+  | 'tsconfig-path'   // Bare specifier resolved through tsconfig paths or baseUrl
+  | 'package-main'    // package.json main, module, types or browser
+  | 'package-bin'
+  | 'package-script'  // A path in a package.json script
+  | 'dockerfile'      // COPY or ADD source
+  | 'ci-workflow'     // A path in a .github/workflows file
+  | 'path'            // Any other string that resolves to the file
+  | 'mention';        // The file name appears, but not as a path that resolves to it
+
 export interface UsageReference {
   file: string;
   line: number;
   context: string;
+  kind: UsageReferenceKind;
+  confidence: number;  // 0-1; references below 0.5 do not make a file count as used
 }
 
 export interface UsageDetectionResult {
@@ -202,6 +294,7 @@ export interface FileOperation {
   reason: string;
   warning?: string;  // Warning if file still referenced
   isReferenced?: boolean;  // True if file is still being used
+  classification?: Pick<FileClassification, 'category' | 'confidence' | 'reasoning'>;  // Classifier output behind the operation
 }
 
 export interface OperationPlan {
@@ -220,7 +313,35 @@ export interface ICanPlanOperations {
 }
 
 export interface ICanExecuteOperations {
-  execute(plan: OperationPlan, dryRun: boolean): Promise<ExecutionResult>;
+  execute(plan: OperationPlan, dryRun: boolean, options?: ExecutionOptions): Promise<ExecutionResult>;
+}
+
+export interface ExecutionOptions {
+  // All or nothing: check every operation before starting, and undo the
+  // completed ones if any operation fails
+  atomic?: boolean;
+  // With atomic, moves must also be allowed by GitDetector.canMoveFile
+  repositories?: GitRepository[];
+  // Project root whose imports, markdown links and package.json scripts are
+  // updated to follow the moves
+  rewriteReferencesIn?: string;
+  // Move and delete tracked files with git mv and git rm
+  git?: GitExecutionOptions;
+}
+
+export interface GitExecutionOptions {
+  repositories: GitRepository[];
+  commit?: boolean;  // Stage what the run changed and commit it, once per repository
+}
+
+export interface GitCommitResult {
+  repository: string;
+  sha: string;
+  message: string;
+}
+
+export interface RollbackResult extends RestoreResult {
+  operations: FileOperation[];  // Completed operations that were undone
 }
 
 export interface ExecutionResult {
@@ -229,6 +350,9 @@ export interface ExecutionResult {
   operationsFailed: number;
   errors: string[];
   backupManifestId?: string;
+  rollback?: RollbackResult;  // Set when an atomic execution was rolled back
+  referencesUpdated?: string[];  // Files whose references to moved files were rewritten
+  commits?: GitCommitResult[];   // Commits made with git.commit
 }
 
 // Test Organization Types
@@ -256,6 +380,7 @@ export interface TestOrganizationConfig {
   globalRules: TestOrganizationRule[];
   preserveStructure: boolean;
   groupByTechnology: boolean;
+  ignorePatterns?: string[];
 }
 
 export interface ICanOrganizeTests {
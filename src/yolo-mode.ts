@@ -1,5 +1,6 @@
 import { GitDetector } from './git-detector.js';
 import { SecretScanner } from './secret-scanner.js';
+import { SecretsBaseline } from './secrets-baseline.js';
 import { FileClassifier } from './file-classifier.js';
 import { OperationPlanner, OperationExecutor } from './operation-executor.js';
 import { BackupManager } from './backup-manager.js';
@@ -49,9 +50,10 @@ export class YoloMode {
       }
 
       // Step 1: Secret Scan
-      const scanner = new SecretScanner();
+      const scanner = await SecretScanner.forProject(repoPath);
       const files = await this.findSourceFiles(repoPath);
-      const scanResult = await scanner.scanFiles(files);
+      const baseline = await SecretsBaseline.load(repoPath);
+      const scanResult = baseline.apply(await scanner.scanFiles(files));
 
       result.steps.secretScan = {
         found: scanResult.secretsFound,
@@ -81,9 +83,7 @@ export class YoloMode {
 
       // Step 3: Execute operations
       if (plan.operations.length > 0) {
-        const backupManager = new BackupManager(
-          path.join(repoPath, '.unvibe', 'backups')
-        );
+        const backupManager = await BackupManager.forProject(repoPath);
         const executor = new OperationExecutor(backupManager);
 
         const execResult = await executor.execute(plan, false);
@@ -102,9 +102,7 @@ export class YoloMode {
       result.steps.folderEnforcement.operations = enforcePlan.operations.length;
 
       if (enforcePlan.operations.length > 0) {
-        const backupManager = new BackupManager(
-          path.join(repoPath, '.unvibe', 'backups')
-        );
+        const backupManager = await BackupManager.forProject(repoPath);
         const executor = new OperationExecutor(backupManager);
         await executor.execute(enforcePlan, false);
       }
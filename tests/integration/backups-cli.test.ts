@@ -0,0 +1,62 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { BackupManager } from '../../src/backup-manager.js';
+import { execFileSync } from 'child_process';
+import { createRequire } from 'module';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+const CLI = path.resolve('src/cli.ts');
+const TSX = createRequire(import.meta.url).resolve('tsx/cli');
+
+describe('devibe backups', () => {
+  let repoDir: string;
+  let cwdDir: string;
+
+  function devibe(...args: string[]): string {
+    return execFileSync(process.execPath, [TSX, CLI, ...args], {
+      cwd: cwdDir,
+      encoding: 'utf-8',
+      env: { ...process.env, HOME: cwdDir },
+    });
+  }
+
+  async function backup(projectPath: string): Promise<string> {
+    const filePath = path.join(projectPath, 'notes.txt');
+    await fs.writeFile(filePath, `notes of ${path.basename(projectPath)}`);
+    const manager = await BackupManager.forProject(projectPath);
+    return (await manager.createManifest([await manager.backupFile(filePath, 'delete')])).id;
+  }
+
+  beforeEach(async () => {
+    repoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-backups-cli-repo-'));
+    cwdDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-backups-cli-cwd-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(repoDir, { recursive: true, force: true });
+    await fs.rm(cwdDir, { recursive: true, force: true });
+  });
+
+  test('should prune the backups of the repository given with -p, not of the current directory', async () => {
+    // Arrange
+    const repoBackup = await backup(repoDir);
+    const cwdBackup = await backup(cwdDir);
+
+    // Act
+    const listed = devibe('backups', '-p', repoDir);
+    const dryRun = devibe('backups', 'prune', '-p', repoDir, '--keep', '0', '--dry-run');
+    const afterDryRun = await (await BackupManager.forProject(repoDir)).listBackups();
+    const pruned = devibe('backups', 'prune', '-p', repoDir, '--keep', '0');
+
+    // Assert
+    expect(listed).toContain(repoBackup);
+    expect(listed).not.toContain(cwdBackup);
+    expect(dryRun).toContain('Would remove 1 backup(s)');
+    expect(afterDryRun.map((m) => m.id)).toEqual([repoBackup]);
+    expect(pruned).toContain(`Removed 1 backup(s)`);
+    expect(pruned).toContain(repoBackup);
+    expect(await (await BackupManager.forProject(repoDir)).listBackups()).toEqual([]);
+    expect((await (await BackupManager.forProject(cwdDir)).listBackups()).map((m) => m.id)).toEqual([cwdBackup]);
+  }, 60000);
+});
@@ -0,0 +1,101 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { OperationExecutor } from '../../src/operation-executor.js';
+import { BackupManager } from '../../src/backup-manager.js';
+import { GitDetector } from '../../src/git-detector.js';
+import type { GitExecutionOptions } from '../../src/types.js';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Git-aware execution', () => {
+  let repoDir: string;
+  let executor: OperationExecutor;
+  let gitOptions: GitExecutionOptions;
+
+  function git(...args: string[]): string {
+    return execFileSync('git', args, { cwd: repoDir, encoding: 'utf-8' }).trim();
+  }
+
+  beforeEach(async () => {
+    repoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-git-moves-test-'));
+    git('init', '-q');
+    git('config', 'user.name', 'Ada Lovelace');
+    git('config', 'user.email', 'ada@example.com');
+    await fs.writeFile(path.join(repoDir, '.gitignore'), '.unvibe/\n');
+    await fs.writeFile(path.join(repoDir, 'NOTES.md'), '# Notes\n');
+    await fs.writeFile(path.join(repoDir, 'debug.log'), 'tracked log\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'initial');
+    await fs.writeFile(path.join(repoDir, 'scratch.md'), 'untracked\n');
+
+    executor = new OperationExecutor(new BackupManager(path.join(repoDir, '.unvibe/backups')));
+    gitOptions = { repositories: (await new GitDetector().detectRepositories(repoDir)).repositories };
+  });
+
+  afterEach(async () => {
+    await fs.rm(repoDir, { recursive: true, force: true });
+  });
+
+  const plan = () => ({
+    operations: [
+      {
+        type: 'move' as const,
+        sourcePath: path.join(repoDir, 'NOTES.md'),
+        targetPath: path.join(repoDir, 'documents', 'NOTES.md'),
+        reason: 'Markdown documentation file',
+      },
+      {
+        type: 'move' as const,
+        sourcePath: path.join(repoDir, 'scratch.md'),
+        targetPath: path.join(repoDir, 'documents', 'scratch.md'),
+        reason: 'Markdown documentation file',
+      },
+      { type: 'delete' as const, sourcePath: path.join(repoDir, 'debug.log'), reason: 'Log file' },
+    ],
+    backupRequired: true,
+    estimatedDuration: 150,
+  });
+
+  test('should use git mv and git rm for tracked files only', async () => {
+    // Act
+    const result = await executor.execute(plan(), false, { git: gitOptions });
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(git('status', '--porcelain').split('\n')).toEqual([
+      'D  debug.log',
+      'R  NOTES.md -> documents/NOTES.md',
+      '?? documents/scratch.md',
+    ]);
+  });
+
+  test('should commit the run with a message listing what it did', async () => {
+    // Act
+    const result = await executor.execute(plan(), false, { git: { ...gitOptions, commit: true } });
+
+    // Assert
+    expect(result.commits).toHaveLength(1);
+    expect(result.commits![0].sha).toBe(git('rev-parse', 'HEAD'));
+    expect(git('log', '-1', '--format=%B')).toBe(
+      'Reorganize files: move 1 file, delete 1 file\n\n' +
+      '- Move NOTES.md to documents/NOTES.md\n' +
+      '- Delete debug.log'
+    );
+    expect(git('status', '--porcelain')).toBe('?? documents/scratch.md');
+  });
+
+  test('should refuse to commit over changes staged before the run', async () => {
+    // Arrange
+    await fs.writeFile(path.join(repoDir, 'NOTES.md'), '# Edited\n');
+    git('add', 'NOTES.md');
+
+    // Act
+    const result = await executor.execute(plan(), false, { git: { ...gitOptions, commit: true } });
+
+    // Assert
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain('has staged changes');
+    expect(await fs.readFile(path.join(repoDir, 'NOTES.md'), 'utf-8')).toBe('# Edited\n');
+  });
+});
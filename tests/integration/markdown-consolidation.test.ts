@@ -33,6 +33,7 @@ describe('Markdown Consolidation - Integration', () => {
 
   const createMockAIProvider = (): AIProvider => ({
     name: 'mock',
+    modelId: 'mock-model',
     classify: vi.fn(),
     classifyBatch: vi.fn(),
     suggestRepository: vi.fn().mockResolvedValue({
@@ -0,0 +1,104 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { validateBatchResults } from '../../src/ai-response-validator.js';
+import { OpenAIClassifier } from '../../src/ai-classifier.js';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+const repositories = [
+  { name: 'monorepo', path: '/repo', isRoot: true },
+  { name: 'ios', path: '/repo/ios', isRoot: false },
+];
+
+function fileInfo(fileName: string) {
+  return { fileName, filePath: `/repo/${fileName}`, contentPreview: '' };
+}
+
+describe('validateBatchResults', () => {
+  test('should keep valid entries and reject invented categories, repositories and missing files', () => {
+    // Arrange
+    const files = ['a.md', 'b.sh', 'c.ts', 'd.json', 'e.swift'].map(fileInfo);
+    const answer = {
+      classifications: [
+        { fileName: 'a.md', category: 'documentation', confidence: 0.9, reasoning: 'docs', suggestedRepo: 'root' },
+        { fileName: 'b.sh', category: 'shell-script', confidence: 0.9, reasoning: 'bash', suggestedRepo: 'root' },
+        { fileName: 'c.ts', category: 'source', confidence: 1.4, reasoning: 'code', suggestedRepo: 'monorepo' },
+        { fileName: 'e.swift', category: 'source', confidence: 0.8, reasoning: 'Swift', suggestedRepo: 'android' },
+        { fileName: 'z.md', category: 'documentation', confidence: 0.9, reasoning: 'never sent', suggestedRepo: 'root' },
+      ],
+    };
+
+    // Act
+    const validation = validateBatchResults(answer, files, repositories);
+
+    // Assert
+    expect(validation.valid.map((r) => r.fileName)).toEqual(['a.md']);
+    expect(validation.rejected).toEqual([
+      { fileName: 'b.sh', reason: 'unknown category "shell-script"' },
+      { fileName: 'c.ts', reason: 'confidence 1.4 is not between 0 and 1' },
+      { fileName: 'd.json', reason: 'missing from the response' },
+      { fileName: 'e.swift', reason: 'unknown repository "android"' },
+    ]);
+  });
+});
+
+describe('batch classification re-asking', () => {
+  let server: http.Server;
+  let apiUrl: string;
+  let prompts: string[];
+  let answers: unknown[];
+
+  beforeEach(async () => {
+    prompts = [];
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        prompts.push(JSON.parse(raw).messages[1].content);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ choices: [{ message: { content: JSON.stringify(answers.shift()) } }] }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/chat/completions`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('should re-ask for only the rejected files and report what stays invalid', async () => {
+    // Arrange
+    const classifier = new OpenAIClassifier('sk-test', 'gpt-4o-mini', apiUrl);
+    const files = ['Podfile', 'setup.md', 'deploy.sh'].map(fileInfo);
+    const stillWrong = { fileName: 'deploy.sh', category: 'scripts', confidence: 0.7, reasoning: 'deploys', suggestedRepo: 'root' };
+    answers = [
+      {
+        classifications: [
+          { fileName: 'Podfile', category: 'config', confidence: 0.9, reasoning: 'CocoaPods', suggestedRepo: 'ios' },
+          { fileName: 'setup.md', category: 'docs', confidence: 0.8, reasoning: 'setup guide', suggestedRepo: 'root' },
+        ],
+      },
+      {
+        classifications: [
+          { fileName: 'setup.md', category: 'documentation', confidence: 0.8, reasoning: 'setup guide', suggestedRepo: 'root' },
+          stillWrong,
+        ],
+      },
+      { classifications: [stillWrong] },
+    ];
+
+    // Act
+    const outcome = await classifier.classifyBatch(files, repositories);
+
+    // Assert
+    expect(outcome.results.map((r) => [r.fileName, r.category])).toEqual([
+      ['Podfile', 'config'],
+      ['setup.md', 'documentation'],
+    ]);
+    expect(outcome.rejected).toEqual([{ fileName: 'deploy.sh', reason: 'unknown category "scripts"' }]);
+    expect(outcome.requests).toBe(3);
+    expect(prompts[1]).not.toContain('FILE 1: Podfile');
+    expect(prompts[1]).toContain('- setup.md: unknown category "docs"');
+    expect(prompts[1]).toContain('- deploy.sh: missing from the response');
+  });
+});
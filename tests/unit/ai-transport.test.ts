@@ -0,0 +1,103 @@
+import { describe, test, expect } from 'vitest';
+import { AITransport } from '../../src/ai-transport.js';
+
+function reply(status: number, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({ status }), { status, headers });
+}
+
+// A fetch that never answers, but rejects like fetch does when aborted
+function hanging(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  return new Promise((_, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+  });
+}
+
+describe('AITransport', () => {
+  test('should retry rate limits and overloads, honoring retry-after', async () => {
+    // Arrange
+    const replies = [reply(429, { 'retry-after': '0.05' }), reply(529), reply(200)];
+    const calls: number[] = [];
+    const transport = new AITransport({
+      baseDelayMs: 1,
+      random: () => 1,
+      fetch: async () => {
+        calls.push(Date.now());
+        return replies.shift()!;
+      },
+    });
+
+    // Act
+    const response = await transport.request('http://ai.test/v1', { method: 'POST', body: '{}' });
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(calls).toHaveLength(3);
+    expect(calls[1] - calls[0]).toBeGreaterThanOrEqual(45);
+  });
+
+  test('should return non-retryable errors and the last response once retries run out', async () => {
+    // Arrange
+    let calls = 0;
+    const unauthorized = new AITransport({ baseDelayMs: 1, fetch: async () => (calls++, reply(401)) });
+    const overloaded = new AITransport({ maxRetries: 2, baseDelayMs: 1, fetch: async () => (calls++, reply(503)) });
+
+    // Act
+    const first = await unauthorized.request('http://ai.test/v1', {});
+    const second = await overloaded.request('http://ai.test/v1', {});
+
+    // Assert
+    expect(first.status).toBe(401);
+    expect(second.status).toBe(503);
+    expect(calls).toBe(1 + 3);
+  });
+
+  test('should keep no more requests in flight than the concurrency limit', async () => {
+    // Arrange
+    let inFlight = 0;
+    let peak = 0;
+    const transport = new AITransport({
+      maxConcurrency: 2,
+      fetch: async () => {
+        peak = Math.max(peak, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        inFlight--;
+        return reply(200);
+      },
+    });
+
+    // Act
+    const responses = await Promise.all(
+      Array.from({ length: 5 }, () => transport.request('http://ai.test/v1', {}))
+    );
+
+    // Assert
+    expect(responses.every((r) => r.ok)).toBe(true);
+    expect(peak).toBe(2);
+  });
+
+  test('should time out attempts and stop when cancelled', async () => {
+    // Arrange
+    const timingOut = new AITransport({ maxRetries: 1, baseDelayMs: 1, timeoutMs: 20, fetch: hanging });
+    let calls = 0;
+    const cancellable = new AITransport({
+      maxConcurrency: 1,
+      fetch: (input, init) => (calls++, hanging(input, init)),
+    });
+    const controller = new AbortController();
+
+    // Act
+    const results = Promise.allSettled([
+      timingOut.request('http://ai.test/v1', {}),
+      cancellable.request('http://ai.test/v1', {}, controller.signal),
+      cancellable.request('http://ai.test/v1', {}, controller.signal),
+    ]);
+    setTimeout(() => controller.abort(new Error('run cancelled')), 10);
+    const [timedOut, inFlight, queued] = await results;
+
+    // Assert
+    expect(timedOut).toMatchObject({ status: 'rejected', reason: { message: 'request timed out after 20ms' } });
+    expect(inFlight).toMatchObject({ status: 'rejected', reason: { message: 'run cancelled' } });
+    expect(queued).toMatchObject({ status: 'rejected', reason: { message: 'run cancelled' } });
+    expect(calls).toBe(1);
+  });
+});
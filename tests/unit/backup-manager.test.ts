@@ -1,9 +1,14 @@
 import { describe, test, expect, beforeEach, afterEach } from 'vitest';
 import { BackupManager } from '../../src/backup-manager.js';
+import { createHash } from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
 
+function sha256(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
 describe('BackupManager', () => {
   let testDir: string;
   let backupDir: string;
@@ -31,7 +36,8 @@ describe('BackupManager', () => {
       // Assert
       expect(entry.operation).toBe('delete');
       expect(entry.sourcePath).toBe(filePath);
-      expect(entry.content).toBe('test content');
+      expect(entry.contentHash).toBe(sha256('test content'));
+      expect(entry.content).toBeUndefined();
       expect(entry.id).toBeDefined();
       expect(entry.metadata.size).toBeGreaterThan(0);
     });
@@ -47,7 +53,7 @@ describe('BackupManager', () => {
       // Assert
       expect(entry.operation).toBe('move');
       expect(entry.sourcePath).toBe(filePath);
-      expect(entry.content).toBe('moving');
+      expect(entry.contentHash).toBe(sha256('moving'));
     });
 
     test('should store backup on disk', async () => {
@@ -59,10 +65,29 @@ describe('BackupManager', () => {
       const entry = await manager.backupFile(filePath, 'delete');
 
       // Assert
-      const backupPath = path.join(backupDir, entry.id);
+      const hash = entry.contentHash!;
+      const backupPath = path.join(backupDir, 'objects', hash.slice(0, 2), hash.slice(2));
       const backupExists = await fs.access(backupPath).then(() => true).catch(() => false);
       expect(backupExists).toBe(true);
     });
+
+    test('should store identical content once across backups', async () => {
+      // Arrange
+      const file1 = path.join(testDir, 'a.txt');
+      const file2 = path.join(testDir, 'b.txt');
+      await fs.writeFile(file1, 'same');
+      await fs.writeFile(file2, 'same');
+
+      // Act
+      const entry1 = await manager.backupFile(file1, 'delete');
+      const entry2 = await new BackupManager(backupDir).backupFile(file2, 'delete');
+
+      // Assert
+      expect(entry1.contentHash).toBe(entry2.contentHash);
+      const objectDirs = await fs.readdir(path.join(backupDir, 'objects'));
+      expect(objectDirs).toHaveLength(1);
+      expect(await fs.readdir(path.join(backupDir, 'objects', objectDirs[0]))).toHaveLength(1);
+    });
   });
 
   describe('createManifest', () => {
@@ -143,12 +168,217 @@ describe('BackupManager', () => {
       expect(restored2).toBe('content2');
     });
 
+    test('should undo a move by removing the moved copy', async () => {
+      // Arrange
+      const source = path.join(testDir, 'notes.md');
+      const target = path.join(testDir, 'documents', 'notes.md');
+      await fs.writeFile(source, 'notes');
+      const entry = await manager.backupFile(source, 'move', target);
+      await fs.mkdir(path.dirname(target));
+      await fs.rename(source, target);
+      const manifest = await manager.createManifest([entry], [path.dirname(target)]);
+
+      // Act
+      const result = await manager.restore(manifest.id);
+
+      // Assert
+      expect(await fs.readFile(source, 'utf-8')).toBe('notes');
+      await expect(fs.access(path.dirname(target))).rejects.toThrow();
+      expect(result.removed).toEqual([target]);
+      expect(result.removedDirectories).toEqual([path.dirname(target)]);
+    });
+
+    test('should keep created directories that hold other files', async () => {
+      // Arrange
+      const source = path.join(testDir, 'notes.md');
+      const target = path.join(testDir, 'documents', 'notes.md');
+      await fs.writeFile(source, 'notes');
+      const entry = await manager.backupFile(source, 'move', target);
+      await fs.mkdir(path.dirname(target));
+      await fs.rename(source, target);
+      await fs.writeFile(path.join(testDir, 'documents', 'new.md'), 'written later');
+      const manifest = await manager.createManifest([entry], [path.dirname(target)]);
+
+      // Act
+      const result = await manager.restore(manifest.id);
+
+      // Assert
+      expect(result.removedDirectories).toEqual([]);
+      expect(await fs.readFile(path.join(testDir, 'documents', 'new.md'), 'utf-8')).toBe('written later');
+    });
+
+    test('should abort without changes when a moved file was edited', async () => {
+      // Arrange
+      const source = path.join(testDir, 'notes.md');
+      const target = path.join(testDir, 'documents', 'notes.md');
+      await fs.writeFile(source, 'notes');
+      const entry = await manager.backupFile(source, 'move', target);
+      await fs.mkdir(path.dirname(target));
+      await fs.rename(source, target);
+      await fs.writeFile(target, 'edited after the move');
+      const manifest = await manager.createManifest([entry]);
+
+      // Act & Assert
+      await expect(manager.restore(manifest.id)).rejects.toThrow(
+        `Restore aborted: 1 path(s) changed since the backup:\n  - ${target}: modified after it was moved`
+      );
+      expect(await fs.readFile(target, 'utf-8')).toBe('edited after the move');
+      await expect(fs.access(source)).rejects.toThrow();
+
+      const forced = await manager.restore(manifest.id, { force: true });
+      expect(forced.conflicts).toHaveLength(1);
+      expect(await fs.readFile(source, 'utf-8')).toBe('notes');
+    });
+
+    test('should restore binary files byte for byte', async () => {
+      // Arrange
+      const filePath = path.join(testDir, 'logo.png');
+      const bytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe, 0x80, 0x0d, 0x0a]);
+      await fs.writeFile(filePath, bytes);
+      const compressed = new BackupManager(backupDir, { compress: true });
+      const manifest = await compressed.createManifest([await compressed.backupFile(filePath, 'delete')]);
+      await fs.unlink(filePath);
+
+      // Act
+      await manager.restore(manifest.id);
+
+      // Assert
+      expect(Buffer.compare(await fs.readFile(filePath), bytes)).toBe(0);
+      const manifestContent = await fs.readFile(path.join(backupDir, `${manifest.id}.json`), 'utf-8');
+      expect(manifestContent).not.toContain('"content"');
+    });
+
+    test('should refuse to restore from a corrupt backup object', async () => {
+      // Arrange
+      const file1 = path.join(testDir, 'file1.txt');
+      const file2 = path.join(testDir, 'file2.txt');
+      await fs.writeFile(file1, 'content1');
+      await fs.writeFile(file2, 'content2');
+      const entry1 = await manager.backupFile(file1, 'delete');
+      const entry2 = await manager.backupFile(file2, 'delete');
+      const manifest = await manager.createManifest([entry1, entry2]);
+      await fs.unlink(file1);
+      await fs.unlink(file2);
+      const hash = entry1.contentHash!;
+      await fs.writeFile(path.join(backupDir, 'objects', hash.slice(0, 2), hash.slice(2)), 'tampered');
+
+      // Act & Assert
+      await expect(manager.restore(manifest.id)).rejects.toThrow(
+        `Backup object ${hash} is corrupt: content does not match its hash`
+      );
+      await expect(fs.access(file2)).rejects.toThrow();
+    });
+
+    test('should restore legacy backups stored by entry id', async () => {
+      // Arrange
+      const filePath = path.join(testDir, 'legacy.txt');
+      await fs.mkdir(backupDir, { recursive: true });
+      await fs.writeFile(path.join(backupDir, 'legacy-entry'), 'legacy content');
+      const manifest = await manager.createManifest([
+        {
+          id: 'legacy-entry',
+          timestamp: new Date(),
+          operation: 'delete',
+          sourcePath: filePath,
+          content: 'legacy content',
+          metadata: { size: 14, mode: 0o100644 },
+        },
+      ]);
+
+      // Act
+      await manager.restore(manifest.id);
+
+      // Assert
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('legacy content');
+    });
+
     test('should throw error for non-existent manifest', async () => {
       // Act & Assert
       await expect(manager.restore('nonexistent')).rejects.toThrow();
     });
   });
 
+  describe('prune', () => {
+    async function backupAged(name: string, content: string, daysOld: number): Promise<string> {
+      const filePath = path.join(testDir, name);
+      await fs.writeFile(filePath, content);
+      const manifest = await manager.createManifest([await manager.backupFile(filePath, 'delete')]);
+      manifest.timestamp = new Date(Date.now() - daysOld * 24 * 60 * 60 * 1000);
+      await manager.updateManifest(manifest);
+      return manifest.id;
+    }
+
+    test('should keep the newest backups and collect objects only pruned backups used', async () => {
+      // Arrange
+      const oldest = await backupAged('a.txt', 'shared', 3);
+      const middle = await backupAged('b.txt', 'only in middle', 2);
+      const newest = await backupAged('c.txt', 'shared', 1);
+
+      // Act
+      const result = await manager.prune({ keep: 1 });
+
+      // Assert
+      expect(result.removed.map((m) => m.id).sort()).toEqual([oldest, middle].sort());
+      expect(result.kept).toBe(1);
+      expect(result.objectsRemoved).toBe(1);
+      expect((await manager.listBackups()).map((m) => m.id)).toEqual([newest]);
+      await fs.unlink(path.join(testDir, 'c.txt'));
+      await manager.restore(newest);
+      expect(await fs.readFile(path.join(testDir, 'c.txt'), 'utf-8')).toBe('shared');
+    });
+
+    test('should remove backups older than the given age', async () => {
+      // Arrange
+      const old = await backupAged('a.txt', 'old', 45);
+      await backupAged('b.txt', 'recent', 5);
+
+      // Act
+      const result = await manager.prune({ olderThanDays: 30 });
+
+      // Assert
+      expect(result.removed.map((m) => m.id)).toEqual([old]);
+      expect(await manager.listBackups()).toHaveLength(1);
+    });
+
+    test('should change nothing in a dry run', async () => {
+      // Arrange
+      await backupAged('a.txt', 'one', 2);
+      await backupAged('b.txt', 'two', 1);
+      const before = await manager.getStorageStats();
+
+      // Act
+      const result = await manager.prune({ keep: 0, dryRun: true });
+
+      // Assert
+      expect(result.removed).toHaveLength(2);
+      expect(result.objectsRemoved).toBe(2);
+      expect(result.bytesFreed).toBe(before.bytes);
+      expect(await manager.getStorageStats()).toEqual(before);
+    });
+
+    test('should apply the configured retention when no limits are given', async () => {
+      // Arrange
+      manager = new BackupManager(backupDir, { retentionDays: 30, maxBackups: 2 });
+      await backupAged('a.txt', 'expired', 40);
+      await backupAged('b.txt', 'beyond max', 3);
+      await backupAged('c.txt', 'kept', 2);
+      await backupAged('d.txt', 'kept too', 1);
+
+      // Act
+      const result = await manager.prune();
+
+      // Assert
+      expect(result.removed).toHaveLength(2);
+      expect(result.kept).toBe(2);
+    });
+
+    test('should reject invalid limits', async () => {
+      // Act & Assert
+      await expect(manager.prune({ keep: -1 })).rejects.toThrow('Invalid backup count: -1');
+      await expect(manager.prune({ olderThanDays: NaN })).rejects.toThrow('Invalid backup age');
+    });
+  });
+
   describe('listBackups', () => {
     test('should list all backup manifests', async () => {
       // Arrange
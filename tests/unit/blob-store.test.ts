@@ -0,0 +1,54 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { BlobStore, hashBuffer } from '../../src/blob-store.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('BlobStore', () => {
+  let objectsDir: string;
+
+  beforeEach(async () => {
+    objectsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-blob-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(objectsDir, { recursive: true, force: true });
+  });
+
+  test('should store content under its SHA-256', async () => {
+    // Arrange
+    const store = new BlobStore(objectsDir);
+    const content = Buffer.from([0x00, 0x01, 0xff, 0x0a]);
+
+    // Act
+    const hash = await store.put(content);
+
+    // Assert
+    expect(hash).toBe(hashBuffer(content));
+    const stored = await fs.readFile(path.join(objectsDir, hash.slice(0, 2), hash.slice(2)));
+    expect(Buffer.compare(stored, content)).toBe(0);
+  });
+
+  test('should read blobs written with either compression setting', async () => {
+    // Arrange
+    const content = Buffer.from('x'.repeat(1000));
+    const hash = await new BlobStore(objectsDir, { compress: true }).put(content);
+
+    // Act
+    const read = await new BlobStore(objectsDir).get(hash);
+
+    // Assert
+    expect(await fs.readdir(path.join(objectsDir, hash.slice(0, 2)))).toEqual([`${hash.slice(2)}.gz`]);
+    expect(read.toString()).toBe(content.toString());
+  });
+
+  test('should reject missing objects and malformed hashes', async () => {
+    // Arrange
+    const store = new BlobStore(objectsDir);
+    const missing = hashBuffer(Buffer.from('never stored'));
+
+    // Act & Assert
+    await expect(store.get(missing)).rejects.toThrow(`Backup object ${missing} is missing`);
+    await expect(store.get('../../etc/passwd')).rejects.toThrow('Invalid backup object hash');
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ClassificationCache } from '../../src/classification-cache.js';
+import { IntelligentBatchProcessor } from '../../src/intelligent-batch-processor.js';
+import { FileClassifier } from '../../src/file-classifier.js';
+import { getKeyManager } from '../../src/ai-key-manager.js';
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+
+describe('ClassificationCache', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-classification-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should reuse a classification only for the same content and model', async () => {
+    // Arrange
+    const filePath = path.join(testDir, 'deploy.sh');
+    await fs.writeFile(filePath, 'kubectl apply -f k8s/');
+    const cache = await ClassificationCache.forProject(testDir);
+    cache.set({ path: filePath, category: 'script', confidence: 0.9, reasoning: 'deploys' }, 'kubectl apply -f k8s/', 'gpt-4o-mini');
+    await cache.save();
+
+    // Act
+    const reloaded = await ClassificationCache.forProject(testDir);
+
+    // Assert
+    expect(reloaded.get(filePath, 'kubectl apply -f k8s/', 'gpt-4o-mini')).toEqual({
+      path: filePath,
+      category: 'script',
+      confidence: 0.9,
+      reasoning: 'deploys',
+    });
+    expect(reloaded.get(filePath, 'kubectl delete -f k8s/', 'gpt-4o-mini')).toBeNull();
+    expect(reloaded.get(filePath, 'kubectl apply -f k8s/', 'claude-3-haiku-20240307')).toBeNull();
+    expect(reloaded.get(path.join(testDir, 'deploy.md'), 'kubectl apply -f k8s/', 'gpt-4o-mini')).toBeNull();
+    expect(await reloaded.countUnchanged()).toEqual(new Map([['gpt-4o-mini', 1]]));
+
+    await fs.writeFile(filePath, 'helm upgrade --install app ./chart');
+    expect(await reloaded.countUnchanged()).toEqual(new Map());
+  });
+
+  test('should drop entries from an older prompt version and clear only the classifications', async () => {
+    // Arrange
+    const cacheDir = path.join(testDir, '.devibe', 'cache');
+    await fs.mkdir(cacheDir, { recursive: true });
+    await fs.writeFile(path.join(cacheDir, 'conventions.json'), '{}');
+    await fs.writeFile(
+      path.join(cacheDir, 'classifications.json'),
+      JSON.stringify({ promptVersion: 0, entries: { 'gpt-4o-mini:abc': { path: 'a.md', modelId: 'gpt-4o-mini' } } })
+    );
+
+    // Act
+    const stale = await ClassificationCache.forProject(testDir);
+    stale.set({ path: path.join(testDir, 'a.md'), category: 'documentation', confidence: 0.8, reasoning: 'notes' }, '# A', 'gpt-4o-mini');
+    await stale.save();
+    const removed = await ClassificationCache.clear(testDir);
+
+    // Assert
+    expect(stale.size).toBe(1);
+    expect(removed).toBe(1);
+    await expect(fs.access(path.join(cacheDir, 'classifications.json'))).rejects.toThrow();
+    await expect(fs.readdir(cacheDir)).resolves.toEqual(['conventions.json']);
+  });
+});
+
+describe('IntelligentBatchProcessor with the classification cache', () => {
+  let testDir: string;
+  let server: http.Server;
+  let requests: number;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-batch-cache-'));
+    requests = 0;
+    server = http.createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        requests++;
+        const answer = {
+          classifications: [
+            { fileName: 'deploy.sh', category: 'script', confidence: 0.9, reasoning: 'deploys', suggestedRepo: 'root' },
+          ],
+        };
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ choices: [{ message: { content: JSON.stringify(answer) } }] }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    vi.spyOn(getKeyManager(), 'loadKeys').mockResolvedValue({});
+    vi.stubEnv('AI_MODEL', '');
+    vi.stubEnv('OPENAI_COMPATIBLE_BASE_URL', `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`);
+    vi.stubEnv('OPENAI_COMPATIBLE_MODEL', 'llama3.1');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await new Promise((resolve) => server.close(resolve));
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should not send unchanged files to the model again unless the cache is off', async () => {
+    // Arrange
+    const filePath = path.join(testDir, 'deploy.sh');
+    await fs.writeFile(filePath, '#!/bin/sh\nkubectl apply -f k8s/\n');
+    const repositories = [{ path: testDir, rootPath: testDir, isRoot: true }];
+
+    // Act
+    const first = await new IntelligentBatchProcessor().processFiles([filePath], repositories);
+    const second = await new IntelligentBatchProcessor().processFiles([filePath], repositories);
+    const uncached = await new IntelligentBatchProcessor().processFiles([filePath], repositories, { cache: false });
+
+    // Assert
+    expect(first.stats).toMatchObject({ cachedFiles: 0, totalApiCalls: 1 });
+    expect(second.classifications).toEqual(first.classifications);
+    expect(second.stats).toMatchObject({ cachedFiles: 1, totalApiCalls: 0, totalBatches: 0 });
+    expect(uncached.stats.cachedFiles).toBe(0);
+    expect(requests).toBe(2);
+  });
+});
+
+describe('FileClassifier with the classification cache', () => {
+  let testDir: string;
+  let server: http.Server;
+  let answers: string[];
+  let requests: number;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-classifier-cache-'));
+    answers = [];
+    requests = 0;
+    server = http.createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        requests++;
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ choices: [{ message: { content: answers.shift() ?? '' } }] }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    vi.spyOn(getKeyManager(), 'loadKeys').mockResolvedValue({});
+    vi.stubEnv('AI_MODEL', '');
+    vi.stubEnv('OPENAI_COMPATIBLE_BASE_URL', `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`);
+    vi.stubEnv('OPENAI_COMPATIBLE_MODEL', 'llama3.1');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await new Promise((resolve) => server.close(resolve));
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should reuse answers across runs but ask again about files it could not classify', async () => {
+    // Arrange
+    const deployPath = path.join(testDir, 'deploy.sh');
+    const notesPath = path.join(testDir, 'notes.txt');
+    await fs.writeFile(deployPath, '#!/bin/sh\nkubectl apply -f k8s/\n');
+    await fs.writeFile(notesPath, 'remember to rotate the keys');
+    answers = ['{"category": "script", "confidence": 0.9, "reasoning": "deploys"}', 'no idea, sorry'];
+    const cache = await ClassificationCache.forProject(testDir);
+    const classifier = new FileClassifier();
+    classifier.setCache(cache);
+
+    // Act
+    const deploy = await classifier.classify(deployPath, '#!/bin/sh\nkubectl apply -f k8s/\n');
+    const notes = await classifier.classify(notesPath, 'remember to rotate the keys');
+    await cache.save();
+
+    const nextRun = new FileClassifier();
+    nextRun.setCache(await ClassificationCache.forProject(testDir));
+    answers = ['{"category": "documentation", "confidence": 0.8, "reasoning": "plain notes"}'];
+    const [deployAgain, notesAgain] = await Promise.all([
+      nextRun.classify(deployPath, '#!/bin/sh\nkubectl apply -f k8s/\n'),
+      nextRun.classify(notesPath, 'remember to rotate the keys'),
+    ]);
+
+    // Assert
+    expect(deploy.category).toBe('script');
+    expect(notes.category).toBe('unknown');
+    expect(deployAgain).toEqual(deploy);
+    expect(notesAgain.category).toBe('documentation');
+    expect(requests).toBe(3);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { ConfigManager } from '../../src/config.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ConfigManager', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-config-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should merge a CommonJS config over the defaults', async () => {
+    // Arrange
+    await fs.writeFile(
+      path.join(testDir, '.unvibe.config.js'),
+      "module.exports = { rulepacks: ['@acme/team'], backup: { retentionDays: 7 } };\n"
+    );
+
+    // Act
+    const config = await ConfigManager.load(testDir);
+
+    // Assert
+    expect(config.rulepacks).toEqual(['@acme/team']);
+    expect(config.backup).toMatchObject({ enabled: true, retentionDays: 7 });
+  });
+
+  test('should report a config file that fails to evaluate instead of using the defaults', async () => {
+    // Arrange
+    const configPath = path.join(testDir, '.unvibe.config.js');
+    await fs.writeFile(configPath, "module.exports = { rulepacks: ['@acme/team'],, };\n");
+
+    // Act & Assert
+    await expect(ConfigManager.load(testDir)).rejects.toThrow(`Failed to load ${configPath}`);
+
+    await fs.writeFile(configPath, 'module.exports = { backup: { retentionDays: missingVariable } };\n');
+    await expect(ConfigManager.load(testDir)).rejects.toThrow('missingVariable is not defined');
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { CustomRuleRunner, CustomRuleRegistry } from '../../src/custom-rules.js';
+import { RulePackEngine } from '../../src/rulepack-engine.js';
+import { RulePackLoader } from '../../src/rulepack-loader.js';
+import type { CustomRule } from '../../src/rulepack-types.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+function rule(id: string, validator: string, extra: Partial<CustomRule> = {}): CustomRule {
+  return {
+    id,
+    description: id,
+    filePatterns: ['src/**/*.ts'],
+    validator,
+    severity: 'error',
+    ...extra,
+  };
+}
+
+describe('CustomRuleRunner', () => {
+  let testDir: string;
+  let runner: CustomRuleRunner;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-custom-rules-test-'));
+    await fs.mkdir(path.join(testDir, 'src'));
+    runner = new CustomRuleRunner();
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should report files missing the required header', async () => {
+    // Arrange
+    await fs.writeFile(path.join(testDir, 'src', 'a.ts'), '// Copyright Acme\nexport {};\n');
+    await fs.writeFile(path.join(testDir, 'src', 'b.ts'), 'export {};\n');
+
+    // Act
+    const report = await runner.run(testDir, [
+      rule('license-header', 'must-have-header', { options: { header: '// Copyright Acme' } }),
+    ]);
+
+    // Assert
+    expect(report.filesChecked).toBe(2);
+    expect(report.violations).toEqual([
+      { ruleId: 'license-header', severity: 'error', file: 'src/b.ts', line: 1, message: 'Missing required file header' },
+    ]);
+    expect(report.summary).toEqual({ error: 1, warning: 0, info: 0 });
+  });
+
+  test('should flag files over the line limit', async () => {
+    // Arrange
+    await fs.writeFile(path.join(testDir, 'src', 'long.ts'), 'x;\n'.repeat(5));
+
+    // Act
+    const report = await runner.run(testDir, [
+      rule('small-files', 'max-lines', { severity: 'warning', options: { max: 3 } }),
+    ]);
+
+    // Assert
+    expect(report.violations).toHaveLength(1);
+    expect(report.violations[0]).toMatchObject({ line: 4, message: 'File has 5 lines (max 3)', severity: 'warning' });
+  });
+
+  test('should find forbidden imports in import, require and export forms', async () => {
+    // Arrange
+    await fs.writeFile(
+      path.join(testDir, 'src', 'deps.ts'),
+      [
+        "import _ from 'lodash';",
+        "import fp from 'lodash/fp';",
+        "const m = require('moment');",
+        "export { x } from '@internal/secrets';",
+        "import ok from 'lodash-es';",
+      ].join('\n')
+    );
+
+    // Act
+    const report = await runner.run(testDir, [
+      rule('no-heavy-deps', 'forbidden-import', { options: { modules: ['lodash', 'moment', '@internal/*'] } }),
+    ]);
+
+    // Assert
+    expect(report.violations.map((v) => v.line)).toEqual([1, 2, 3, 4]);
+    expect(report.violations[0].message).toBe('Import of "lodash" is forbidden.');
+  });
+
+  test('should run project-local validator modules', async () => {
+    // Arrange
+    await fs.mkdir(path.join(testDir, 'policies'));
+    await fs.writeFile(
+      path.join(testDir, 'policies', 'no-console.mjs'),
+      `export default ({ lines }) => lines
+        .map((line, i) => (line.includes('console.log') ? { message: 'No console.log', line: i + 1 } : null))
+        .filter(Boolean);`
+    );
+    await fs.writeFile(
+      path.join(testDir, 'policies', 'no-todo.ts'),
+      `export function validate(context: { content: string }): string[] {
+        return context.content.includes('TODO') ? ['Resolve TODOs before merging'] : [];
+      }`
+    );
+    await fs.writeFile(path.join(testDir, 'src', 'app.ts'), "// TODO\nconsole.log('hi');\n");
+
+    // Act
+    const report = await runner.run(testDir, [
+      rule('no-console', './policies/no-console.mjs', { severity: 'warning' }),
+      rule('no-todo', 'policies/no-todo.ts', { severity: 'info' }),
+    ]);
+
+    // Assert
+    expect(report.rulesRun).toEqual(['no-console', 'no-todo']);
+    expect(report.violations).toEqual([
+      { ruleId: 'no-console', severity: 'warning', file: 'src/app.ts', line: 2, message: 'No console.log' },
+      { ruleId: 'no-todo', severity: 'info', file: 'src/app.ts', line: undefined, message: 'Resolve TODOs before merging' },
+    ]);
+  });
+
+  test('should honor negated patterns and the ignore callback', async () => {
+    // Arrange
+    await fs.mkdir(path.join(testDir, 'src', 'generated'));
+    await fs.writeFile(path.join(testDir, 'src', 'a.ts'), 'export {};\n');
+    await fs.writeFile(path.join(testDir, 'src', 'a.test.ts'), 'export {};\n');
+    await fs.writeFile(path.join(testDir, 'src', 'generated', 'api.ts'), 'export {};\n');
+
+    // Act
+    const report = await runner.run(
+      testDir,
+      [rule('header', 'must-have-header', { filePatterns: ['src/**/*.ts', '!**/*.test.ts'], options: { header: '//' } })],
+      (file) => file.startsWith('src/generated/')
+    );
+
+    // Assert
+    expect(report.violations.map((v) => v.file)).toEqual(['src/a.ts']);
+  });
+
+  test('should skip rules with unknown or misconfigured validators', async () => {
+    // Arrange
+    await fs.writeFile(path.join(testDir, 'src', 'a.ts'), 'export {};\n');
+
+    // Act
+    const report = await runner.run(testDir, [
+      rule('lint', 'eslint'),
+      rule('header', 'must-have-header'),
+      rule('missing', './policies/missing.js'),
+    ]);
+
+    // Assert
+    expect(report.rulesRun).toEqual([]);
+    expect(report.skippedRules.map((s) => s.ruleId)).toEqual(['lint', 'header', 'missing']);
+    expect(report.skippedRules[0].reason).toMatch(/Unknown validator "eslint"/);
+    expect(report.skippedRules[1].reason).toMatch(/requires options\.header or options\.pattern/);
+    expect(report.skippedRules[2].reason).toMatch(/Validator module not found/);
+  });
+
+  test('should accept validators registered at runtime', async () => {
+    // Arrange
+    const registry = new CustomRuleRegistry();
+    registry.register('always-fails', () => ['nope']);
+    await fs.writeFile(path.join(testDir, 'src', 'a.ts'), 'export {};\n');
+
+    // Act
+    const report = await new CustomRuleRunner(registry).run(testDir, [rule('custom', 'always-fails')]);
+
+    // Assert
+    expect(registry.list()).toEqual(['always-fails', 'forbidden-import', 'max-lines', 'must-have-header']);
+    expect(report.violations[0].message).toBe('nope');
+  });
+});
+
+describe('Bundled rule packs', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-bundled-rules-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should run every custom rule and find nothing on a clean tree', async () => {
+    // Arrange
+    const files: Record<string, string> = {
+      'src/components/Button.tsx': 'export function Button() {\n  return null;\n}\n',
+      'src/hooks/useAuth.ts': 'export function useAuth() {\n  return null;\n}\n',
+      'apps/web/src/index.ts': "import { Button } from '@acme/ui';\n\nexport { Button };\n",
+      'packages/ui/src/index.ts': "export { Button } from './button.js';\n",
+    };
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(testDir, file)), { recursive: true });
+      await fs.writeFile(path.join(testDir, file), content);
+    }
+    const packs = await new RulePackLoader().listBundled();
+
+    for (const pack of packs) {
+      // Act
+      const engine = (await RulePackEngine.fromConfig({ rulepacks: [pack] }, testDir))!;
+      const rules = engine.getRulePack().customRules ?? [];
+      const report = await new CustomRuleRunner().run(testDir, rules, (file) => engine.isIgnored(file));
+
+      // Assert
+      expect({ pack, skippedRules: report.skippedRules, violations: report.violations }).toEqual({
+        pack,
+        skippedRules: [],
+        violations: [],
+      });
+      expect(report.rulesRun).toEqual(rules.map((r) => r.id));
+    }
+    expect(packs).toContain('@devibe/react-standard');
+  });
+});
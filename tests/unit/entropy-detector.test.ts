@@ -0,0 +1,73 @@
+import { describe, test, expect } from 'vitest';
+import { EntropyDetector } from '../../src/entropy-detector.js';
+
+describe('EntropyDetector', () => {
+  const detector = new EntropyDetector();
+
+  test('should flag random tokens in string literals and assignments', () => {
+    // Arrange
+    const content = [
+      'const sessionToken = "q8Zr2LmX9vT4kWp7Yb3Nc6Hd1Jf5Gs0A";',
+      'WEBHOOK_SIGNING=3f9a1c7e5b2d8046af13c9e7b5d20486',
+    ].join('\n');
+
+    // Act
+    const matches = detector.detect(content, 'src/app.ts');
+
+    // Assert
+    expect(matches.map((m) => [m.line, m.column, m.alphabet, m.key])).toEqual([
+      [1, 23, 'base64', 'sessionToken'],
+      [2, 17, 'hex', 'WEBHOOK_SIGNING'],
+    ]);
+  });
+
+  test('should score secret-like key names with higher confidence', () => {
+    // Arrange
+    const token = 'q8Zr2LmX9vT4kWp7Yb3Nc6Hd1Jf5Gs0A';
+
+    // Act
+    const [named] = detector.detect(`const apiToken = "${token}";`);
+    const [anonymous] = detector.detect(`call("${token}");`);
+
+    // Assert
+    expect(named.confidence).toBeGreaterThan(anonymous.confidence);
+    expect(anonymous.confidence).toBeGreaterThanOrEqual(0.5);
+  });
+
+  test('should ignore UUIDs, words and short values', () => {
+    // Arrange
+    const content = [
+      'const id = "123e4567-e89b-12d3-a456-426614174000";',
+      'const name = "thisIsAVeryLongVariableNameWithoutDigits";',
+      'const short = "a1B2c3D4";',
+    ].join('\n');
+
+    // Act
+    const matches = detector.detect(content, 'src/app.ts');
+
+    // Assert
+    expect(matches).toEqual([]);
+  });
+
+  test('should skip lockfiles, snapshots and test fixtures', () => {
+    // Arrange
+    const content = 'WEBHOOK_SIGNING=3f9a1c7e5b2d8046af13c9e7b5d20486';
+
+    // Act & Assert
+    expect(detector.detect(content, 'package-lock.json')).toEqual([]);
+    expect(detector.detect(content, 'go.sum')).toEqual([]);
+    expect(detector.detect(content, 'src/__snapshots__/app.test.ts.snap')).toEqual([]);
+    expect(detector.detect(content, 'tests/fixtures/keys.env')).toEqual([]);
+  });
+
+  test('should respect tuned thresholds', () => {
+    // Arrange
+    const strict = new EntropyDetector({ minLength: 40 });
+    const disabled = new EntropyDetector({ enabled: false });
+    const content = 'WEBHOOK_SIGNING=3f9a1c7e5b2d8046af13c9e7b5d20486';
+
+    // Act & Assert
+    expect(strict.detect(content)).toEqual([]);
+    expect(disabled.detect(content)).toEqual([]);
+  });
+});
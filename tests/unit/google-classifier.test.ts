@@ -0,0 +1,127 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { GoogleClassifier } from '../../src/ai-classifier.js';
+import { AITransport } from '../../src/ai-transport.js';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+interface RecordedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+describe('GoogleClassifier', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let reply: { status: number; body: unknown };
+
+  const repositories = [
+    { name: 'monorepo', path: '/repo', isRoot: true },
+    { name: 'api', path: '/repo/api', isRoot: false },
+  ];
+
+  function answer(text: string) {
+    reply = {
+      status: 200,
+      body: { candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }] },
+    };
+  }
+
+  beforeEach(async () => {
+    requests = [];
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        requests.push({ url: req.url!, headers: req.headers, body: JSON.parse(raw) });
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1beta/models`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('should classify a file through generateContent', async () => {
+    // Arrange
+    answer('{"category": "script", "confidence": 0.9, "reasoning": "runs a migration"}');
+    const classifier = new GoogleClassifier('test-key', 'gemini-1.5-pro', baseUrl);
+
+    // Act
+    const result = await classifier.classify('/repo/migrate.js', 'db.migrate()');
+
+    // Assert
+    expect(result).toEqual({
+      path: '/repo/migrate.js',
+      category: 'script',
+      confidence: 0.9,
+      reasoning: 'AI: runs a migration',
+    });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/v1beta/models/gemini-1.5-pro:generateContent');
+    expect(requests[0].headers['x-goog-api-key']).toBe('test-key');
+    expect(requests[0].body.contents[0].parts[0].text).toContain('File: migrate.js');
+    expect(requests[0].body.generationConfig.responseMimeType).toBe('application/json');
+  });
+
+  test('should classify a batch and suggest a repository', async () => {
+    // Arrange
+    const classifier = new GoogleClassifier('test-key', undefined, baseUrl);
+    answer(JSON.stringify({
+      classifications: [
+        { fileName: 'routes.md', category: 'documentation', confidence: 0.8, reasoning: 'API docs', suggestedRepo: 'api' },
+      ],
+    }));
+
+    // Act
+    const batch = await classifier.classifyBatch(
+      [{ fileName: 'routes.md', filePath: '/repo/routes.md', contentPreview: '# Express routes' }],
+      repositories
+    );
+    answer('{"repositoryName": "api", "confidence": 0.85, "reasoning": "Express routes"}');
+    const suggestion = await classifier.suggestRepository('/repo/routes.md', '# Express routes', repositories);
+
+    // Assert
+    expect(batch).toEqual({
+      results: [
+        { fileName: 'routes.md', category: 'documentation', confidence: 0.8, reasoning: 'API docs', suggestedRepo: 'api' },
+      ],
+      rejected: [],
+      requests: 1,
+    });
+    expect(suggestion).toEqual({ repositoryName: 'api', confidence: 0.85, reasoning: 'Express routes' });
+    expect(requests[0].url).toBe('/v1beta/models/gemini-1.5-flash:generateContent');
+    expect(requests[0].body.contents[0].parts[0].text).toContain('FILE 1: routes.md');
+    const schema = requests[0].body.generationConfig.responseSchema;
+    expect(schema.type).toBe('OBJECT');
+    expect(schema.properties.classifications.items.properties.suggestedRepo.enum).toEqual(['monorepo', 'api', 'root']);
+    expect(schema.properties.classifications.items.additionalProperties).toBeUndefined();
+  });
+
+  test('should report API errors and blocked prompts', async () => {
+    // Arrange
+    const classifier = new GoogleClassifier('test-key', undefined, baseUrl, new AITransport({ maxRetries: 0 }));
+
+    // Act & Assert
+    reply = { status: 429, body: { error: { code: 429, message: 'Resource exhausted' } } };
+    const files = [{ fileName: 'notes.md', filePath: '/repo/notes.md', contentPreview: 'notes' }];
+    await expect(classifier.classifyBatch(files, repositories)).rejects.toThrow(
+      'Batch AI classification failed: Gemini API error: 429'
+    );
+    expect(await classifier.suggestRepository('/repo/notes.md', 'notes', repositories)).toEqual({
+      repositoryName: 'monorepo',
+      confidence: 0.3,
+      reasoning: 'AI analysis failed, defaulting to root',
+    });
+
+    reply = { status: 200, body: { promptFeedback: { blockReason: 'SAFETY' } } };
+    await expect(classifier.classify('/repo/notes.md', 'notes')).rejects.toThrow(
+      'AI classification failed: Gemini returned no content (SAFETY)'
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import {
+  NamingConventionChecker,
+  toNamingStyle,
+  matchesNamingStyle,
+} from '../../src/naming-convention-checker.js';
+import { OperationExecutor } from '../../src/operation-executor.js';
+import { BackupManager } from '../../src/backup-manager.js';
+import { GitDetector } from '../../src/git-detector.js';
+import { UsageDetector } from '../../src/usage-detector.js';
+import type { NamingConventionRules } from '../../src/rulepack-types.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+const rules: NamingConventionRules = {
+  files: [
+    { pattern: 'src/**/*.ts', convention: 'kebab-case', example: 'user-service.ts' },
+    { pattern: 'src/components/**/*.tsx', convention: 'PascalCase', example: 'UserCard.tsx' },
+  ],
+  folders: [
+    { pattern: 'src/*', convention: 'kebab-case', example: 'user-management' },
+  ],
+};
+
+describe('naming styles', () => {
+  test('should convert between styles', () => {
+    expect(toNamingStyle('userAPIClient', 'kebab-case')).toBe('user-api-client');
+    expect(toNamingStyle('user_service', 'PascalCase')).toBe('UserService');
+    expect(toNamingStyle('UserService', 'camelCase')).toBe('userService');
+    expect(toNamingStyle('max-retries', 'SCREAMING_SNAKE_CASE')).toBe('MAX_RETRIES');
+    expect(toNamingStyle('UserService', 'snake_case')).toBe('user_service');
+  });
+
+  test('should recognise names already in a style', () => {
+    expect(matchesNamingStyle('user-service', 'kebab-case')).toBe(true);
+    expect(matchesNamingStyle('userService', 'kebab-case')).toBe(false);
+    expect(matchesNamingStyle('UserCard', 'PascalCase')).toBe(true);
+    expect(matchesNamingStyle('userCard', 'PascalCase')).toBe(false);
+  });
+});
+
+describe('NamingConventionChecker', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-naming-test-'));
+    await fs.mkdir(path.join(testDir, '.git'));
+    await fs.mkdir(path.join(testDir, 'src', 'UserManagement'), { recursive: true });
+    await fs.mkdir(path.join(testDir, 'src', 'components'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should report files and folders that break their convention', async () => {
+    // Arrange
+    await fs.writeFile(path.join(testDir, 'src', 'UserService.test.ts'), '');
+    await fs.writeFile(path.join(testDir, 'src', 'user-repo.ts'), '');
+    await fs.writeFile(path.join(testDir, 'src', 'components', 'user-card.tsx'), '');
+    await fs.writeFile(path.join(testDir, 'src', 'components', 'Avatar.tsx'), '');
+
+    // Act
+    const violations = await new NamingConventionChecker(rules).check(testDir);
+
+    // Assert
+    const summary = violations.map((v) => [v.kind, v.relativePath, v.suggestedName]).sort();
+    expect(summary).toEqual([
+      ['file', 'src/UserService.test.ts', 'user-service.test.ts'],
+      ['file', 'src/components/user-card.tsx', 'UserCard.tsx'],
+      ['folder', 'src/UserManagement', 'user-management'],
+    ]);
+  });
+
+  test('should skip ignored paths and nested repositories', async () => {
+    // Arrange
+    await fs.mkdir(path.join(testDir, 'src', 'Vendored', '.git'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'src', 'Vendored', 'BadName.ts'), '');
+    await fs.mkdir(path.join(testDir, 'src', 'Generated'));
+    await fs.writeFile(path.join(testDir, 'src', 'Generated', 'ApiClient.ts'), '');
+    const checker = new NamingConventionChecker(rules, new GitDetector(), undefined, (file) =>
+      file.startsWith('src/Generated')
+    );
+
+    // Act
+    const violations = await checker.check(testDir);
+
+    // Assert
+    expect(violations.map((v) => v.relativePath)).toEqual(['src/UserManagement']);
+  });
+
+  test('should plan file renames before folder renames and flag referenced files', async () => {
+    // Arrange
+    await fs.writeFile(path.join(testDir, 'src', 'UserManagement', 'RoleStore.ts'), 'export {};');
+    await fs.writeFile(
+      path.join(testDir, 'src', 'index.ts'),
+      "export * from './UserManagement/RoleStore';"
+    );
+    const checker = new NamingConventionChecker(rules, new GitDetector(), new UsageDetector());
+
+    // Act
+    const plan = await checker.planRenames(testDir);
+
+    // Assert
+    expect(plan.backupRequired).toBe(true);
+    expect(plan.operations.map((op) => path.relative(testDir, op.targetPath!))).toEqual([
+      path.join('src', 'UserManagement', 'role-store.ts'),
+      path.join('src', 'user-management'),
+    ]);
+    expect(plan.operations[0].isReferenced).toBe(true);
+    expect(plan.operations[0].warning).toContain(path.join('src', 'index.ts'));
+    expect(plan.warnings).toContain('⚠️  src/UserManagement/RoleStore.ts is still referenced - update references after renaming');
+  });
+
+  test('should skip renames whose target already exists', async () => {
+    // Arrange
+    await fs.writeFile(path.join(testDir, 'src', 'UserRepo.ts'), '');
+    await fs.writeFile(path.join(testDir, 'src', 'user-repo.ts'), '');
+
+    // Act
+    const plan = await new NamingConventionChecker(rules).planRenames(testDir);
+
+    // Assert
+    expect(plan.operations.map((op) => path.basename(op.sourcePath))).toEqual(['UserManagement']);
+    expect(plan.warnings).toEqual(['⚠️  src/UserRepo.ts: user-repo.ts already exists - skipped']);
+  });
+
+  test('should execute the rename plan with a backup', async () => {
+    // Arrange
+    await fs.writeFile(path.join(testDir, 'src', 'UserManagement', 'RoleStore.ts'), 'export const role = 1;');
+    const checker = new NamingConventionChecker(rules);
+    const plan = await checker.planRenames(testDir);
+    const executor = new OperationExecutor(new BackupManager(path.join(testDir, '.unvibe', 'backups')));
+
+    // Act
+    const result = await executor.execute(plan, false);
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.operationsCompleted).toBe(2);
+    expect(result.backupManifestId).toBeDefined();
+    const renamed = await fs.readFile(path.join(testDir, 'src', 'user-management', 'role-store.ts'), 'utf-8');
+    expect(renamed).toBe('export const role = 1;');
+    expect(await checker.check(testDir)).toEqual([]);
+  });
+});
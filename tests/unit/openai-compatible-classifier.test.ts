@@ -0,0 +1,96 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AIClassifierFactory, OpenAICompatibleClassifier } from '../../src/ai-classifier.js';
+import { AIProviderResolver } from '../../src/ai-provider-resolver.js';
+import { getKeyManager } from '../../src/ai-key-manager.js';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+interface RecordedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+describe('OpenAICompatibleClassifier', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let answer: string;
+
+  beforeEach(async () => {
+    requests = [];
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        requests.push({ url: req.url!, headers: req.headers, body: JSON.parse(raw) });
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: answer } }] }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('should send chat completions to the configured endpoint and model', async () => {
+    // Arrange
+    answer = '{"category": "test", "confidence": 0.8, "reasoning": "vitest suite"}';
+    const classifier = new OpenAICompatibleClassifier({ baseUrl: `${baseUrl}/`, model: 'llama3.1' });
+
+    // Act
+    const result = await classifier.classify('/repo/math.test.ts', "import { test } from 'vitest';");
+
+    // Assert
+    expect(result.category).toBe('test');
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].body.model).toBe('llama3.1');
+    expect(requests[0].headers.authorization).toBeUndefined();
+  });
+
+  test('should classify batches and send the key of an endpoint that needs one', async () => {
+    // Arrange
+    answer = 'Here you go:\n[{"fileName": "setup.sh", "category": "script", "confidence": 0.9, "reasoning": "installs deps", "suggestedRepo": "root"}]';
+    const classifier = new OpenAICompatibleClassifier({ baseUrl, model: 'qwen2.5-coder', apiKey: 'vllm-token' });
+
+    // Act
+    const outcome = await classifier.classifyBatch(
+      [{ fileName: 'setup.sh', filePath: '/repo/setup.sh', contentPreview: 'npm ci' }],
+      [{ name: 'repo', path: '/repo', isRoot: true }]
+    );
+
+    // Assert
+    expect(outcome.results).toEqual([
+      { fileName: 'setup.sh', category: 'script', confidence: 0.9, reasoning: 'installs deps', suggestedRepo: 'root' },
+    ]);
+    expect(requests[0].headers.authorization).toBe('Bearer vllm-token');
+    expect(requests[0].body.response_format.json_schema.strict).toBe(true);
+  });
+
+  test('should be resolved from the environment ahead of hosted providers', async () => {
+    // Arrange
+    answer = '{"category": "config", "confidence": 0.7, "reasoning": "settings"}';
+    vi.spyOn(getKeyManager(), 'loadKeys').mockResolvedValue({});
+    vi.stubEnv('AI_MODEL', '');
+    vi.stubEnv('ANTHROPIC_API_KEY', 'sk-ant-test-key-not-used');
+    vi.stubEnv('OPENAI_COMPATIBLE_BASE_URL', baseUrl);
+    vi.stubEnv('OPENAI_COMPATIBLE_MODEL', 'mistral');
+
+    // Act
+    const resolved = await new AIProviderResolver().resolve();
+    const ai = await AIClassifierFactory.create();
+    await ai!.classify('/repo/settings.yaml', 'debug: true');
+
+    // Assert
+    expect(resolved).toMatchObject({ provider: 'openai-compatible', apiKey: '', source: 'environment' });
+    expect(resolved!.model).toMatchObject({ id: 'mistral', apiUrl: baseUrl, inputPricePerMillion: 0 });
+    expect(ai!.name).toBe('openai-compatible');
+    expect(requests[0].body.model).toBe('mistral');
+  });
+});
@@ -1,11 +1,14 @@
-import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
 import { OperationPlanner, OperationExecutor } from '../../src/operation-executor.js';
 import { GitDetector } from '../../src/git-detector.js';
 import { FileClassifier } from '../../src/file-classifier.js';
 import { BackupManager } from '../../src/backup-manager.js';
+import { getKeyManager } from '../../src/ai-key-manager.js';
 import * as fs from 'fs/promises';
+import * as http from 'http';
 import * as path from 'path';
 import * as os from 'os';
+import type { AddressInfo } from 'net';
 
 describe('OperationPlanner', () => {
   let testDir: string;
@@ -108,6 +111,65 @@ describe('OperationPlanner', () => {
   });
 });
 
+describe('OperationPlanner with AI batch classification', () => {
+  let testDir: string;
+  let server: http.Server;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-planner-ai-test-'));
+    // Batch answers give notes.txt a category that does not exist
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        const batch = JSON.parse(raw).response_format !== undefined;
+        const answer = batch
+          ? {
+              classifications: [
+                { fileName: 'deploy.sh', category: 'script', confidence: 0.9, reasoning: 'deploys', suggestedRepo: 'root' },
+                { fileName: 'notes.txt', category: 'memo', confidence: 0.9, reasoning: 'notes', suggestedRepo: 'root' },
+              ],
+            }
+          : { category: 'documentation', confidence: 0.8, reasoning: 'plain notes' };
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ choices: [{ message: { content: JSON.stringify(answer) } }] }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    vi.spyOn(getKeyManager(), 'loadKeys').mockResolvedValue({});
+    vi.stubEnv('AI_MODEL', '');
+    vi.stubEnv('OPENAI_COMPATIBLE_BASE_URL', `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`);
+    vi.stubEnv('OPENAI_COMPATIBLE_MODEL', 'llama3.1');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await new Promise((resolve) => server.close(resolve));
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should report files the AI batch answer was rejected for in the plan warnings', async () => {
+    // Arrange
+    await fs.mkdir(path.join(testDir, '.git'));
+    await fs.writeFile(path.join(testDir, 'deploy.sh'), '#!/bin/sh\nkubectl apply -f k8s/\n');
+    await fs.writeFile(path.join(testDir, 'notes.txt'), 'remember to rotate the keys');
+    const classifier = new FileClassifier();
+    const planner = new OperationPlanner(new GitDetector(), classifier);
+
+    // Act
+    const plan = await planner.planRootFileDistribution(testDir);
+
+    // Assert
+    expect(classifier.getRejected()).toEqual([
+      { fileName: 'notes.txt', path: path.join(testDir, 'notes.txt'), reason: expect.stringContaining('memo') },
+    ]);
+    expect(plan.warnings).toEqual([expect.stringMatching(/^⚠️  notes\.txt: no valid AI classification \(.*memo.*\)/)]);
+    expect(plan.operations.find((op) => op.sourcePath.endsWith('notes.txt'))?.reason).toContain('plain notes');
+  });
+});
+
 describe('OperationExecutor', () => {
   let testDir: string;
   let backupDir: string;
@@ -235,6 +297,62 @@ describe('OperationExecutor', () => {
     expect(result.backupManifestId).toBeDefined();
   });
 
+  test('should restore the exact tree after moves into new directories', async () => {
+    // Arrange
+    await fs.writeFile(path.join(testDir, 'deploy.sh'), '#!/bin/bash');
+    await fs.mkdir(path.join(testDir, 'Docs'));
+    await fs.writeFile(path.join(testDir, 'Docs', 'guide.md'), 'guide');
+
+    const plan = {
+      operations: [
+        {
+          type: 'move' as const,
+          sourcePath: path.join(testDir, 'deploy.sh'),
+          targetPath: path.join(testDir, 'scripts', 'deploy', 'deploy.sh'),
+          reason: 'test',
+        },
+        {
+          type: 'move' as const,
+          sourcePath: path.join(testDir, 'Docs'),
+          targetPath: path.join(testDir, 'documents', 'guides'),
+          reason: 'test',
+        },
+      ],
+      backupRequired: true,
+      estimatedDuration: 100,
+    };
+    const result = await executor.execute(plan, false);
+
+    // Act
+    await new BackupManager(backupDir).restore(result.backupManifestId!);
+
+    // Assert
+    const entries = (await fs.readdir(testDir)).filter((name) => name !== '.unvibe').sort();
+    expect(entries).toEqual(['Docs', 'deploy.sh']);
+    expect(await fs.readFile(path.join(testDir, 'Docs', 'guide.md'), 'utf-8')).toBe('guide');
+  });
+
+  test('should prune backups beyond the configured maximum after executing', async () => {
+    // Arrange
+    executor = new OperationExecutor(new BackupManager(backupDir, { maxBackups: 1 }));
+    const deletePlan = (name: string) => ({
+      operations: [{ type: 'delete' as const, sourcePath: path.join(testDir, name), reason: 'test' }],
+      backupRequired: true,
+      estimatedDuration: 100,
+    });
+    await fs.writeFile(path.join(testDir, 'first.txt'), 'first');
+    await fs.writeFile(path.join(testDir, 'second.txt'), 'second');
+    await executor.execute(deletePlan('first.txt'), false);
+
+    // Act
+    const result = await executor.execute(deletePlan('second.txt'), false);
+
+    // Assert
+    const backups = await new BackupManager(backupDir).listBackups();
+    expect(backups.map((b) => b.id)).toEqual([result.backupManifestId]);
+    expect(result.errors).toEqual([]);
+  });
+
   test('should handle execution errors gracefully', async () => {
     // Arrange
     const plan = {
@@ -258,4 +376,142 @@ describe('OperationExecutor', () => {
     expect(result.operationsFailed).toBe(1);
     expect(result.errors.length).toBeGreaterThan(0);
   });
+
+  describe('atomic execution', () => {
+    test('should refuse a plan that fails preflight without changing anything', async () => {
+      // Arrange
+      await fs.writeFile(path.join(testDir, 'a.txt'), 'a');
+      await fs.mkdir(path.join(testDir, 'docs'));
+      await fs.writeFile(path.join(testDir, 'docs', 'a.txt'), 'existing');
+      const plan = {
+        operations: [
+          { type: 'move' as const, sourcePath: path.join(testDir, 'a.txt'), targetPath: path.join(testDir, 'b.txt'), reason: 'test' },
+          { type: 'move' as const, sourcePath: path.join(testDir, 'b.txt'), targetPath: path.join(testDir, 'docs', 'a.txt'), reason: 'test' },
+          { type: 'delete' as const, sourcePath: path.join(testDir, 'missing.txt'), reason: 'test' },
+        ],
+        backupRequired: true,
+        estimatedDuration: 100,
+        warnings: [],
+      };
+
+      // Act
+      const result = await executor.execute(plan, false, { atomic: true });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.operationsCompleted).toBe(0);
+      expect(result.errors).toEqual([
+        `move ${path.join(testDir, 'b.txt')}: target ${path.join(testDir, 'docs', 'a.txt')} already exists`,
+        `delete ${path.join(testDir, 'missing.txt')}: file does not exist`,
+      ]);
+      expect(await fs.readFile(path.join(testDir, 'a.txt'), 'utf-8')).toBe('a');
+      expect(result.backupManifestId).toBeUndefined();
+    });
+
+    test('should roll back completed operations when a later one fails', async () => {
+      // Arrange
+      await fs.writeFile(path.join(testDir, 'notes.md'), 'notes');
+      await fs.writeFile(path.join(testDir, 'old.log'), 'log');
+      await fs.writeFile(path.join(testDir, 'blocker'), 'a file, not a directory');
+      const plan = {
+        operations: [
+          { type: 'move' as const, sourcePath: path.join(testDir, 'notes.md'), targetPath: path.join(testDir, 'documents', 'notes.md'), reason: 'test' },
+          { type: 'delete' as const, sourcePath: path.join(testDir, 'old.log'), reason: 'test' },
+          { type: 'create' as const, sourcePath: path.join(testDir, 'blocker', 'sub'), reason: 'test' },
+        ],
+        backupRequired: false,
+        estimatedDuration: 100,
+        warnings: [],
+      };
+
+      // Act
+      const result = await executor.execute(plan, false, { atomic: true });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.operationsFailed).toBe(1);
+      expect(result.rollback?.operations).toEqual(plan.operations.slice(0, 2));
+      expect(result.rollback?.restored.sort()).toEqual(
+        [path.join(testDir, 'notes.md'), path.join(testDir, 'old.log')].sort()
+      );
+      expect(result.rollback?.removedDirectories).toEqual([path.join(testDir, 'documents')]);
+      const entries = (await fs.readdir(testDir)).filter((name) => name !== '.unvibe').sort();
+      expect(entries).toEqual(['blocker', 'notes.md', 'old.log']);
+    });
+
+    test('should refuse moves across git repository boundaries', async () => {
+      // Arrange
+      await fs.mkdir(path.join(testDir, 'api'));
+      await fs.writeFile(path.join(testDir, 'api', 'server.ts'), 'server');
+      const repositories = [
+        { path: testDir, rootPath: testDir, isRoot: true },
+        { path: path.join(testDir, 'api'), rootPath: testDir, isRoot: false },
+      ];
+      const plan = {
+        operations: [
+          { type: 'move' as const, sourcePath: path.join(testDir, 'api', 'server.ts'), targetPath: path.join(testDir, 'server.ts'), reason: 'test' },
+        ],
+        backupRequired: true,
+        estimatedDuration: 100,
+        warnings: [],
+      };
+
+      // Act
+      const result = await executor.execute(plan, false, { atomic: true, repositories });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain('would cross a git repository boundary');
+      expect(await fs.readFile(path.join(testDir, 'api', 'server.ts'), 'utf-8')).toBe('server');
+    });
+  });
+
+  describe('reference rewriting', () => {
+    beforeEach(async () => {
+      await fs.mkdir(path.join(testDir, 'src'));
+      await fs.writeFile(path.join(testDir, 'helpers.ts'), 'export const help = 1;\n');
+      await fs.writeFile(path.join(testDir, 'src', 'main.ts'), "import { help } from '../helpers.js';\n");
+    });
+
+    const movePlan = () => ({
+      operations: [
+        {
+          type: 'move' as const,
+          sourcePath: path.join(testDir, 'helpers.ts'),
+          targetPath: path.join(testDir, 'src', 'utils', 'helpers.ts'),
+          reason: 'test',
+        },
+      ],
+      backupRequired: true,
+      estimatedDuration: 50,
+    });
+
+    test('should update imports and revert them on restore', async () => {
+      // Arrange
+      const result = await executor.execute(movePlan(), false, { rewriteReferencesIn: testDir });
+      const rewritten = await fs.readFile(path.join(testDir, 'src', 'main.ts'), 'utf-8');
+
+      // Act
+      await new BackupManager(backupDir).restore(result.backupManifestId!);
+
+      // Assert
+      expect(result.referencesUpdated).toEqual([path.join(testDir, 'src', 'main.ts')]);
+      expect(rewritten).toBe("import { help } from './utils/helpers.js';\n");
+      expect(await fs.readFile(path.join(testDir, 'src', 'main.ts'), 'utf-8')).toBe(
+        "import { help } from '../helpers.js';\n"
+      );
+      expect(await fs.readFile(path.join(testDir, 'helpers.ts'), 'utf-8')).toBe('export const help = 1;\n');
+    });
+
+    test('should refuse to restore over edits made after the rewrite', async () => {
+      // Arrange
+      const result = await executor.execute(movePlan(), false, { rewriteReferencesIn: testDir });
+      await fs.appendFile(path.join(testDir, 'src', 'main.ts'), 'help;\n');
+
+      // Act & Assert
+      await expect(new BackupManager(backupDir).restore(result.backupManifestId!)).rejects.toThrow(
+        'modified after it was rewritten'
+      );
+    });
+  });
 });
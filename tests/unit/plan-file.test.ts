@@ -0,0 +1,111 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { PlanFile } from '../../src/plan-file.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('PlanFile', () => {
+  let testDir: string;
+  let planPath: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-plan-test-'));
+    planPath = path.join(testDir, 'plan.json');
+    await fs.writeFile(path.join(testDir, 'notes.md'), 'notes');
+    await fs.mkdir(path.join(testDir, 'Docs'));
+    await fs.writeFile(path.join(testDir, 'Docs', 'guide.md'), 'guide');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  function planFor(rootPath: string) {
+    return {
+      operations: [
+        {
+          type: 'move' as const,
+          sourcePath: path.join(rootPath, 'notes.md'),
+          targetPath: path.join(rootPath, 'documents', 'notes.md'),
+          reason: 'documentation file (Markdown)',
+          classification: { category: 'documentation' as const, confidence: 0.9, reasoning: 'Markdown' },
+        },
+        {
+          type: 'move' as const,
+          sourcePath: path.join(rootPath, 'Docs'),
+          targetPath: path.join(rootPath, 'docs'),
+          reason: 'Folder naming convention',
+        },
+        { type: 'create' as const, sourcePath: path.join(rootPath, 'scripts'), reason: 'Required folder' },
+      ],
+      backupRequired: true,
+      estimatedDuration: 150,
+      warnings: [],
+    };
+  }
+
+  test('should save relative paths and restore them against the project root', async () => {
+    // Arrange
+    await PlanFile.save(planPath, planFor(testDir), testDir);
+
+    // Act
+    const saved = JSON.parse(await fs.readFile(planPath, 'utf-8'));
+    const loaded = await PlanFile.load(planPath, '/checkout');
+
+    // Assert
+    expect(saved.operations[0]).toMatchObject({
+      sourcePath: 'notes.md',
+      targetPath: 'documents/notes.md',
+      classification: { category: 'documentation', reasoning: 'Markdown' },
+    });
+    expect(saved.operations[0].sourceHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(saved.operations[2].sourceHash).toBeUndefined();
+    expect(loaded.toOperationPlan()).toEqual(planFor('/checkout'));
+  });
+
+  test('should report sources that changed or disappeared since planning', async () => {
+    // Arrange
+    await PlanFile.save(planPath, planFor(testDir), testDir);
+    await fs.writeFile(path.join(testDir, 'notes.md'), 'edited after review');
+    await fs.rm(path.join(testDir, 'Docs'), { recursive: true });
+
+    // Act
+    const changes = await (await PlanFile.load(planPath, testDir)).findChangedSources();
+
+    // Assert
+    expect(changes).toEqual([
+      { path: 'notes.md', reason: 'changed since planning' },
+      { path: 'Docs', reason: 'no longer exists' },
+    ]);
+  });
+
+  test('should detect a changed file inside a planned directory move', async () => {
+    // Arrange
+    await PlanFile.save(planPath, planFor(testDir), testDir);
+    await fs.writeFile(path.join(testDir, 'Docs', 'new.md'), 'added later');
+
+    // Act
+    const changes = await (await PlanFile.load(planPath, testDir)).findChangedSources();
+
+    // Assert
+    expect(changes).toEqual([{ path: 'Docs', reason: 'changed since planning' }]);
+  });
+
+  test('should reject plans that reach outside the project', async () => {
+    // Arrange
+    await fs.writeFile(
+      planPath,
+      JSON.stringify({
+        version: 1,
+        createdAt: new Date().toISOString(),
+        operations: [{ type: 'delete', sourcePath: '../outside.txt', reason: 'test' }],
+        backupRequired: true,
+        estimatedDuration: 50,
+        warnings: [],
+      })
+    );
+
+    // Act & Assert
+    await expect(PlanFile.load(planPath, testDir)).rejects.toThrow('../outside.txt is outside the project');
+  });
+});
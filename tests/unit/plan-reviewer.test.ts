@@ -0,0 +1,128 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PlanReviewer, groupOperations, type ReviewPrompter } from '../../src/plan-reviewer.js';
+import type { FileCorrection } from '../../src/ai-learning-database.js';
+import type { FileOperation } from '../../src/types.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * Answers prompts in order, failing the test on an unexpected prompt
+ */
+function scriptedPrompter(answers: string[]): ReviewPrompter & { messages: string[] } {
+  const messages: string[] = [];
+  const next = (message: string) => {
+    messages.push(message);
+    if (answers.length === 0) throw new Error(`Unexpected prompt: ${message}`);
+    return answers.shift()!;
+  };
+  return {
+    messages,
+    async select(message) {
+      return next(message) as any;
+    },
+    async input(message, _defaultValue, validate) {
+      const answer = next(message);
+      expect(validate(answer)).toBe(true);
+      return answer;
+    },
+  };
+}
+
+describe('PlanReviewer', () => {
+  let testDir: string;
+  let operations: FileOperation[];
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-review-test-'));
+    await fs.writeFile(path.join(testDir, 'deploy.sh'), '#!/bin/bash\necho deploy');
+    operations = [
+      {
+        type: 'move',
+        sourcePath: path.join(testDir, 'NOTES.md'),
+        targetPath: path.join(testDir, 'documents', 'NOTES.md'),
+        reason: 'Markdown documentation file',
+      },
+      {
+        type: 'move',
+        sourcePath: path.join(testDir, 'deploy.sh'),
+        targetPath: path.join(testDir, 'documents', 'deploy.sh'),
+        reason: 'documentation file (Mentions docs)',
+        classification: { category: 'documentation', confidence: 0.55, reasoning: 'Mentions docs' },
+      },
+      {
+        type: 'delete',
+        sourcePath: path.join(testDir, 'debug-output.json'),
+        reason: 'Test output/report file',
+        warning: 'Still referenced',
+        isReferenced: true,
+      },
+    ];
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should group operations by target folder or reason', () => {
+    // Act
+    const byTarget = groupOperations(operations, 'target', testDir);
+    const byReason = groupOperations(operations, 'reason', testDir);
+
+    // Assert
+    expect(Array.from(byTarget.keys())).toEqual(['documents/', '(deleted)']);
+    expect(byTarget.get('documents/')).toHaveLength(2);
+    expect(byReason.size).toBe(3);
+  });
+
+  test('should keep accepted operations in plan order and drop rejected ones', async () => {
+    // Arrange
+    const prompter = scriptedPrompter(['target', 'each', 'reject', 'accept', 'accept']);
+    const reviewer = new PlanReviewer(prompter, { addCorrection: vi.fn() });
+
+    // Act
+    const review = await reviewer.review(
+      { operations, backupRequired: true, estimatedDuration: 150, warnings: [] },
+      testDir
+    );
+
+    // Assert
+    expect(review.plan.operations).toEqual([operations[1], operations[2]]);
+    expect(review.rejected).toEqual([operations[0]]);
+    expect(review.plan.backupRequired).toBe(true);
+  });
+
+  test('should apply a retarget and record it as a correction', async () => {
+    // Arrange
+    const corrections: FileCorrection[] = [];
+    const prompter = scriptedPrompter(['reason', 'accept', 'retarget', 'scripts/', 'script', 'reject']);
+    const reviewer = new PlanReviewer(prompter, {
+      addCorrection: async (correction) => {
+        corrections.push(correction);
+      },
+    });
+
+    // Act
+    const review = await reviewer.review(
+      { operations, backupRequired: true, estimatedDuration: 150, warnings: [] },
+      testDir
+    );
+
+    // Assert
+    expect(review.plan.operations.map((op) => op.targetPath)).toEqual([
+      path.join(testDir, 'documents', 'NOTES.md'),
+      path.join(testDir, 'scripts', 'deploy.sh'),
+    ]);
+    expect(review.retargeted).toHaveLength(1);
+    expect(corrections).toEqual([
+      expect.objectContaining({
+        fileName: 'deploy.sh',
+        aiSuggestion: { category: 'documentation', targetPath: path.join(testDir, 'documents', 'deploy.sh') },
+        userCorrection: { category: 'script', targetPath: path.join(testDir, 'scripts', 'deploy.sh') },
+        fileContent: '#!/bin/bash\necho deploy',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { ReferenceIndex } from '../../src/reference-index.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ReferenceIndex', () => {
+  let testDir: string;
+  let cachePath: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-index-test-'));
+    cachePath = path.join(testDir, '.devibe', 'cache', 'reference-index.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function write(relative: string, content: string): Promise<void> {
+    await fs.mkdir(path.dirname(path.join(testDir, relative)), { recursive: true });
+    await fs.writeFile(path.join(testDir, relative), content);
+  }
+
+  async function referencesTo(index: ReferenceIndex, relative: string) {
+    return (await index.findReferences(path.join(testDir, relative))).map((ref) => ({
+      file: path.relative(testDir, ref.file),
+      line: ref.line,
+      kind: ref.kind,
+    }));
+  }
+
+  test('should resolve relative imports and tsconfig aliases, not words that match the name', async () => {
+    // Arrange
+    await write('tsconfig.json', '{\n  // aliases\n  "compilerOptions": { "paths": { "@lib/*": ["src/lib/*"] } }\n}');
+    await write('src/lib/utils.ts', 'export const u = 1;');
+    await write('src/utils.ts', 'export const other = 2;');
+    await write(
+      'src/app.ts',
+      "import { u } from '@lib/utils';\nimport { other } from './utils.js';\nconst utils = 'utils';\n"
+    );
+
+    // Act
+    const index = await ReferenceIndex.build(testDir);
+
+    // Assert
+    expect(await referencesTo(index, 'src/lib/utils.ts')).toEqual([
+      { file: 'src/app.ts', line: 1, kind: 'tsconfig-path' },
+      { file: 'tsconfig.json', line: 3, kind: 'path' },
+    ]);
+    expect(await referencesTo(index, 'src/utils.ts')).toEqual([
+      { file: 'src/app.ts', line: 2, kind: 'import' },
+    ]);
+  });
+
+  test('should resolve package.json entries, Dockerfile sources and CI workflow paths', async () => {
+    // Arrange
+    await write('bin/cli.js', '#!/usr/bin/env node');
+    await write('lib/main.js', 'module.exports = {};');
+    await write('scripts/seed.sh', 'echo seed');
+    await write('scripts/ci/check.sh', 'echo check');
+    await write('config/app.yaml', 'port: 80');
+    await write(
+      'package.json',
+      JSON.stringify({ main: 'lib/main', bin: { tool: './bin/cli.js' }, scripts: { seed: 'bash scripts/seed.sh' } }, null, 2)
+    );
+    await write('Dockerfile', 'FROM node:20\nCOPY config/ /etc/app/\nCOPY --from=build /out /app\n');
+    await write('.github/workflows/ci.yml', 'jobs:\n  check:\n    steps:\n      - run: ./scripts/ci/check.sh\n');
+
+    // Act
+    const index = await ReferenceIndex.build(testDir);
+
+    // Assert
+    expect((await referencesTo(index, 'lib/main.js'))[0].kind).toBe('package-main');
+    expect((await referencesTo(index, 'bin/cli.js'))[0].kind).toBe('package-bin');
+    expect((await referencesTo(index, 'scripts/seed.sh'))[0].kind).toBe('package-script');
+    expect((await referencesTo(index, 'config/app.yaml'))[0]).toEqual({ file: 'Dockerfile', line: 2, kind: 'dockerfile' });
+    expect((await referencesTo(index, 'scripts/ci/check.sh'))[0]).toEqual({
+      file: '.github/workflows/ci.yml',
+      line: 4,
+      kind: 'ci-workflow',
+    });
+  });
+
+  test('should skip files that .gitignore ignores', async () => {
+    // Arrange
+    await write('src/helpers.js', 'module.exports = {};');
+    await write('generated/bundle.js', "require('../src/helpers.js');");
+    await write('generated/keep.js', "require('../src/helpers.js');");
+    await write('.gitignore', 'generated/*\n!generated/keep.js\n');
+
+    // Act
+    const index = await ReferenceIndex.build(testDir);
+
+    // Assert
+    expect(index.listFiles()).toContain('generated/keep.js');
+    expect(index.listFiles()).not.toContain('generated/bundle.js');
+  });
+
+  test('should reuse cached entries for unchanged files and re-read changed ones', async () => {
+    // Arrange
+    await write('src/helpers.ts', 'export const help = 1;');
+    await write('src/main.ts', "import { help } from './helpers.js';\n");
+    await write('src/other.ts', "import { help } from './helpers.js';\n");
+    await ReferenceIndex.forProject(testDir);
+    const cache = JSON.parse(await fs.readFile(cachePath, 'utf-8'));
+    cache.files['src/other.ts'].links = [];
+    await fs.writeFile(cachePath, JSON.stringify(cache));
+    await write('src/main.ts', "import './other.js';\n");
+
+    // Act
+    const index = await ReferenceIndex.forProject(testDir);
+
+    // Assert
+    expect(await referencesTo(index, 'src/helpers.ts')).toEqual([]);
+    expect(await referencesTo(index, 'src/other.ts')).toEqual([{ file: 'src/main.ts', line: 1, kind: 'import' }]);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { ReferenceRewriter } from '../../src/reference-rewriter.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ReferenceRewriter', () => {
+  let testDir: string;
+  let rewriter: ReferenceRewriter;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-rewriter-test-'));
+    rewriter = new ReferenceRewriter();
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function write(relative: string, content: string): Promise<void> {
+    await fs.mkdir(path.dirname(path.join(testDir, relative)), { recursive: true });
+    await fs.writeFile(path.join(testDir, relative), content);
+  }
+
+  test('should rewrite imports and requires in the style they were written', async () => {
+    // Arrange
+    await write('utils.ts', 'export const a = 1;');
+    await write('lib/index.ts', 'export const b = 2;');
+    await write(
+      'src/app.ts',
+      [
+        "import { a } from '../utils.js';",
+        "import { b } from '../lib';",
+        "const u = require('../utils');",
+        "const lazy = () => import('../utils.js');",
+        "import { x } from 'external';",
+      ].join('\n')
+    );
+
+    // Act
+    const rewrites = await rewriter.planRewrites(testDir, [
+      { from: path.join(testDir, 'utils.ts'), to: path.join(testDir, 'src', 'shared', 'utils.ts') },
+      { from: path.join(testDir, 'lib'), to: path.join(testDir, 'packages', 'lib') },
+    ]);
+
+    // Assert
+    expect(rewrites).toHaveLength(1);
+    expect(rewrites[0].file).toBe(path.join(testDir, 'src', 'app.ts'));
+    expect(rewrites[0].content).toBe(
+      [
+        "import { a } from './shared/utils.js';",
+        "import { b } from '../packages/lib';",
+        "const u = require('./shared/utils');",
+        "const lazy = () => import('./shared/utils.js');",
+        "import { x } from 'external';",
+      ].join('\n')
+    );
+    expect(rewrites[0].changes.map((change) => change.line)).toEqual([1, 2, 3, 4]);
+  });
+
+  test('should rewrite the relative imports of a file that moves itself', async () => {
+    // Arrange
+    await write('config.ts', 'export default {};');
+    await write('setup.ts', "import config from './config';");
+
+    // Act
+    const rewrites = await rewriter.planRewrites(testDir, [
+      { from: path.join(testDir, 'setup.ts'), to: path.join(testDir, 'scripts', 'setup.ts') },
+    ]);
+
+    // Assert
+    expect(rewrites).toEqual([
+      {
+        file: path.join(testDir, 'setup.ts'),
+        movedTo: path.join(testDir, 'scripts', 'setup.ts'),
+        content: "import config from '../config';",
+        changes: [{ from: './config', to: '../config', line: 1 }],
+      },
+    ]);
+  });
+
+  test('should rewrite markdown links and package.json script paths', async () => {
+    // Arrange
+    await write('GUIDE.md', '# Guide');
+    await write('build.js', 'console.log("build");');
+    await write(
+      'README.md',
+      [
+        'See [the guide](./GUIDE.md#setup) and [the site](https://example.com/GUIDE.md).',
+        '',
+        '```',
+        '[not a link](GUIDE.md)',
+        '```',
+        '',
+        '[guide]: GUIDE.md',
+      ].join('\n')
+    );
+    await write('package.json', JSON.stringify({ scripts: { build: 'node build.js --prod' } }, null, 2));
+
+    // Act
+    const rewrites = await rewriter.planRewrites(testDir, [
+      { from: path.join(testDir, 'GUIDE.md'), to: path.join(testDir, 'documents', 'GUIDE.md') },
+      { from: path.join(testDir, 'build.js'), to: path.join(testDir, 'scripts', 'build.js') },
+    ]);
+
+    // Assert
+    const byName = new Map(rewrites.map((rewrite) => [path.basename(rewrite.file), rewrite.content]));
+    expect(byName.get('README.md')).toBe(
+      [
+        'See [the guide](./documents/GUIDE.md#setup) and [the site](https://example.com/GUIDE.md).',
+        '',
+        '```',
+        '[not a link](GUIDE.md)',
+        '```',
+        '',
+        '[guide]: documents/GUIDE.md',
+      ].join('\n')
+    );
+    expect(JSON.parse(byName.get('package.json')!).scripts.build).toBe('node scripts/build.js --prod');
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, test, expect } from 'vitest';
+import {
+  serializeReport,
+  parseReportFormat,
+  type CheckPrReport,
+} from '../../src/report-formatter.js';
+import type { SecretFinding, SecretScanResult } from '../../src/types.js';
+import type { BestPracticesReport } from '../../src/repo-best-practices.js';
+import * as path from 'path';
+
+const rootPath = path.resolve('/repo');
+
+function finding(overrides: Partial<SecretFinding> = {}): SecretFinding {
+  return {
+    file: path.join(rootPath, 'src', 'config.ts'),
+    line: 3,
+    column: 14,
+    type: 'AWS Access Key ID',
+    pattern: 'aws-access-key',
+    severity: 'critical',
+    context: 'const key = "AKIAIOSF****";',
+    recommendation: 'Use AWS credentials file or IAM roles instead',
+    confidence: 0.9,
+    fingerprint: 'abc123',
+    ...overrides,
+  };
+}
+
+function scanResult(findings: SecretFinding[]): SecretScanResult {
+  return {
+    filesScanned: 2,
+    secretsFound: findings.length,
+    duration: 5,
+    findings,
+    summary: { critical: 1, high: 0, medium: 0, low: findings.length - 1 },
+  };
+}
+
+describe('report formatter', () => {
+  test('should map secret findings to SARIF results with rule ids and levels', () => {
+    // Arrange
+    const result = scanResult([
+      finding(),
+      finding({ pattern: 'entropy-hex', type: 'High Entropy String (hex)', severity: 'low', commit: 'f00d', author: 'Ada <ada@example.com>' }),
+    ]);
+
+    // Act
+    const sarif = JSON.parse(serializeReport({ kind: 'scan', result }, 'sarif', { rootPath, toolVersion: '3.1.1' }));
+
+    // Assert
+    const run = sarif.runs[0];
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.tool.driver.version).toBe('3.1.1');
+    expect(run.tool.driver.rules.map((r: any) => r.id)).toEqual(['aws-access-key', 'entropy-hex']);
+    expect(run.results.map((r: any) => [r.ruleId, r.level])).toEqual([
+      ['aws-access-key', 'error'],
+      ['entropy-hex', 'note'],
+    ]);
+    expect(run.results[0].locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/config.ts' },
+      region: { startLine: 3, startColumn: 14 },
+    });
+    expect(run.results[0].partialFingerprints).toEqual({ 'devibeSecret/v1': 'abc123' });
+    expect(run.results[1].properties.commit).toBe('f00d');
+  });
+
+  test('should report only failed best-practice checks as SARIF results', () => {
+    // Arrange
+    const report: BestPracticesReport = {
+      totalChecks: 2,
+      passed: 1,
+      failed: 1,
+      score: 50,
+      summary: { critical: 0, high: 1, medium: 0, low: 0 },
+      checks: [
+        { id: 'readme-exists', category: 'documentation', name: 'README.md exists', description: 'Has a README', severity: 'critical', passed: true, message: 'README.md found', autoFixable: false },
+        { id: 'license-exists', category: 'licensing', name: 'LICENSE exists', description: 'Has a license', severity: 'high', passed: false, message: 'LICENSE is missing', recommendation: 'Add a LICENSE file', autoFixable: true },
+      ],
+    };
+
+    // Act
+    const sarif = JSON.parse(serializeReport({ kind: 'best-practices', report }, 'sarif', { rootPath }));
+
+    // Assert
+    const run = sarif.runs[0];
+    expect(run.tool.driver.rules.map((r: any) => r.id)).toEqual(['readme-exists', 'license-exists']);
+    expect(run.results).toEqual([
+      {
+        ruleId: 'license-exists',
+        level: 'error',
+        message: { text: 'LICENSE is missing. Add a LICENSE file' },
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'package.json' } } }],
+      },
+    ]);
+  });
+
+  test('should give every SARIF result a location, as code scanning requires', () => {
+    // Arrange
+    const checks: BestPracticesReport['checks'] = [
+      { id: 'doc-readme', category: 'documentation', name: 'README.md exists', description: 'Has a README', severity: 'critical', passed: false, message: 'README.md is missing', autoFixable: true },
+      { id: 'deps-engines', category: 'dependencies', name: 'Specifies Node.js version', description: 'Has engines', severity: 'medium', passed: false, message: 'No engines field', autoFixable: false },
+    ];
+    const bestPractices: BestPracticesReport = {
+      totalChecks: 2, passed: 0, failed: 2, score: 0, summary: { critical: 1, high: 0, medium: 1, low: 0 }, checks,
+    };
+    const checkPr: CheckPrReport = {
+      passed: false,
+      steps: [
+        { id: 'secrets', name: 'Secret scan', status: 'failed', message: 'Found 1 new critical secrets' },
+        { id: 'build', name: 'Build', status: 'warning', message: 'Build failed or not configured' },
+        { id: 'tests', name: 'Tests', status: 'failed', message: 'Tests failed' },
+      ],
+      secretScan: scanResult([finding()]),
+    };
+
+    // Act
+    const results = [
+      { kind: 'best-practices' as const, report: bestPractices },
+      { kind: 'check-pr' as const, report: checkPr },
+    ].flatMap((report) => JSON.parse(serializeReport(report, 'sarif', { rootPath })).runs[0].results);
+
+    // Assert
+    expect(results).toHaveLength(5);
+    for (const result of results) {
+      expect(result.locations[0].physicalLocation.artifactLocation.uri).toEqual(expect.any(String));
+    }
+    expect(results.map((r: any) => r.locations[0].physicalLocation.artifactLocation.uri)).toEqual([
+      'README.md', 'package.json', 'src/config.ts', 'package.json', 'package.json',
+    ]);
+  });
+
+  test('should write check-pr steps and secrets as escaped JUnit XML', () => {
+    // Arrange
+    const report: CheckPrReport = {
+      passed: false,
+      steps: [
+        { id: 'secrets', name: 'Secret scan', status: 'failed', message: 'Found 1 new critical secrets' },
+        { id: 'build', name: 'Build', status: 'passed', message: 'Build successful' },
+        { id: 'tests', name: 'Tests', status: 'skipped', message: 'No test script' },
+      ],
+      secretScan: scanResult([finding({ context: 'token = "<a&b>"' })]),
+    };
+
+    // Act
+    const xml = serializeReport({ kind: 'check-pr', report }, 'junit', { rootPath });
+
+    // Assert
+    expect(xml).toContain('<testsuite name="devibe.check-pr" tests="3" failures="1" skipped="1">');
+    expect(xml).toContain('<testcase classname="check-pr" name="Build"/>');
+    expect(xml).toContain('<testcase classname="secrets.aws-access-key" name="AWS Access Key ID at src/config.ts:3">');
+    expect(xml).toContain('token = &quot;&lt;a&amp;b&gt;&quot;');
+  });
+
+  test('should serialize the raw result as JSON and reject unknown formats', () => {
+    // Arrange
+    const result = scanResult([finding()]);
+
+    // Act
+    const json = JSON.parse(serializeReport({ kind: 'scan', result }, 'json', { rootPath }));
+
+    // Assert
+    expect(json).toEqual(result);
+    expect(() => parseReportFormat('yaml')).toThrow('Unknown format "yaml". Use one of: text, json, sarif, junit');
+  });
+});
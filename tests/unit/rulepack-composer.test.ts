@@ -0,0 +1,138 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { RulePackComposer } from '../../src/rulepack-composer.js';
+import type { RulePack } from '../../src/rulepack-types.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+function makePack(name: string, extra: Partial<RulePack> = {}): RulePack {
+  return {
+    schema: 'devibe-rulepack/v1',
+    metadata: { name, version: '1.0.0', author: 'test', description: 'test pack' },
+    ...extra,
+  };
+}
+
+async function writePack(dir: string, file: string, name: string, body: string): Promise<void> {
+  await fs.writeFile(
+    path.join(dir, file),
+    `schema: "devibe-rulepack/v1"\nmetadata:\n  name: "${name}"\n  version: "1.0.0"\n${body}`
+  );
+}
+
+describe('RulePackComposer', () => {
+  let testDir: string;
+  let composer: RulePackComposer;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-composer-test-'));
+    composer = new RulePackComposer();
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should deep merge objects and append arrays without duplicates', async () => {
+    // Arrange
+    const base = makePack('base', {
+      structure: { enforced: true, requiredFolders: [{ path: 'src', description: 'Source' }] },
+      ignore: ['dist/**'],
+    });
+    const team = makePack('team', {
+      structure: {
+        enforced: false,
+        requiredFolders: [
+          { path: 'src', description: 'Team source', allowedCategories: ['source'] },
+          { path: 'infra', description: 'Infrastructure' },
+        ],
+      },
+      ignore: ['tmp/**', 'dist/**'],
+    });
+
+    // Act
+    const merged = await composer.compose([base, team]);
+
+    // Assert
+    expect(merged.metadata.name).toBe('team');
+    expect(merged.structure?.enforced).toBe(false);
+    expect(merged.structure?.requiredFolders).toEqual([
+      { path: 'src', description: 'Team source', allowedCategories: ['source'] },
+      { path: 'infra', description: 'Infrastructure' },
+    ]);
+    expect(merged.ignore).toEqual(['dist/**', 'tmp/**']);
+  });
+
+  test('should remove inherited values set to null', () => {
+    // Arrange
+    const base = makePack('base', {
+      structure: { enforced: true, forbiddenAtRoot: ['*.log'] },
+      git: { requiredFiles: ['README.md'] },
+    });
+
+    // Act
+    const merged = composer.merge(base, { structure: { forbiddenAtRoot: null } as any, git: null as any });
+
+    // Assert
+    expect(merged.structure).toEqual({ enforced: true });
+    expect(merged.git).toBeUndefined();
+  });
+
+  test('should flatten extends chains and record provenance', async () => {
+    // Arrange
+    await writePack(testDir, 'root.yaml', '@acme/root', 'structure:\n  enforced: true\nignore:\n  - "dist/**"\n');
+    await writePack(
+      testDir,
+      'team.yaml',
+      '@acme/team',
+      'extends:\n  - "./root.yaml"\nstructure:\n  enforced: false\nignore:\n  - "tmp/**"\n'
+    );
+
+    // Act
+    const composed = await composer.resolve('./team.yaml', testDir);
+
+    // Assert
+    expect(composed.layers).toEqual(['@acme/root', '@acme/team']);
+    expect(composed.rulePack.metadata.name).toBe('@acme/team');
+    expect(composed.rulePack.extends).toBeUndefined();
+    expect(composed.rulePack._resolved.dependencies).toEqual(['@acme/root']);
+    expect(composed.rulePack.ignore).toEqual(['dist/**', 'tmp/**']);
+    expect(composed.provenance['$.structure.enforced']).toBe('@acme/team');
+    expect(composed.provenance['$.ignore[dist/**]']).toBe('@acme/root');
+  });
+
+  test('should apply a shared ancestor only once', async () => {
+    // Arrange
+    await writePack(testDir, 'root.yaml', '@acme/root', 'structure:\n  enforced: true\n');
+    await writePack(testDir, 'a.yaml', '@acme/a', 'extends:\n  - "./root.yaml"\nstructure:\n  enforced: false\n');
+    await writePack(testDir, 'b.yaml', '@acme/b', 'extends:\n  - "./root.yaml"\n');
+
+    // Act
+    const composed = await composer.resolveAll(['./a.yaml', './b.yaml'], testDir);
+
+    // Assert
+    expect(composed.layers).toEqual(['@acme/root', '@acme/a', '@acme/b']);
+    expect(composed.rulePack.structure?.enforced).toBe(false);
+  });
+
+  test('should detect circular inheritance', async () => {
+    // Arrange
+    await writePack(testDir, 'a.yaml', '@acme/a', 'extends:\n  - "./b.yaml"\n');
+    await writePack(testDir, 'b.yaml', '@acme/b', 'extends:\n  - "./a.yaml"\n');
+
+    // Act & Assert
+    await expect(composer.resolve('./a.yaml', testDir)).rejects.toThrow(
+      'Circular rule pack inheritance: @acme/a → @acme/b → ./a.yaml'
+    );
+  });
+
+  test('should resolve bundled packs that extend other bundled packs', async () => {
+    // Act
+    const composed = await composer.resolve('@devibe/react-standard', testDir);
+
+    // Assert
+    expect(composed.layers).toEqual(['@devibe/nodejs-standard', '@devibe/react-standard']);
+    expect(composed.provenance['$.structure.requiredFolders[src/components].path']).toBe('@devibe/react-standard');
+    expect(composed.provenance['$.structure.requiredFolders[tests].path']).toBe('@devibe/nodejs-standard');
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { RulePackEngine } from '../../src/rulepack-engine.js';
+import { RulePackLoader } from '../../src/rulepack-loader.js';
+import { OperationPlanner } from '../../src/operation-executor.js';
+import { GitDetector } from '../../src/git-detector.js';
+import { FileClassifier } from '../../src/file-classifier.js';
+import { TestOrganizer } from '../../src/test-organizer.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('RulePackLoader', () => {
+  let testDir: string;
+  let loader: RulePackLoader;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-rulepack-test-'));
+    loader = new RulePackLoader();
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should resolve bundled packs by name', async () => {
+    // Act
+    const pack = await loader.resolve('@devibe/nodejs-standard', testDir);
+
+    // Assert
+    expect(pack.metadata.name).toBe('@devibe/nodejs-standard');
+    expect(pack.structure?.enforced).toBe(true);
+    expect(pack._resolved.source.type).toBe('local');
+  });
+
+  test('should load YAML packs from a relative path', async () => {
+    // Arrange
+    await fs.writeFile(
+      path.join(testDir, 'team.yaml'),
+      'schema: "devibe-rulepack/v1"\nmetadata:\n  name: "@acme/team"\n  version: "1.0.0"\nignore:\n  - "tmp/**"\n'
+    );
+
+    // Act
+    const pack = await loader.resolve('./team.yaml', testDir);
+
+    // Assert
+    expect(pack.metadata.name).toBe('@acme/team');
+    expect(pack.ignore).toEqual(['tmp/**']);
+  });
+
+  test('should reject invalid packs with validation details', async () => {
+    // Arrange
+    await fs.writeFile(path.join(testDir, 'bad.json'), JSON.stringify({ schema: 'nope' }));
+
+    // Act & Assert
+    await expect(loader.resolve('./bad.json', testDir)).rejects.toThrow(/Invalid rule pack/);
+  });
+
+  test('should report unknown pack names', async () => {
+    await expect(loader.resolve('@acme/missing', testDir)).rejects.toThrow(/not found/);
+  });
+});
+
+describe('RulePackEngine', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-rulepack-engine-test-'));
+    await fs.mkdir(path.join(testDir, '.git'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should load packs listed in .unvibe.config.js', async () => {
+    // Arrange
+    await fs.writeFile(
+      path.join(testDir, '.unvibe.config.js'),
+      "module.exports = { rulepacks: ['@devibe/nodejs-standard'] };"
+    );
+
+    // Act
+    const engine = await RulePackEngine.forProject(testDir);
+
+    // Assert
+    expect(engine).not.toBeNull();
+    expect(engine!.getSources()).toEqual(['@devibe/nodejs-standard']);
+    expect(engine!.isIgnored('debug.log')).toBe(true);
+  });
+
+  test('should inherit from extended packs and apply overrides last', async () => {
+    // Arrange
+    const engine = await RulePackEngine.fromConfig(
+      {
+        rulepacks: ['@devibe/react-standard'],
+        overrides: { structure: { enforced: false } },
+      },
+      testDir
+    );
+
+    // Assert
+    expect(engine!.getSources()).toEqual(['@devibe/nodejs-standard', '@devibe/react-standard']);
+    expect(engine!.isStructureEnforced()).toBe(false);
+    expect(engine!.getRequiredFolders().map(f => f.path)).toContain('src/components');
+    expect(engine!.getRequiredFolders().map(f => f.path)).toContain('docs');
+  });
+
+  test('should return null when no packs are configured', async () => {
+    expect(await RulePackEngine.forProject(testDir)).toBeNull();
+  });
+
+  test('should move files forbidden at root into the folder for their category', async () => {
+    // Arrange
+    await fs.writeFile(path.join(testDir, 'user.test.ts'), 'export {};');
+    const engine = await RulePackEngine.fromConfig({ rulepacks: ['@devibe/nodejs-standard'] }, testDir);
+    const classifier = new FileClassifier(engine!.getClassificationRules(), testDir);
+    const planner = new OperationPlanner(new GitDetector(), classifier, undefined, undefined, engine!);
+
+    // Act
+    const plan = await planner.planFolderEnforcement(testDir);
+
+    // Assert
+    const move = plan.operations.find(op => op.type === 'move');
+    expect(move?.targetPath).toBe(path.join(testDir, 'tests', 'user.test.ts'));
+    expect(move?.reason).toBe('Test files should be in tests/ directory');
+    expect(plan.operations.filter(op => op.type === 'create').map(op => path.basename(op.sourcePath)))
+      .toEqual(['src', 'tests', 'docs']);
+  });
+
+  test('should drive test categorization from the pack', async () => {
+    // Arrange
+    const engine = await RulePackEngine.fromConfig({ rulepacks: ['@devibe/nodejs-standard'] }, testDir);
+    const organizer = new TestOrganizer(engine!.getTestOrganizationConfig()!);
+
+    // Act & Assert
+    expect(await organizer.categorizeTest('src/api.integration.test.ts')).toBe('integration');
+    expect(await organizer.categorizeTest('src/api.test.ts')).toBe('unit');
+  });
+});
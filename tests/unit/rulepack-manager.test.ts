@@ -0,0 +1,168 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { RulePackManager } from '../../src/rulepack-manager.js';
+import { RulePackLoader } from '../../src/rulepack-loader.js';
+import { OFFICIAL_RULEPACKS } from '../../src/rulepack-types.js';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+function packYaml(name: string, version: string, extra = ''): string {
+  return (
+    `schema: "devibe-rulepack/v1"\nmetadata:\n  name: "${name}"\n  version: "${version}"\n` +
+    `  author: "test"\n  description: "${name} rules"\n  tags: ["team"]\n${extra}`
+  );
+}
+
+describe('RulePackManager', () => {
+  let testDir: string;
+  let storeDir: string;
+  let manager: RulePackManager;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-rulepack-manager-test-'));
+    storeDir = path.join(testDir, 'store');
+    manager = new RulePackManager(storeDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should install a pack file and list its metadata', async () => {
+    // Arrange
+    const file = path.join(testDir, 'team.yaml');
+    await fs.writeFile(file, packYaml('@acme/team', '1.0.0'));
+
+    // Act
+    await manager.install(file);
+    const installed = await manager.list();
+
+    // Assert
+    expect(installed).toHaveLength(1);
+    expect(installed[0]).toMatchObject({ name: '@acme/team', version: '1.0.0', description: '@acme/team rules' });
+    const resolved = await manager.resolve('@acme/team');
+    expect(resolved._resolved.source).toEqual({ type: 'local', source: file, version: '1.0.0' });
+  });
+
+  test('should install from a tarball and keep sibling files', async () => {
+    // Arrange
+    const packageDir = path.join(testDir, 'package');
+    await fs.mkdir(packageDir);
+    await fs.writeFile(path.join(packageDir, 'package.json'), '{"name":"acme-rules"}');
+    await fs.writeFile(path.join(packageDir, 'parent.yaml'), packYaml('@acme/parent', '1.0.0', 'ignore:\n  - "tmp/**"\n'));
+    await fs.writeFile(
+      path.join(packageDir, 'rulepack.yaml'),
+      packYaml('@acme/team', '2.0.0', 'extends:\n  - "./parent.yaml"\n')
+    );
+    const tarball = path.join(testDir, 'team.tgz');
+    execFileSync('tar', ['-czf', tarball, '-C', testDir, 'package']);
+
+    // Act
+    const pack = await manager.install(tarball, '2.0.0');
+
+    // Assert
+    expect(pack.metadata.name).toBe('@acme/team');
+    const loader = new RulePackLoader(undefined, storeDir);
+    const file = await loader.findRulePackFile('@acme/team', testDir);
+    expect(file).toBe(path.join(storeDir, '@acme', 'team', '2.0.0', 'package', 'rulepack.yaml'));
+    await expect(fs.access(path.join(path.dirname(file), 'parent.yaml'))).resolves.toBeUndefined();
+  });
+
+  test('should reject a version the pack does not declare', async () => {
+    // Arrange
+    const file = path.join(testDir, 'team.yaml');
+    await fs.writeFile(file, packYaml('@acme/team', '1.0.0'));
+
+    // Act & Assert
+    await expect(manager.install(file, '2.0.0')).rejects.toThrow(/not version 2\.0\.0/);
+    expect(await manager.list()).toEqual([]);
+  });
+
+  test('should pin versions and resolve name@version references', async () => {
+    // Arrange
+    const v1 = path.join(testDir, 'v1.yaml');
+    const v2 = path.join(testDir, 'v2.yaml');
+    await fs.writeFile(v1, packYaml('@acme/team', '1.0.0'));
+    await fs.writeFile(v2, packYaml('@acme/team', '2.0.0'));
+    await manager.install(v1);
+    await manager.install(v2);
+
+    // Act
+    await manager.pin('@acme/team', '1.0.0');
+
+    // Assert
+    expect((await manager.resolve('@acme/team')).metadata.version).toBe('1.0.0');
+    expect((await manager.resolve('@acme/team@2.0.0')).metadata.version).toBe('2.0.0');
+    await expect(manager.resolve('@acme/team@3.0.0')).rejects.toThrow(/no version 3\.0\.0/);
+    await expect(manager.pin('@acme/team', '3.0.0')).rejects.toThrow(/Installed versions: 1\.0\.0, 2\.0\.0/);
+  });
+
+  test('should remove a single version and re-pin the latest remaining one', async () => {
+    // Arrange
+    const v1 = path.join(testDir, 'v1.yaml');
+    const v2 = path.join(testDir, 'v2.yaml');
+    await fs.writeFile(v1, packYaml('@acme/team', '1.0.0'));
+    await fs.writeFile(v2, packYaml('@acme/team', '2.0.0'));
+    await manager.install(v1);
+    await manager.install(v2);
+
+    // Act
+    await manager.remove('@acme/team@2.0.0');
+
+    // Assert
+    expect(await manager.listVersions()).toEqual([{ name: '@acme/team', pinned: '1.0.0', versions: ['1.0.0'] }]);
+
+    await manager.remove('@acme/team');
+    expect(await manager.list()).toEqual([]);
+    expect(await fs.readdir(storeDir)).toEqual(['index.json']);
+  });
+
+  test('should never remove or replace anything outside the store', async () => {
+    // Arrange
+    const victim = path.join(testDir, 'victim');
+    await fs.mkdir(victim);
+    await fs.writeFile(path.join(victim, 'keep.txt'), 'keep');
+    const escaping = path.join(testDir, 'escaping.yaml');
+    await fs.writeFile(escaping, packYaml('../victim', '1.0.0'));
+    const team = path.join(testDir, 'team.yaml');
+    await fs.writeFile(team, packYaml('@acme/team', '1.0.0'));
+    await manager.install(team);
+    const indexPath = path.join(storeDir, 'index.json');
+    const index = JSON.parse(await fs.readFile(indexPath, 'utf-8'));
+    index.packs['@acme/team'].versions['../../../victim'] = index.packs['@acme/team'].versions['1.0.0'];
+    await fs.writeFile(indexPath, JSON.stringify(index));
+
+    // Act & Assert
+    await expect(manager.install(escaping)).rejects.toThrow('Cannot install rule pack "../victim"');
+    await expect(manager.remove('../..')).rejects.toThrow('Invalid rule pack name "../.."');
+    await expect(manager.remove('@acme/team@../../../victim')).rejects.toThrow(/outside the rule pack store/);
+    expect(await fs.readFile(path.join(victim, 'keep.txt'), 'utf-8')).toBe('keep');
+  });
+
+  test('should refuse remote sources', async () => {
+    await expect(manager.install('npm:@acme/team')).rejects.toThrow(/npm sources is not supported/);
+  });
+
+  test('should resolve every official rule pack offline', async () => {
+    // Act
+    const names = (await manager.listBundled()).map((m) => m.name).sort();
+
+    // Assert
+    expect(names).toEqual(Object.values(OFFICIAL_RULEPACKS).sort());
+    for (const name of Object.values(OFFICIAL_RULEPACKS)) {
+      expect((await manager.resolve(name)).metadata.name).toBe(name);
+    }
+  });
+
+  test('should search installed and bundled packs', async () => {
+    // Arrange
+    const file = path.join(testDir, 'team.yaml');
+    await fs.writeFile(file, packYaml('@acme/team', '1.0.0'));
+    await manager.install(file);
+
+    // Act & Assert
+    expect((await manager.search('team')).map((m) => m.name)).toEqual(['@acme/team']);
+    expect((await manager.search('pytest')).map((m) => m.name)).toEqual(['@devibe/python-standard']);
+  });
+});
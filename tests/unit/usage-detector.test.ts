@@ -0,0 +1,56 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { UsageDetector } from '../../src/usage-detector.js';
+import { ReferenceIndex } from '../../src/reference-index.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('UsageDetector', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'unvibe-usage-test-'));
+    await fs.writeFile(path.join(testDir, 'check-db.js'), 'console.log("check");');
+    await fs.writeFile(path.join(testDir, 'debug-api.js'), 'console.log("debug");');
+    await fs.writeFile(path.join(testDir, 'Makefile'), 'check:\n\tnode check-db.js\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should answer every check from one index per search path', async () => {
+    // Arrange
+    const buildIndex = vi.fn((rootPath: string) => ReferenceIndex.build(rootPath));
+    const detector = new UsageDetector(buildIndex);
+
+    // Act
+    const used = await detector.checkFileUsage(path.join(testDir, 'check-db.js'), [testDir]);
+    const unused = await detector.checkFileUsage(path.join(testDir, 'debug-api.js'), [testDir]);
+
+    // Assert
+    expect(used.isReferenced).toBe(true);
+    expect(used.references).toEqual([
+      { file: path.join(testDir, 'Makefile'), line: 2, context: 'node check-db.js', kind: 'path', confidence: 0.7 },
+    ]);
+    expect(unused.isReferenced).toBe(false);
+    expect(buildIndex).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not count a name that never resolves to the file as a use', async () => {
+    // Arrange
+    await fs.mkdir(path.join(testDir, 'tools'));
+    await fs.writeFile(path.join(testDir, 'tools', 'seed.js'), 'console.log("seed");');
+    await fs.writeFile(path.join(testDir, 'NOTES.md'), 'We used to run seed.js by hand.\n');
+    const detector = new UsageDetector((rootPath) => ReferenceIndex.build(rootPath));
+
+    // Act
+    const result = await detector.checkFileUsage(path.join(testDir, 'tools', 'seed.js'), [testDir]);
+
+    // Assert
+    expect(result.isReferenced).toBe(false);
+    expect(result.references).toEqual([
+      expect.objectContaining({ file: path.join(testDir, 'NOTES.md'), kind: 'mention', confidence: 0.3 }),
+    ]);
+  });
+});